@@ -0,0 +1,101 @@
+import { compileAggregations } from './es.aggregations';
+import { Document, Field } from './es.decorators';
+import { EsRepository } from './es.repository';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'keyword' })
+    brand!: string;
+
+    @Field({ type: 'text', fields: { keyword: { type: 'keyword' } } })
+    name!: string;
+
+    @Field({ type: 'double' })
+    price!: number;
+}
+
+describe('compileAggregations', () => {
+    it('compiles field references of nested aggregations', () => {
+        expect(
+            compileAggregations(Product, {
+                byBrand: {
+                    aggs: {
+                        names: { terms: { field: 'name.keyword', size: 3 } },
+                        price: { stats: { field: 'price' } },
+                    },
+                    terms: { field: 'brand', size: 10 },
+                },
+            }),
+        ).toEqual({
+            byBrand: {
+                aggs: { names: { terms: { field: 'name.keyword', size: 3 } }, price: { stats: { field: 'price' } } },
+                terms: { field: 'brand', size: 10 },
+            },
+        });
+    });
+
+    it('rejects unknown fields, including in sub-aggregations', () => {
+        expect(() => compileAggregations(Product, { byColor: { terms: { field: 'color' as 'brand' } } })).toThrow(
+            'Unknown field "color" for Elasticsearch document Product',
+        );
+        expect(() =>
+            compileAggregations(Product, {
+                byBrand: { aggs: { stock: { stats: { field: 'stock' as 'price' } } }, terms: { field: 'brand' } },
+            }),
+        ).toThrow('Unknown field "stock" for Elasticsearch document Product');
+    });
+});
+
+@Document({ index: 'orders', naming: 'snake_case' })
+class Order {
+    @Field({ type: 'keyword' })
+    customerId!: string;
+
+    @Field({ type: 'double', name: 'total_eur' })
+    totalAmount!: number;
+}
+
+describe('compileAggregations with field names', () => {
+    it('translates properties to Elasticsearch field names', () => {
+        expect(
+            compileAggregations(Order, {
+                byCustomer: { aggs: { spent: { stats: { field: 'totalAmount' } } }, terms: { field: 'customerId' } },
+            }),
+        ).toEqual({
+            byCustomer: { aggs: { spent: { stats: { field: 'total_eur' } } }, terms: { field: 'customer_id' } },
+        });
+    });
+});
+
+describe('EsRepository.aggregate', () => {
+    it('sends the compiled aggregations and reads typed results back', async () => {
+        const search = jest.fn(async () => ({
+            aggregations: {
+                byBrand: {
+                    buckets: [{ doc_count: 2, key: 'acme', price: { avg: 15, count: 2, max: 20, min: 10, sum: 30 } }],
+                },
+            },
+            hits: { hits: [], total: { relation: 'eq', value: 2 } },
+            took: 3,
+        }));
+        const repo = new EsRepository({ search } as unknown as ElasticsearchClient, Product);
+
+        const { aggregations, total } = await repo.aggregate({
+            aggs: { byBrand: { aggs: { price: { stats: { field: 'price' } } }, terms: { field: 'brand' } } },
+        });
+
+        expect(search).toHaveBeenCalledWith(
+            expect.objectContaining({
+                aggs: { byBrand: { aggs: { price: { stats: { field: 'price' } } }, terms: { field: 'brand' } } },
+                index: 'products',
+                size: 0,
+            }),
+        );
+        expect(total).toBe(2);
+        expect(aggregations.byBrand.buckets.map((b) => ({ avg: b.price.avg, brand: b.key }))).toEqual([
+            { avg: 15, brand: 'acme' },
+        ]);
+    });
+});
@@ -0,0 +1,195 @@
+import cloneDeep from 'lodash/cloneDeep';
+import forEach from 'lodash/forEach';
+import isNil from 'lodash/isNil';
+import isString from 'lodash/isString';
+import mapValues from 'lodash/mapValues';
+
+import { EsQueryExpressions } from './es.query-builder';
+
+import type { DocumentFieldPath } from './es.interfaces';
+import type { Constructor } from './es.repository';
+import type {
+    AggregationsAggregationContainer,
+    AggregationsCardinalityAggregation,
+    AggregationsDateHistogramAggregation,
+    AggregationsHistogramAggregation,
+    AggregationsPercentilesAggregation,
+    AggregationsRangeAggregation,
+    AggregationsStatsAggregation,
+    AggregationsTermsAggregation,
+    AggregationsTopHitsAggregation,
+    SearchHitsMetadata,
+} from '@elastic/elasticsearch/lib/api/types';
+
+type WithField<A, T> = Omit<A, 'field'> & { field?: DocumentFieldPath<T> };
+
+// Aggregation request definitions
+export interface EsCardinalityAggregation<T> {
+    cardinality: WithField<AggregationsCardinalityAggregation, T>;
+}
+
+export interface EsDateHistogramAggregation<T> {
+    aggs?: EsAggregations<T>;
+    date_histogram: WithField<Omit<AggregationsDateHistogramAggregation, 'keyed'>, T>;
+}
+
+export interface EsHistogramAggregation<T> {
+    aggs?: EsAggregations<T>;
+    histogram: WithField<Omit<AggregationsHistogramAggregation, 'keyed'>, T>;
+}
+
+export interface EsPercentilesAggregation<T> {
+    percentiles: WithField<Omit<AggregationsPercentilesAggregation, 'keyed'>, T>;
+}
+
+export interface EsRangeAggregation<T> {
+    aggs?: EsAggregations<T>;
+    range: WithField<Omit<AggregationsRangeAggregation, 'keyed'>, T>;
+}
+
+export interface EsStatsAggregation<T> {
+    stats: WithField<AggregationsStatsAggregation, T>;
+}
+
+export interface EsTermsAggregation<T> {
+    aggs?: EsAggregations<T>;
+    terms: WithField<AggregationsTermsAggregation, T>;
+}
+
+export interface EsTopHitsAggregation<T> {
+    top_hits: WithField<AggregationsTopHitsAggregation, T>;
+}
+
+export type EsAggregation<T> =
+    | EsCardinalityAggregation<T>
+    | EsDateHistogramAggregation<T>
+    | EsHistogramAggregation<T>
+    | EsPercentilesAggregation<T>
+    | EsRangeAggregation<T>
+    | EsStatsAggregation<T>
+    | EsTermsAggregation<T>
+    | EsTopHitsAggregation<T>;
+
+export type EsAggregations<T> = Record<string, EsAggregation<T>>;
+
+// Aggregation results (mirror the request shape)
+export interface EsBucket {
+    doc_count: number;
+}
+
+export interface EsCardinalityResult {
+    value: number;
+}
+
+export interface EsDateHistogramBucket extends EsBucket {
+    key: number;
+    key_as_string?: string;
+}
+
+export interface EsHistogramBucket extends EsBucket {
+    key: number;
+    key_as_string?: string;
+}
+
+export interface EsPercentilesResult {
+    values: Record<string, null | number>;
+}
+
+export interface EsRangeBucket extends EsBucket {
+    from?: number;
+    from_as_string?: string;
+    key: string;
+    to?: number;
+    to_as_string?: string;
+}
+
+export interface EsStatsResult {
+    avg: null | number;
+    count: number;
+    max: null | number;
+    min: null | number;
+    sum: number;
+}
+
+export interface EsTermsBucket extends EsBucket {
+    key: number | string;
+    key_as_string?: string;
+}
+
+export interface EsTopHitsResult<T> {
+    hits: SearchHitsMetadata<T>;
+}
+
+type EsSubAggregationResults<A, T> = A extends { aggs?: infer S }
+    ? S extends EsAggregations<T>
+        ? EsAggregationResults<S, T>
+        : unknown
+    : unknown;
+
+export type EsAggregationResult<A, T> = A extends { terms: unknown }
+    ? {
+          buckets: Array<EsSubAggregationResults<A, T> & EsTermsBucket>;
+          doc_count_error_upper_bound?: number;
+          sum_other_doc_count?: number;
+      }
+    : A extends { date_histogram: unknown }
+      ? { buckets: Array<EsDateHistogramBucket & EsSubAggregationResults<A, T>> }
+      : A extends { histogram: unknown }
+        ? { buckets: Array<EsHistogramBucket & EsSubAggregationResults<A, T>> }
+        : A extends { range: unknown }
+          ? { buckets: Array<EsRangeBucket & EsSubAggregationResults<A, T>> }
+          : A extends { stats: unknown }
+            ? EsStatsResult
+            : A extends { cardinality: unknown }
+              ? EsCardinalityResult
+              : A extends { percentiles: unknown }
+                ? EsPercentilesResult
+                : A extends { top_hits: unknown }
+                  ? EsTopHitsResult<T>
+                  : never;
+
+export type EsAggregationResults<A extends EsAggregations<T>, T> = {
+    [K in keyof A]: EsAggregationResult<A[K], T>;
+};
+
+export interface EsAggregateResponse<T, A extends EsAggregations<T>> {
+    aggregations: EsAggregationResults<A, T>;
+    hits: T[];
+    took: number;
+    total: number;
+}
+
+/**
+ * Compile typed aggregation definitions into the request body, validating every `field` reference against the
+ * entity @Field metadata.
+ * @param {Constructor<T>} entityCtor - Entity constructor decorated with @Document/@Field
+ * @param {EsAggregations<T>} aggs - Typed aggregation definitions
+ * @returns {Record<string, AggregationsAggregationContainer>} The aggregations request body
+ * @throws {Error} If an aggregation references an unknown field
+ * @example
+ * compileAggregations(Product, { byBrand: { terms: { field: 'brand' } } });
+ */
+export const compileAggregations = <T extends object>(
+    entityCtor: Constructor<T>,
+    aggs: EsAggregations<T>,
+): Record<string, AggregationsAggregationContainer> => {
+    const expressions = new EsQueryExpressions<T>(entityCtor);
+
+    return mapValues(aggs, (definition) => {
+        const compiled = cloneDeep(definition) as unknown as Record<string, unknown>;
+
+        forEach(compiled, (body, type) => {
+            if (type === 'aggs') return;
+
+            const options = body as Record<string, unknown>;
+
+            if (isString(options.field)) options.field = expressions.resolveField(options.field);
+        });
+
+        if (!isNil(compiled.aggs)) {
+            compiled.aggs = compileAggregations(entityCtor, compiled.aggs as EsAggregations<T>);
+        }
+
+        return compiled as AggregationsAggregationContainer;
+    });
+};
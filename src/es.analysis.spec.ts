@@ -0,0 +1,67 @@
+import { Logger } from '@nestjs/common';
+
+import { Analyzer, Document, Field } from './es.decorators';
+import { EsAnalysisError } from './es.errors';
+import { buildDocumentMetadata } from './es.utils';
+
+@Document({ index: 'articles' })
+class Article {
+    @Field({ type: 'text', analyzer: 'icu_analyzer' })
+    title!: string;
+}
+
+@Document({ index: 'articles', strictAnalysis: true })
+class StrictArticle {
+    @Field({ type: 'text', analyzer: 'icu_analyzer' })
+    title!: string;
+}
+
+@Document({ index: 'articles', knownAnalyzers: ['icu_analyzer'], strictAnalysis: true })
+class KnownArticle {
+    @Field({ type: 'text', analyzer: 'icu_analyzer' })
+    title!: string;
+}
+
+@Analyzer('folded', { type: 'custom', tokenizer: 'standard', filter: ['lowercase', 'asciifolding'] })
+@Document({ index: 'articles', strictAnalysis: true })
+class QuotedArticle {
+    @Field({ type: 'text', analyzer: 'folded', search_quote_analyzer: 'phrase' })
+    title!: string;
+}
+
+describe('analysis references', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+        warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        warn.mockRestore();
+    });
+
+    it('warns once about analyzers that may come from plugins', () => {
+        expect(buildDocumentMetadata(Article)?.mappings).toEqual({
+            properties: { title: { type: 'text', analyzer: 'icu_analyzer' } },
+        });
+        buildDocumentMetadata(Article);
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain('analyzer "icu_analyzer"');
+    });
+
+    it('throws with strictAnalysis', () => {
+        expect(() => buildDocumentMetadata(StrictArticle)).toThrow(EsAnalysisError);
+    });
+
+    it('accepts known analyzers', () => {
+        expect(() => buildDocumentMetadata(KnownArticle)).not.toThrow();
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('checks search quote analyzers', () => {
+        expect(() => buildDocumentMetadata(QuotedArticle)).toThrow(
+            'Field "title" of Elasticsearch document QuotedArticle references undefined search_quote_analyzer "phrase"',
+        );
+    });
+});
@@ -0,0 +1,171 @@
+import forEach from 'lodash/forEach';
+import get from 'lodash/get';
+import has from 'lodash/has';
+import includes from 'lodash/includes';
+import isEmpty from 'lodash/isEmpty';
+import isNil from 'lodash/isNil';
+import isString from 'lodash/isString';
+
+import type { FieldOptions } from './es.interfaces';
+import type { IndicesIndexSettingsAnalysis } from '@elastic/elasticsearch/lib/api/types';
+
+export type EsAnalysisDefinition = IndicesIndexSettingsAnalysis;
+
+export type EsAnalysisComponent = keyof EsAnalysisDefinition;
+
+export type EsAnalysisReferenceKind = 'analyzer' | 'normalizer' | 'search_analyzer' | 'search_quote_analyzer';
+
+export interface EsAnalysisReference {
+    kind: EsAnalysisReferenceKind;
+    name: string;
+    /** Field path in the mapping (multi-fields included, e.g. `name.vi`) */
+    path: string;
+}
+
+// Analyzers available on every cluster without configuration
+export const ES_BUILT_IN_ANALYZERS: ReadonlyArray<string> = [
+    'arabic',
+    'armenian',
+    'basque',
+    'bengali',
+    'brazilian',
+    'bulgarian',
+    'catalan',
+    'cjk',
+    'czech',
+    'danish',
+    'dutch',
+    'english',
+    'estonian',
+    'finnish',
+    'fingerprint',
+    'french',
+    'galician',
+    'german',
+    'greek',
+    'hindi',
+    'hungarian',
+    'indonesian',
+    'irish',
+    'italian',
+    'keyword',
+    'latvian',
+    'lithuanian',
+    'norwegian',
+    'pattern',
+    'persian',
+    'portuguese',
+    'romanian',
+    'russian',
+    'serbian',
+    'simple',
+    'sorani',
+    'spanish',
+    'standard',
+    'stop',
+    'swedish',
+    'thai',
+    'turkish',
+    'whitespace',
+];
+
+// Normalizers available on every cluster without configuration
+export const ES_BUILT_IN_NORMALIZERS: ReadonlyArray<string> = ['lowercase'];
+
+const ANALYSIS_COMPONENTS: EsAnalysisComponent[] = ['analyzer', 'char_filter', 'filter', 'normalizer', 'tokenizer'];
+
+const ANALYSIS_REFERENCE_KINDS: EsAnalysisReferenceKind[] = [
+    'analyzer',
+    'search_analyzer',
+    'search_quote_analyzer',
+    'normalizer',
+];
+
+/**
+ * Merge analysis definitions component by component. A name defined again by a later definition replaces the
+ * earlier one.
+ * @param {Array<EsAnalysisDefinition | undefined>} definitions - Definitions, lowest precedence first
+ * @returns {EsAnalysisDefinition} The merged definition (only components that define something)
+ * @example
+ * mergeAnalysis({ analyzer: { a: { type: 'standard' } } }, { filter: { f: { type: 'asciifolding' } } });
+ */
+export const mergeAnalysis = (...definitions: Array<EsAnalysisDefinition | undefined>): EsAnalysisDefinition => {
+    const merged: Record<string, Record<string, unknown>> = {};
+
+    forEach(definitions, (definition) =>
+        forEach(ANALYSIS_COMPONENTS, (component) => {
+            const entries = get(definition, component) as Record<string, unknown> | undefined;
+
+            if (!isEmpty(entries)) merged[component] = { ...merged[component], ...entries };
+        }),
+    );
+
+    return merged as EsAnalysisDefinition;
+};
+
+/**
+ * Collect the analyzers, search (quote) analyzers and normalizers referenced by mapping properties, including
+ * sub-document properties and multi-fields.
+ * @param {Record<string, FieldOptions>} [properties] - Mapping properties
+ * @param {string} [prefix] - Path of the enclosing field
+ * @returns {EsAnalysisReference[]} The references
+ */
+export const collectAnalysisReferences = (
+    properties?: Record<string, FieldOptions>,
+    prefix?: string,
+): EsAnalysisReference[] => {
+    const references: EsAnalysisReference[] = [];
+
+    forEach(properties, (field, key) => {
+        const path = prefix ? `${prefix}.${key}` : key;
+
+        forEach(ANALYSIS_REFERENCE_KINDS, (kind) => {
+            const name = get(field, kind) as unknown;
+
+            if (isString(name)) references.push({ kind, name, path });
+        });
+
+        references.push(
+            ...collectAnalysisReferences(field.properties, path),
+            ...collectAnalysisReferences(field.fields, path),
+        );
+    });
+
+    return references;
+};
+
+/**
+ * Find the references that are neither defined by the analysis settings, built in, nor declared as known.
+ * @param {EsAnalysisReference[]} references - References collected from the mappings
+ * @param {EsAnalysisDefinition} analysis - Analysis settings of the index
+ * @param {ReadonlyArray<string>} [known=[]] - Names provided elsewhere (plugins, index templates)
+ * @returns {EsAnalysisReference[]} The undefined references
+ */
+export const findUndefinedAnalysisReferences = (
+    references: EsAnalysisReference[],
+    analysis: EsAnalysisDefinition,
+    known: ReadonlyArray<string> = [],
+): EsAnalysisReference[] =>
+    references.filter(({ kind, name }) => {
+        if (includes(known, name)) return false;
+
+        if (kind === 'normalizer') return !has(analysis.normalizer, name) && !includes(ES_BUILT_IN_NORMALIZERS, name);
+
+        return !has(analysis.analyzer, name) && !includes(ES_BUILT_IN_ANALYZERS, name);
+    });
+
+/**
+ * Read the analysis settings from raw index settings, in either the `analysis` or `index.analysis` form.
+ * @param {Record<string, unknown>} [settings] - Raw index settings
+ * @returns {EsAnalysisDefinition | undefined} The analysis settings, if any
+ */
+export const getSettingsAnalysis = (settings?: Record<string, unknown>): EsAnalysisDefinition | undefined => {
+    if (isNil(settings)) return undefined;
+
+    const analysis = mergeAnalysis(
+        get(settings, 'index.analysis') as EsAnalysisDefinition | undefined,
+        get(settings, 'analysis') as EsAnalysisDefinition | undefined,
+    );
+
+    return isEmpty(analysis) ? undefined : analysis;
+};
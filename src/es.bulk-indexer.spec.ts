@@ -0,0 +1,82 @@
+import { Logger } from '@nestjs/common';
+
+import { BulkIndexer } from './es.bulk-indexer';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+/**
+ * Bulk implementation indexing every operation it receives.
+ * @param {{ operations: Array<Record<string, { _id: string; _index: string }>> }} params - Bulk request
+ * @returns {Promise<Record<string, unknown>>} The bulk response
+ */
+const indexAll = async ({
+    operations: lines,
+}: {
+    operations: Array<Record<string, { _id: string; _index: string }>>;
+}) => ({
+    errors: false,
+    items: lines
+        .filter((_, i) => i % 2 === 0)
+        .map(({ index }) => ({ index: { _id: index._id, _index: index._index, result: 'created', status: 201 } })),
+    took: 1,
+});
+
+describe('BulkIndexer', () => {
+    it('holds adds back once the buffer is full', async () => {
+        let release: () => void = () => undefined;
+        const gate = new Promise<void>((resolve) => {
+            release = resolve;
+        });
+
+        const bulk = jest.fn(async (params: Parameters<typeof indexAll>[0]) => {
+            await gate;
+
+            return indexAll(params);
+        });
+        const indexer = new BulkIndexer({ bulk } as unknown as ElasticsearchClient, {
+            concurrency: 1,
+            flushIntervalMs: 0,
+            flushSize: 2,
+            maxBufferSize: 2,
+        });
+        let added = 0;
+        const adds = Array.from({ length: 6 }, (_, i) =>
+            indexer.add({ action: 'index', body: { n: i }, id: String(i), index: 'events' }).then(() => {
+                added += 1;
+            }),
+        );
+
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(indexer.stats).toMatchObject({ buffered: 2, inFlight: 2 });
+        expect(added).toBeLessThan(6);
+
+        release();
+        await Promise.all(adds);
+        await indexer.close();
+
+        expect(indexer.stats).toMatchObject({ buffered: 0, failed: 0, succeeded: 6 });
+        expect(bulk).toHaveBeenCalledTimes(3);
+    });
+
+    it('reports a batch once when the flush callback throws', async () => {
+        const error = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+        const onError = jest.fn();
+        const indexer = new BulkIndexer({ bulk: jest.fn(indexAll) } as unknown as ElasticsearchClient, {
+            flushIntervalMs: 0,
+            onError,
+            onFlush: () => {
+                throw new Error('callback failed');
+            },
+        });
+
+        await indexer.add({ action: 'index', body: { n: 1 }, id: '1', index: 'events' });
+        await indexer.close();
+
+        expect(indexer.stats).toMatchObject({ failed: 0, succeeded: 1 });
+        expect(onError).not.toHaveBeenCalled();
+        expect(error).toHaveBeenCalledTimes(1);
+
+        error.mockRestore();
+    });
+});
@@ -0,0 +1,275 @@
+import { EventEmitter } from 'events';
+
+import { Logger } from '@nestjs/common';
+import get from 'lodash/get';
+import isEmpty from 'lodash/isEmpty';
+import map from 'lodash/map';
+import pick from 'lodash/pick';
+
+import { ES_BULK_DEFAULT_CHUNK_SIZE, ES_BULK_DEFAULT_MAX_BYTES, executeBulk, getBulkOperationBytes } from './es.bulk';
+
+import type { BulkOperation, BulkOptions, BulkResult } from './es.bulk';
+import type { ElasticsearchClient } from './es.interfaces';
+
+export const ES_BULK_INDEXER_DEFAULT_CONCURRENCY = 2;
+
+export const ES_BULK_INDEXER_DEFAULT_FLUSH_INTERVAL_MS = 1000;
+
+/** Default maximum buffer size, as a multiple of flushSize */
+export const ES_BULK_INDEXER_DEFAULT_MAX_BUFFER_FLUSHES = 10;
+
+const bulkIndexerLogger = new Logger('ElasticsearchBulkIndexer');
+
+export interface BulkIndexerOptions extends Pick<BulkOptions, 'refresh' | 'retries' | 'retryDelayMs'> {
+    /** Maximum number of bulk requests in flight; adds wait for a free slot once it is reached (default 2) */
+    concurrency?: number;
+    /** Flush when the buffered NDJSON payload reaches this size in bytes (default 5 MiB) */
+    flushBytes?: number;
+    /** Flush buffered operations at least this often in milliseconds, 0 to disable (default 1000) */
+    flushIntervalMs?: number;
+    /** Flush when this many operations are buffered (default 1000) */
+    flushSize?: number;
+    /**
+     * Maximum number of buffered operations. Once it is reached, adds wait until the buffer is sent, including adds
+     * that are not awaited one by one (default 10 × flushSize)
+     */
+    maxBufferSize?: number;
+    /** Called when a batch cannot be sent at all (the operations are dropped); failed requests go to onFlush */
+    onError?: (error: unknown, operations: BulkOperation[]) => void;
+    /** Called with the result of every flushed batch, failed items included; errors it throws are logged */
+    onFlush?: (result: BulkResult, operations: BulkOperation[]) => void;
+}
+
+export interface BulkIndexerStats {
+    /** Operations waiting in the buffer */
+    buffered: number;
+    /** Items that failed after all retries, or were dropped with a failed request */
+    failed: number;
+    /** Bulk batches sent */
+    flushes: number;
+    /** Operations of the bulk requests in flight */
+    inFlight: number;
+    /** Items written */
+    succeeded: number;
+}
+
+/**
+ * Buffered write-behind view of a repository created by EsRepository.createBulkIndexer. Writes run the same
+ * before hooks and tenancy/soft delete rules as the repository bulk helpers.
+ * @template T - The entity type
+ */
+export interface EsBulkWriter<T> {
+    /** Flush pending operations, stop the interval timer and unregister the indexer */
+    close(): Promise<void>;
+    /**
+     * Buffer a delete by id (a soft delete update for @DeletedAtField entities); remove hooks are not run. Rejects
+     * with EsTenantError for a document of another tenant.
+     */
+    delete(id: string): Promise<void>;
+    /** Flush pending operations and wait for the bulk requests in flight */
+    flush(): Promise<void>;
+    /**
+     * Buffer an index operation, resolving false when a @BeforeIndex hook vetoed it. Rejects with EsTenantError for a
+     * document of another tenant.
+     */
+    index(entity: T, id?: string): Promise<boolean>;
+    /** The underlying indexer, for events and stats */
+    readonly indexer: BulkIndexer;
+    /**
+     * Buffer a partial update, resolving false when a @BeforeUpdate hook vetoed it. Rejects with EsTenantError for a
+     * document of another tenant.
+     */
+    update(id: string, partial: Partial<T>): Promise<boolean>;
+}
+
+const indexersByClient = new WeakMap<ElasticsearchClient, Set<BulkIndexer>>();
+
+/**
+ * Buffers bulk operations and sends them in batches when the buffer reaches `flushSize` operations or `flushBytes`
+ * bytes, and every `flushIntervalMs`. At most `concurrency` bulk requests are in flight: further adds wait until a
+ * request completes, which slows producers down instead of overwhelming the cluster. The buffer holds at most
+ * `maxBufferSize` operations, so producers that do not await each add are held back too. Results are reported through
+ * the `onFlush`/`onError` callbacks and the `flush`/`error` events (`error` is only emitted when it has listeners).
+ * Indexers are registered per client and drained by ElasticsearchService before its clients are closed.
+ * @example
+ * const indexer = service.createBulkIndexer({ flushSize: 500, concurrency: 4 });
+ * indexer.on('flush', (result: BulkResult) => metrics.add(result.failed.length));
+ * await indexer.add({ action: 'index', id: product.sku, index: 'products', body: product });
+ * await indexer.close();
+ */
+export class BulkIndexer extends EventEmitter {
+    private buffer: BulkOperation[] = [];
+    private bufferBytes = 0;
+    private closed = false;
+    private readonly inFlight = new Set<Promise<void>>();
+    private inFlightOperations = 0;
+    private readonly counters = { failed: 0, flushes: 0, succeeded: 0 };
+    private readonly timer?: NodeJS.Timeout;
+
+    /**
+     * Create a bulk indexer registered for the client.
+     * @param {ElasticsearchClient} client - Elasticsearch client instance
+     * @param {BulkIndexerOptions} [options] - Flush thresholds, concurrency, retry options and callbacks
+     */
+    constructor(
+        private readonly client: ElasticsearchClient,
+        private readonly options: BulkIndexerOptions = {},
+    ) {
+        super();
+
+        const interval = get(options, 'flushIntervalMs', ES_BULK_INDEXER_DEFAULT_FLUSH_INTERVAL_MS);
+
+        if (interval > 0) {
+            this.timer = setInterval(() => void this.dispatch(), interval);
+            this.timer.unref();
+        }
+
+        const indexers = indexersByClient.get(client) ?? new Set<BulkIndexer>();
+
+        indexers.add(this);
+        indexersByClient.set(client, indexers);
+    }
+
+    /**
+     * Counters and current buffer/in-flight sizes.
+     * @returns {BulkIndexerStats} The indexer stats
+     */
+    get stats(): BulkIndexerStats {
+        return { ...this.counters, buffered: this.buffer.length, inFlight: this.inFlightOperations };
+    }
+
+    /**
+     * Buffer an operation, sending the buffer when it reaches a size threshold.
+     * @param {BulkOperation} operation - Operation to buffer
+     * @returns {Promise<void>} Promise that resolves once the operation is buffered, or once its batch got a free
+     * request slot when it filled the buffer
+     * @throws {Error} If the indexer is closed
+     */
+    async add(operation: BulkOperation): Promise<void> {
+        if (this.closed) throw new Error('BulkIndexer is closed');
+
+        const flushSize = get(this.options, 'flushSize', ES_BULK_DEFAULT_CHUNK_SIZE);
+        const maxBufferSize = get(
+            this.options,
+            'maxBufferSize',
+            flushSize * ES_BULK_INDEXER_DEFAULT_MAX_BUFFER_FLUSHES,
+        );
+
+        while (this.buffer.length >= maxBufferSize) await this.dispatch();
+
+        this.buffer.push(operation);
+        this.bufferBytes += getBulkOperationBytes(operation);
+
+        if (
+            this.buffer.length >= flushSize ||
+            this.bufferBytes >= get(this.options, 'flushBytes', ES_BULK_DEFAULT_MAX_BYTES)
+        ) {
+            await this.dispatch();
+        }
+    }
+
+    /**
+     * Send the buffered operations and wait until every bulk request in flight has completed.
+     * @returns {Promise<void>} Promise that resolves when nothing is pending
+     */
+    async flush(): Promise<void> {
+        while (!isEmpty(this.buffer) || this.inFlight.size > 0) {
+            await this.dispatch();
+            await Promise.all([...this.inFlight]);
+        }
+    }
+
+    /**
+     * Stop accepting operations, flush the pending ones and unregister the indexer from its client.
+     * @returns {Promise<void>} Promise that resolves when pending operations are written
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        clearInterval(this.timer);
+        await this.flush();
+        indexersByClient.get(this.client)?.delete(this);
+    }
+
+    /**
+     * Start a bulk request for the buffered operations once a request slot is free.
+     * @returns {Promise<void>} Promise that resolves when the request is started
+     */
+    private async dispatch(): Promise<void> {
+        const concurrency = get(this.options, 'concurrency', ES_BULK_INDEXER_DEFAULT_CONCURRENCY);
+
+        while (this.inFlight.size >= concurrency) await Promise.race([...this.inFlight]);
+
+        if (isEmpty(this.buffer)) return;
+
+        const operations = this.buffer;
+
+        this.buffer = [];
+        this.bufferBytes = 0;
+        this.inFlightOperations += operations.length;
+
+        const request = this.send(operations).finally(() => {
+            this.inFlight.delete(request);
+            this.inFlightOperations -= operations.length;
+        });
+
+        this.inFlight.add(request);
+    }
+
+    /**
+     * Execute a batch and report its result. Never rejects: request errors are reported instead.
+     * @param {BulkOperation[]} operations - Operations of the batch
+     * @returns {Promise<void>} Promise that resolves when the batch is reported
+     */
+    private async send(operations: BulkOperation[]): Promise<void> {
+        this.counters.flushes += 1;
+
+        let result: BulkResult;
+
+        try {
+            result = await executeBulk(this.client, operations, {
+                ...pick(this.options, ['refresh', 'retries', 'retryDelayMs']),
+                chunkSize: get(this.options, 'flushSize', ES_BULK_DEFAULT_CHUNK_SIZE),
+                maxBytes: get(this.options, 'flushBytes', ES_BULK_DEFAULT_MAX_BYTES),
+            });
+        } catch (error) {
+            this.counters.failed += operations.length;
+            this.notify('error', () => {
+                this.options.onError?.(error, operations);
+
+                if (this.listenerCount('error') > 0) this.emit('error', error, operations);
+            });
+
+            return;
+        }
+
+        this.counters.succeeded += result.succeeded.length;
+        this.counters.failed += result.failed.length;
+        this.notify('flush', () => {
+            this.options.onFlush?.(result, operations);
+            this.emit('flush', result, operations);
+        });
+    }
+
+    /**
+     * Run the callback and listeners of a batch, logging what they throw so that the batch is not reported twice.
+     * @param {'error' | 'flush'} event - Reported event
+     * @param {() => void} report - Calls the callback and emits the event
+     * @returns {void}
+     */
+    private notify(event: 'error' | 'flush', report: () => void): void {
+        try {
+            report();
+        } catch (error) {
+            bulkIndexerLogger.error(`Bulk indexer ${event} callback failed`, (error as Error)?.stack);
+        }
+    }
+}
+
+/**
+ * Close every bulk indexer registered for a client, writing their pending operations.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @returns {Promise<void>} Promise that resolves when all indexers are drained
+ */
+export const drainBulkIndexers = async (client: ElasticsearchClient): Promise<void> => {
+    await Promise.allSettled(map([...(indexersByClient.get(client) ?? [])], (indexer) => indexer.close()));
+};
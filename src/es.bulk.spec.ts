@@ -0,0 +1,97 @@
+import { executeBulk } from './es.bulk';
+import { EsBulkError } from './es.errors';
+
+import type { BulkOperation } from './es.bulk';
+import type { ElasticsearchClient } from './es.interfaces';
+
+const operations: BulkOperation[] = [
+    { action: 'index', body: { name: 'a' }, id: '1', index: 'products' },
+    { action: 'index', body: { name: 'b' }, id: '2', index: 'products' },
+    { action: 'index', body: { name: 'c' }, id: '3', index: 'products' },
+];
+
+const tooLarge = Object.assign(new Error('Request Entity Too Large'), {
+    meta: { body: { error: { reason: 'payload too large', type: 'http_413' } }, statusCode: 413 },
+});
+
+/**
+ * Bulk implementation indexing every operation it receives.
+ * @param {{ operations: Array<Record<string, { _id: string; _index: string }>> }} params - Bulk request
+ * @returns {Promise<Record<string, unknown>>} The bulk response
+ */
+const indexAll = async ({
+    operations: lines,
+}: {
+    operations: Array<Record<string, { _id: string; _index: string }>>;
+}) => ({
+    errors: false,
+    items: lines
+        .filter((_, i) => i % 2 === 0)
+        .map(({ index }) => ({ index: { _id: index._id, _index: index._index, result: 'created', status: 201 } })),
+    took: 1,
+});
+
+describe('executeBulk', () => {
+    let bulk: jest.Mock;
+    let client: ElasticsearchClient;
+
+    beforeEach(() => {
+        bulk = jest.fn(indexAll);
+        client = { bulk } as unknown as ElasticsearchClient;
+    });
+
+    it('reports the items of a failed chunk and sends the other chunks', async () => {
+        bulk.mockImplementationOnce(indexAll).mockRejectedValueOnce(tooLarge);
+
+        const result = await executeBulk(client, operations, { chunkSize: 1 });
+
+        expect(result.total).toBe(3);
+        expect(result.succeeded.map((item) => item.id)).toEqual(['1', '3']);
+        expect(result.failed).toEqual([
+            {
+                id: '2',
+                action: 'index',
+                attempts: 1,
+                body: { name: 'b' },
+                error: { reason: 'payload too large', type: 'http_413' },
+                index: 'products',
+                status: 413,
+            },
+        ]);
+        expect(bulk).toHaveBeenCalledTimes(3);
+    });
+
+    it('reports connection errors without a status', async () => {
+        bulk.mockRejectedValue(new Error('socket hang up'));
+
+        const result = await executeBulk(client, operations, { retries: 0 });
+
+        expect(result.succeeded).toEqual([]);
+        expect(result.failed.map((item) => [item.id, item.status, item.error.reason])).toEqual([
+            ['1', 0, 'socket hang up'],
+            ['2', 0, 'socket hang up'],
+            ['3', 0, 'socket hang up'],
+        ]);
+    });
+
+    it('retries chunks rejected with a retryable status', async () => {
+        bulk.mockRejectedValueOnce(Object.assign(new Error('Too Many Requests'), { meta: { statusCode: 429 } }));
+
+        const result = await executeBulk(client, operations, { retryDelayMs: 0 });
+
+        expect(result.failed).toEqual([]);
+        expect(result.succeeded).toHaveLength(3);
+    });
+
+    it('throws the full result with throwOnError', async () => {
+        bulk.mockRejectedValueOnce(tooLarge);
+
+        const error = await executeBulk(client, operations, { chunkSize: 2, throwOnError: true }).catch(
+            (e: unknown) => e,
+        );
+
+        expect(error).toBeInstanceOf(EsBulkError);
+        expect((error as EsBulkError).failed.map((item) => item.id)).toEqual(['1', '2']);
+        expect((error as EsBulkError).result.succeeded.map((item) => item.id)).toEqual(['3']);
+    });
+});
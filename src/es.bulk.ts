@@ -0,0 +1,264 @@
+import first from 'lodash/first';
+import forEach from 'lodash/forEach';
+import get from 'lodash/get';
+import isEmpty from 'lodash/isEmpty';
+import isNil from 'lodash/isNil';
+import keys from 'lodash/keys';
+import omitBy from 'lodash/omitBy';
+
+import { EsBulkError } from './es.errors';
+
+import type { ElasticsearchClient } from './es.interfaces';
+import type { ErrorCause, Refresh } from '@elastic/elasticsearch/lib/api/types';
+
+export const ES_BULK_DEFAULT_CHUNK_SIZE = 1000;
+
+export const ES_BULK_DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+export const ES_BULK_DEFAULT_RETRIES = 3;
+
+export const ES_BULK_DEFAULT_RETRY_DELAY_MS = 200;
+
+export type BulkAction = 'create' | 'delete' | 'index' | 'update';
+
+export interface BulkOperation {
+    action: BulkAction;
+    /** Document (index/create) or update body (`{ doc }`, `{ script }`); omitted for delete */
+    body?: Record<string, unknown>;
+    id?: string;
+    index: string;
+    /** Extra action metadata (routing, if_seq_no, ...) */
+    meta?: Record<string, unknown>;
+}
+
+export interface BulkOptions {
+    /** Maximum number of operations per request (default 1000) */
+    chunkSize?: number;
+    /** Maximum NDJSON payload size in bytes per request (default 5 MiB) */
+    maxBytes?: number;
+    /** Refresh policy passed to every bulk request */
+    refresh?: Refresh;
+    /** Number of retries for items rejected with 429/5xx (default 3) */
+    retries?: number;
+    /** Base delay for exponential backoff between retries in milliseconds (default 200) */
+    retryDelayMs?: number;
+    /** When true, throw EsBulkError if any item failed after all retries */
+    throwOnError?: boolean;
+}
+
+export interface BulkItemResult {
+    action: BulkAction;
+    id?: string;
+    index: string;
+    status: number;
+}
+
+export interface BulkFailedItem extends BulkItemResult {
+    /** Number of attempts made for this item */
+    attempts: number;
+    /** Document or update body that could not be written */
+    body?: Record<string, unknown>;
+    error: ErrorCause;
+}
+
+export interface BulkResult {
+    failed: BulkFailedItem[];
+    succeeded: BulkItemResult[];
+    total: number;
+}
+
+/**
+ * Whether an HTTP status indicates a transient failure worth retrying.
+ * @param {number} status - HTTP status code
+ * @returns {boolean} True for 429 and 5xx statuses
+ */
+export const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+/**
+ * Create an empty bulk result.
+ * @returns {BulkResult} A result with no items
+ */
+export const emptyBulkResult = (): BulkResult => ({ failed: [], succeeded: [], total: 0 });
+
+/**
+ * Serialize an operation into its bulk request lines.
+ * @param {BulkOperation} operation - The bulk operation
+ * @returns {Array<Record<string, unknown>>} The action line followed by the body line, if any
+ */
+const toBulkLines = (operation: BulkOperation): Array<Record<string, unknown>> => {
+    const header = omitBy({ ...operation.meta, _id: operation.id, _index: operation.index }, isNil);
+    const lines: Array<Record<string, unknown>> = [{ [operation.action]: header }];
+
+    if (operation.action !== 'delete' && !isNil(operation.body)) lines.push(operation.body);
+
+    return lines;
+};
+
+/**
+ * Size of an operation in the NDJSON bulk payload.
+ * @param {BulkOperation} operation - The bulk operation
+ * @returns {number} The byte size of its action and body lines, newlines included
+ */
+export const getBulkOperationBytes = (operation: BulkOperation): number => {
+    let bytes = 0;
+
+    forEach(toBulkLines(operation), (line) => {
+        bytes += Buffer.byteLength(JSON.stringify(line)) + 1;
+    });
+
+    return bytes;
+};
+
+/**
+ * Split operations into chunks bounded by operation count and NDJSON byte size.
+ * An operation larger than maxBytes is sent alone.
+ * @param {ReadonlyArray<BulkOperation>} operations - Operations to split
+ * @param {Pick<BulkOptions, 'chunkSize' | 'maxBytes'>} [options] - Chunk limits
+ * @returns {BulkOperation[][]} The chunks, in input order
+ * @example
+ * const chunks = chunkBulkOperations(operations, { chunkSize: 500, maxBytes: 1024 * 1024 });
+ */
+export const chunkBulkOperations = (
+    operations: ReadonlyArray<BulkOperation>,
+    options?: Pick<BulkOptions, 'chunkSize' | 'maxBytes'>,
+): BulkOperation[][] => {
+    const chunkSize = get(options, 'chunkSize', ES_BULK_DEFAULT_CHUNK_SIZE);
+    const maxBytes = get(options, 'maxBytes', ES_BULK_DEFAULT_MAX_BYTES);
+    const chunks: BulkOperation[][] = [];
+    let current: BulkOperation[] = [];
+    let currentBytes = 0;
+
+    forEach(operations, (operation) => {
+        const bytes = getBulkOperationBytes(operation);
+
+        if (!isEmpty(current) && (current.length >= chunkSize || currentBytes + bytes > maxBytes)) {
+            chunks.push(current);
+            current = [];
+            currentBytes = 0;
+        }
+
+        current.push(operation);
+        currentBytes += bytes;
+    });
+
+    if (!isEmpty(current)) chunks.push(current);
+
+    return chunks;
+};
+
+/**
+ * Describe a failed bulk request as the error of each of its items.
+ * @param {unknown} error - The request error
+ * @returns {ErrorCause} The error cause returned by Elasticsearch, or one built from the error message
+ */
+const toRequestErrorCause = (error: unknown): ErrorCause =>
+    (get(error, 'meta.body.error') as ErrorCause | undefined) ?? {
+        reason: get(error, 'message', String(error)),
+        type: get(error, 'name', 'request_error'),
+    };
+
+const wait = (ms: number): Promise<void> =>
+    new Promise((resolve) => {
+        setTimeout(resolve, ms);
+    });
+
+/**
+ * Execute bulk operations in chunks, retrying items (or whole requests) rejected with 429/5xx using exponential
+ * backoff, and report every item as succeeded or failed. When a chunk request fails for good, its items are
+ * reported as failed with the request error and the remaining chunks are still sent.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {ReadonlyArray<BulkOperation>} operations - Operations to execute
+ * @param {BulkOptions} [options] - Chunking, retry and error options
+ * @returns {Promise<BulkResult>} Succeeded and failed items with their reasons
+ * @throws {EsBulkError} If throwOnError is set and at least one item failed
+ * @example
+ * const result = await executeBulk(client, [{ action: 'delete', id: '1', index: 'products' }], { retries: 5 });
+ */
+export const executeBulk = async (
+    client: ElasticsearchClient,
+    operations: ReadonlyArray<BulkOperation>,
+    options?: BulkOptions,
+): Promise<BulkResult> => {
+    const retries = get(options, 'retries', ES_BULK_DEFAULT_RETRIES);
+    const retryDelayMs = get(options, 'retryDelayMs', ES_BULK_DEFAULT_RETRY_DELAY_MS);
+    const result: BulkResult = { failed: [], succeeded: [], total: operations.length };
+    let pending: BulkOperation[] = [...operations];
+
+    for (let attempt = 0; !isEmpty(pending); attempt++) {
+        const canRetry = attempt < retries;
+        const retry: BulkOperation[] = [];
+
+        for (const chunk of chunkBulkOperations(pending, options)) {
+            const lines: Array<Record<string, unknown>> = [];
+
+            forEach(chunk, (operation) => {
+                lines.push(...toBulkLines(operation));
+            });
+
+            let items: Array<Record<string, unknown>>;
+
+            try {
+                const res = await client.bulk({ operations: lines, refresh: get(options, 'refresh') });
+
+                items = get(res, 'items', []) as Array<Record<string, unknown>>;
+            } catch (error) {
+                const status = get(error, 'meta.statusCode') as number | undefined;
+
+                if (canRetry && !isNil(status) && isRetryableStatus(status)) {
+                    retry.push(...chunk);
+                    continue;
+                }
+
+                const cause = toRequestErrorCause(error);
+
+                forEach(chunk, (operation) => {
+                    result.failed.push({
+                        id: operation.id,
+                        action: operation.action,
+                        attempts: attempt + 1,
+                        body: operation.body,
+                        error: cause,
+                        index: operation.index,
+                        status: status ?? 0,
+                    });
+                });
+                continue;
+            }
+
+            forEach(chunk, (operation, i) => {
+                const item = items[i] ?? {};
+                const info = get(item, first(keys(item)) ?? operation.action, {}) as Record<string, unknown>;
+                const status = get(info, 'status', 0) as number;
+                const error = get(info, 'error') as ErrorCause | undefined;
+                const base: BulkItemResult = {
+                    id: (get(info, '_id') as string | undefined) ?? operation.id,
+                    action: operation.action,
+                    index: (get(info, '_index') as string | undefined) ?? operation.index,
+                    status,
+                };
+
+                if (isNil(error)) {
+                    result.succeeded.push(base);
+
+                    return;
+                }
+
+                if (canRetry && isRetryableStatus(status)) {
+                    retry.push(operation);
+
+                    return;
+                }
+
+                result.failed.push({ ...base, attempts: attempt + 1, body: operation.body, error });
+            });
+        }
+
+        if (!isEmpty(retry)) await wait(retryDelayMs * 2 ** attempt);
+
+        pending = retry;
+    }
+
+    if (get(options, 'throwOnError') && !isEmpty(result.failed)) throw new EsBulkError(result);
+
+    return result;
+};
@@ -0,0 +1,170 @@
+import { Document, Field, VersionField } from './es.decorators';
+import { EsVersionConflictError } from './es.errors';
+import { EsRepository } from './es.repository';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'integer' })
+    stock!: number;
+}
+
+@Document({ index: 'prices' })
+class Price {
+    @Field({ type: 'float' })
+    amount!: number;
+
+    @VersionField()
+    @Field({ type: 'long' })
+    revision?: number;
+}
+
+interface StoredDocument {
+    seqNo: number;
+    source: Record<string, unknown>;
+    version: number;
+}
+
+interface WriteParams {
+    doc?: Record<string, unknown>;
+    document?: Record<string, unknown>;
+    id: string;
+    if_seq_no?: number;
+    version?: number;
+    version_type?: string;
+}
+
+/**
+ * Client keeping one versioned document per id and rejecting stale conditional writes with a 409, like
+ * Elasticsearch does.
+ * @returns {ElasticsearchClient} The client
+ */
+const versionedClient = (): ElasticsearchClient => {
+    const documents = new Map<string, StoredDocument>();
+    let seqNo = 0;
+    const conflict = () => Object.assign(new Error('version_conflict_engine_exception'), { meta: { statusCode: 409 } });
+    const write = (params: WriteParams, source: Record<string, unknown>) => {
+        const existing = documents.get(params.id);
+        const external = params.version_type === 'external';
+
+        if (params.if_seq_no !== undefined && existing?.seqNo !== params.if_seq_no) throw conflict();
+        if (external && existing && Number(params.version) <= existing.version) throw conflict();
+
+        const stored = {
+            seqNo: seqNo++,
+            source,
+            version: external ? Number(params.version) : (existing?.version ?? 0) + 1,
+        };
+
+        documents.set(params.id, stored);
+
+        return { _id: params.id, _primary_term: 1, _seq_no: stored.seqNo, _version: stored.version, result: 'updated' };
+    };
+
+    return {
+        exists: async ({ id }: { id: string }) => documents.has(id),
+        get: async ({ id }: { id: string }) => {
+            const stored = documents.get(id);
+
+            return stored
+                ? {
+                      _id: id,
+                      _primary_term: 1,
+                      _seq_no: stored.seqNo,
+                      _source: stored.source,
+                      _version: stored.version,
+                      found: true,
+                  }
+                : { _id: id, found: false };
+        },
+        index: async (params: WriteParams) => write(params, params.document ?? {}),
+        update: async (params: WriteParams) => write(params, { ...documents.get(params.id)?.source, ...params.doc }),
+    } as unknown as ElasticsearchClient;
+};
+
+describe('optimistic concurrency', () => {
+    let client: ElasticsearchClient;
+    let products: EsRepository<Product>;
+    let prices: EsRepository<Price>;
+
+    beforeEach(async () => {
+        client = versionedClient();
+        products = new EsRepository(client, Product);
+        prices = new EsRepository(client, Price);
+
+        await products.indexOne(Object.assign(new Product(), { stock: 10 }), 'p-1');
+        await prices.indexOne(Object.assign(new Price(), { amount: 5, revision: 3 }), 'sku-1');
+    });
+
+    it('rejects saving an entity that changed since it was read', async () => {
+        const first = await products.findEntityById('p-1');
+        const second = await products.findEntityById('p-1');
+
+        first!.stock = 9;
+        await products.indexOne(first!, 'p-1');
+        second!.stock = 8;
+
+        await expect(products.indexOne(second!, 'p-1')).rejects.toThrow(EsVersionConflictError);
+        await expect(products.updateById('p-1', { stock: 7 }, { expected: second })).rejects.toThrow(
+            EsVersionConflictError,
+        );
+        expect(await products.findSourceById('p-1')).toEqual({ stock: 9 });
+    });
+
+    it('retries on conflict until the mutation applies to the latest document', async () => {
+        let calls = 0;
+
+        await products.retryOnConflict('p-1', async (p) => {
+            if (calls++ === 0) await products.updateById('p-1', { stock: 20 });
+
+            p.stock -= 1;
+        });
+
+        expect(calls).toBe(2);
+        expect(await products.findSourceById('p-1')).toEqual({ stock: 19 });
+    });
+
+    it('gives up after the configured retries', async () => {
+        await expect(
+            products.retryOnConflict('p-1', (p) => products.updateById('p-1', { stock: p.stock + 1 }), { retries: 1 }),
+        ).rejects.toThrow(EsVersionConflictError);
+    });
+
+    describe('with a @VersionField', () => {
+        it('writes the version read back with if_seq_no', async () => {
+            const saved = await prices.retryOnConflict('sku-1', (p) => {
+                p.amount = 6;
+            });
+
+            expect(saved).toMatchObject({ amount: 6, revision: 4 });
+            expect(await prices.findSourceById('sku-1')).toEqual({ amount: 6, revision: 3 });
+        });
+
+        it('retries with the version of the reloaded document', async () => {
+            let calls = 0;
+
+            await prices.retryOnConflict('sku-1', async (p) => {
+                if (calls++ === 0) await prices.updateById('sku-1', { amount: 7 });
+
+                p.amount += 1;
+            });
+
+            expect(calls).toBe(2);
+            expect(await prices.findSourceById('sku-1')).toMatchObject({ amount: 8 });
+        });
+
+        it('writes a changed version as an external version', async () => {
+            const price = await prices.findEntityById('sku-1');
+
+            price!.revision = 10;
+            await prices.indexOne(price!, 'sku-1');
+
+            expect((await prices.findEntityById('sku-1'))!.revision).toBe(10);
+
+            const stale = Object.assign(new Price(), { amount: 1, revision: 9 });
+
+            await expect(prices.indexOne(stale, 'sku-1')).rejects.toThrow(EsVersionConflictError);
+        });
+    });
+});
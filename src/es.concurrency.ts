@@ -0,0 +1,97 @@
+import get from 'lodash/get';
+import isNil from 'lodash/isNil';
+import isNumber from 'lodash/isNumber';
+
+import { getVersionFieldMetadata } from './es.utils';
+
+import type { VersionType } from '@elastic/elasticsearch/lib/api/types';
+
+export const ES_CONFLICT_DEFAULT_RETRIES = 3;
+
+export interface EsEntityVersion {
+    primaryTerm?: number;
+    seqNo?: number;
+    version?: number;
+}
+
+export interface EsHitVersionMeta {
+    _primary_term?: number;
+    _seq_no?: number;
+    _version?: number;
+}
+
+export interface EsConcurrencyParams {
+    if_primary_term?: number;
+    if_seq_no?: number;
+    version?: number;
+    version_type?: VersionType;
+}
+
+// Versions of entities read through the repository, keyed by entity instance
+const versions = new WeakMap<object, EsEntityVersion>();
+
+/**
+ * Record the `_seq_no`/`_primary_term`/`_version` a hit or write response carried for an entity, and write
+ * `_version` back onto its @VersionField property.
+ * @param {object} entity - Entity instance
+ * @param {EsHitVersionMeta} [meta] - Hit, get or write response metadata
+ * @returns {void}
+ */
+export const trackEntityVersion = (entity: object, meta?: EsHitVersionMeta): void => {
+    const version: EsEntityVersion = {
+        primaryTerm: get(meta, '_primary_term'),
+        seqNo: get(meta, '_seq_no'),
+        version: get(meta, '_version'),
+    };
+
+    if (isNil(version.seqNo) && isNil(version.version)) return;
+
+    versions.set(entity, version);
+
+    const versionField = getVersionFieldMetadata(entity.constructor);
+
+    if (versionField && isNumber(version.version)) {
+        (entity as Record<string | symbol, unknown>)[versionField.property] = version.version;
+    }
+};
+
+/**
+ * Get the version recorded for an entity read through the repository.
+ * @param {object} entity - Entity instance
+ * @returns {EsEntityVersion | undefined} The recorded version or undefined if the entity is not tracked
+ * @example
+ * const product = await repo.findEntityById('p-1');
+ * getEntityVersion(product!); // { seqNo: 12, primaryTerm: 1, version: 4 }
+ */
+export const getEntityVersion = (entity: object): EsEntityVersion | undefined => versions.get(entity);
+
+/**
+ * Concurrency parameters for writing an entity: an external version from its @VersionField, otherwise the tracked
+ * `if_seq_no`/`if_primary_term`. A @VersionField still holding the `_version` it was read with is not an external
+ * version: it would equal the stored one and be rejected, so the tracked sequence number applies instead. Entities
+ * that were never read get none (blind write).
+ * @param {object} entity - Entity instance
+ * @param {boolean} [allowExternal=true] - Whether external versions apply (the update API does not support them)
+ * @returns {EsConcurrencyParams} Parameters to spread into index/update/bulk requests
+ */
+export const toConcurrencyParams = (entity: object, allowExternal = true): EsConcurrencyParams => {
+    const versionField = getVersionFieldMetadata(entity.constructor);
+    const external = versionField ? (entity as Record<string | symbol, unknown>)[versionField.property] : undefined;
+    const tracked = versions.get(entity);
+
+    if (allowExternal && isNumber(external) && external !== tracked?.version) {
+        return { version: external, version_type: 'external' };
+    }
+
+    if (isNil(tracked) || isNil(tracked.seqNo) || isNil(tracked.primaryTerm)) return {};
+
+    return { if_primary_term: tracked.primaryTerm, if_seq_no: tracked.seqNo };
+};
+
+/**
+ * Whether an error is an Elasticsearch version conflict (HTTP 409).
+ * @param {unknown} error - Error thrown by the client
+ * @returns {boolean} True for version conflicts
+ */
+export const isVersionConflict = (error: unknown): boolean =>
+    get(error, 'meta.statusCode') === 409 || get(error, 'statusCode') === 409;
@@ -5,13 +5,28 @@ export const ES_DEFAULT_CLIENT_NAME = 'default';
 
 export const ES_MODULE_OPTIONS = Symbol('ES_MODULE_OPTIONS');
 
+/** Node given to replaying clients configured without one; it is never contacted */
+export const ES_REPLAY_NODE = 'http://replay.invalid:9200';
+
 // Metadata keys for document decorators
+export const ES_ANALYSIS_METADATA = Symbol('es:analysis');
+
+export const ES_DELETED_AT_METADATA = Symbol('es:deleted-at');
+
 export const ES_DOCUMENT_METADATA = Symbol('es:document');
 
 export const ES_FIELD_METADATA = Symbol('es:field');
 
+export const ES_HOOKS_METADATA = Symbol('es:hooks');
+
+export const ES_ID_METADATA = Symbol('es:id');
+
 export const ES_INDEX_METADATA = Symbol('es:index');
 
+export const ES_REPOSITORY_METADATA = Symbol('es:repository');
+
+export const ES_VERSION_METADATA = Symbol('es:version');
+
 /**
  * Generate a DI token for an Elasticsearch client with the given name.
  * @param {string} [name] - The client name (defaults to 'default')
@@ -0,0 +1,68 @@
+import { createCursorCodec } from './es.cursor';
+import { Document, Field } from './es.decorators';
+import { EsCursorError } from './es.errors';
+import { EsRepository } from './es.repository';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'keyword' })
+    sku!: string;
+}
+
+@Document({ index: 'rankings', naming: 'snake_case' })
+class Ranking {
+    @Field({ type: 'keyword' })
+    productSku!: string;
+
+    @Field({ type: 'integer' })
+    sortRank!: number;
+}
+
+describe('paginate', () => {
+    let search: jest.Mock;
+    let repo: EsRepository<Product>;
+
+    beforeEach(() => {
+        search = jest.fn(async () => ({
+            hits: {
+                hits: ['a', 'b', 'c'].map((sku) => ({ _id: sku, _index: 'products', _source: { sku }, sort: [sku] })),
+                total: { relation: 'eq', value: 3 },
+            },
+        }));
+        repo = new EsRepository({ search } as unknown as ElasticsearchClient, Product);
+    });
+
+    it('continues after the last hit of the previous page', async () => {
+        const page = await repo.paginate({ limit: 2, sort: 'sku' });
+
+        expect(page.items.map((p) => p.sku)).toEqual(['a', 'b']);
+        expect(page.nextCursor).toBeDefined();
+
+        await repo.paginate({ cursor: page.nextCursor, limit: 2, sort: 'sku' });
+
+        expect(search.mock.calls[1][0]).toMatchObject({
+            search_after: ['b'],
+            size: 3,
+            sort: [{ sku: { order: 'asc' } }],
+        });
+    });
+
+    it('rejects cursors not signed with the secret', async () => {
+        const codec = createCursorCodec({ secret: 'secret' });
+        const page = await repo.paginate({ limit: 1, sort: 'sku' });
+
+        await expect(repo.paginate({ codec, cursor: page.nextCursor, sort: 'sku' })).rejects.toThrow(EsCursorError);
+    });
+
+    it('translates sort properties to field names', async () => {
+        const rankings = new EsRepository({ search } as unknown as ElasticsearchClient, Ranking);
+
+        await rankings.paginate({ limit: 2, sort: [{ sortRank: 'asc' }, 'productSku'] });
+
+        expect(search.mock.calls[0][0]).toMatchObject({
+            sort: [{ sort_rank: { order: 'asc' } }, { product_sku: { order: 'asc' } }],
+        });
+    });
+});
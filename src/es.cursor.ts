@@ -0,0 +1,159 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+import castArray from 'lodash/castArray';
+import first from 'lodash/first';
+import get from 'lodash/get';
+import isArray from 'lodash/isArray';
+import isString from 'lodash/isString';
+import keys from 'lodash/keys';
+import map from 'lodash/map';
+import split from 'lodash/split';
+
+import { EsCursorError } from './es.errors';
+
+import type { EsQueryBuilder } from './es.query-builder';
+import type {
+    FieldSort,
+    QueryDslQueryContainer,
+    Sort,
+    SortCombinations,
+    SortResults,
+} from '@elastic/elasticsearch/lib/api/types';
+
+export const ES_PAGINATE_DEFAULT_LIMIT = 20;
+
+export type EsCursorDirection = 'next' | 'prev';
+
+export type EsNormalizedSort = Array<Record<string, FieldSort>>;
+
+export interface EsCursorPayload {
+    /** search_after values of the boundary hit */
+    after: SortResults;
+    direction: EsCursorDirection;
+    /** Normalized sort the cursor was issued for */
+    sort: EsNormalizedSort;
+}
+
+export interface EsCursorCodec {
+    decode(cursor: string): EsCursorPayload;
+    encode(payload: EsCursorPayload): string;
+}
+
+export interface EsPaginateOptions<T extends object> {
+    /** Encoder/decoder for cursor tokens (default: unsigned checksum codec, integrity only) */
+    codec?: EsCursorCodec;
+    /** Cursor returned as nextCursor/prevCursor by a previous page */
+    cursor?: string;
+    /** Page size (default 20) */
+    limit?: number;
+    query?: EsQueryBuilder<T> | QueryDslQueryContainer;
+    /**
+     * Sort definition on entity property paths, translated to Elasticsearch field names, ideally ending with a unique
+     * field; defaults to the query builder sort
+     */
+    sort?: Sort;
+}
+
+export interface EsPage<T> {
+    items: T[];
+    nextCursor?: string;
+    prevCursor?: string;
+    total: number;
+}
+
+/**
+ * Normalize a sort definition into `[{ field: { order, ... } }]` form.
+ * @param {Sort} sort - Sort definition (field names, `{ field: order }` or `{ field: { order } }`)
+ * @returns {EsNormalizedSort} The normalized sort
+ * @example
+ * normalizeSort(['price', { createdAt: 'desc' }]); // [{ price: { order: 'asc' } }, { createdAt: { order: 'desc' } }]
+ */
+export const normalizeSort = (sort: Sort): EsNormalizedSort =>
+    map(castArray<SortCombinations>(sort), (clause) => {
+        const field = isString(clause) ? clause : (first(keys(clause)) as string);
+        const value = isString(clause) ? undefined : get(clause, field);
+        const options: FieldSort = isString(value) ? { order: value } : { ...(value as FieldSort | undefined) };
+
+        options.order ??= field === '_score' ? 'desc' : 'asc';
+
+        return { [field]: options };
+    });
+
+/**
+ * Reverse a normalized sort (orders and missing placement) to page backwards.
+ * @param {EsNormalizedSort} sort - Normalized sort
+ * @returns {EsNormalizedSort} The reversed sort
+ */
+export const reverseSort = (sort: EsNormalizedSort): EsNormalizedSort =>
+    map(sort, (clause) => {
+        const field = first(keys(clause)) as string;
+        const options = clause[field];
+        const missing = get(options, 'missing');
+
+        return {
+            [field]: {
+                ...options,
+                missing:
+                    missing === '_first' ? '_last' : missing === '_last' || missing === undefined ? '_first' : missing,
+                order: options.order === 'desc' ? 'asc' : 'desc',
+            },
+        };
+    });
+
+const toBase64Url = (value: Buffer | string): string => Buffer.from(value).toString('base64url');
+
+/**
+ * Create a cursor codec producing opaque, tamper-evident tokens (`<payload>.<digest>`, base64url).
+ * With a secret the digest is an HMAC-SHA256 signature; without one it is a SHA-256 checksum that detects
+ * accidental edits but does not authenticate the token.
+ * @param {{ secret?: string }} [options] - Optional signing secret
+ * @returns {EsCursorCodec} The codec
+ * @example
+ * const codec = createCursorCodec({ secret: process.env.CURSOR_SECRET });
+ * await repo.paginate({ sort: [{ createdAt: 'desc' }, { id: 'asc' }], limit: 20, cursor, codec });
+ */
+export const createCursorCodec = (options?: { secret?: string }): EsCursorCodec => {
+    const secret = get(options, 'secret');
+    const digest = (body: string): Buffer =>
+        secret ? createHmac('sha256', secret).update(body).digest() : createHash('sha256').update(body).digest();
+
+    return {
+        decode: (cursor: string): EsCursorPayload => {
+            const [body, signature] = split(cursor, '.');
+
+            if (!body || !signature) throw new EsCursorError('Malformed pagination cursor');
+
+            const expected = digest(body);
+            const actual = Buffer.from(signature, 'base64url');
+
+            if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+                throw new EsCursorError('Invalid pagination cursor signature');
+            }
+
+            let payload: EsCursorPayload;
+
+            try {
+                payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as EsCursorPayload;
+            } catch {
+                throw new EsCursorError('Malformed pagination cursor');
+            }
+
+            if (!isArray(get(payload, 'after')) || !isArray(get(payload, 'sort'))) {
+                throw new EsCursorError('Malformed pagination cursor');
+            }
+
+            return payload;
+        },
+        encode: (payload: EsCursorPayload): string => {
+            const body = toBase64Url(JSON.stringify(payload));
+
+            return `${body}.${toBase64Url(digest(body))}`;
+        },
+    };
+};
+
+/**
+ * Default cursor codec. Its checksum only guards integrity: anyone can build a valid cursor and start a page at any
+ * position of the same query and sort. Pass `createCursorCodec({ secret })` to sign cursors when that matters.
+ */
+export const defaultCursorCodec: EsCursorCodec = createCursorCodec();
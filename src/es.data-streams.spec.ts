@@ -0,0 +1,99 @@
+import { ensureDataStream } from './es.data-streams';
+import { Document, Field } from './es.decorators';
+import { EsRepository } from './es.repository';
+import { buildDocumentMetadata } from './es.utils';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({
+    index: 'order-events',
+    dataStream: true,
+    ilm: { phases: { hot: { actions: { rollover: { max_age: '1d' } } } } },
+})
+class OrderEvent {
+    @Field({ type: 'date', name: '@timestamp' })
+    timestamp!: string;
+
+    @Field({ type: 'keyword' })
+    orderId!: string;
+}
+
+@Document({ index: 'orders' })
+class Order {
+    @Field({ type: 'keyword' })
+    orderId!: string;
+}
+
+type DataStreamClient = ElasticsearchClient & Record<string, Record<string, jest.Mock>>;
+
+/**
+ * Client recording the data stream, template and ILM requests.
+ * @returns {DataStreamClient} The client
+ */
+const dataStreamClient = (): DataStreamClient =>
+    ({
+        cluster: { putComponentTemplate: jest.fn(async () => ({ acknowledged: true })) },
+        ilm: { putLifecycle: jest.fn(async () => ({ acknowledged: true })) },
+        indices: {
+            createDataStream: jest.fn(async () => ({ acknowledged: true })),
+            deleteDataStream: jest.fn(async () => ({ acknowledged: true })),
+            getDataStream: jest.fn(async () => ({
+                data_streams: [
+                    { indices: [{ index_name: '.ds-order-events-000001' }, { index_name: '.ds-order-events-000002' }] },
+                ],
+            })),
+            putIndexTemplate: jest.fn(async () => ({ acknowledged: true })),
+            rollover: jest.fn(async () => ({ new_index: '.ds-order-events-000002', rolled_over: true })),
+        },
+    }) as unknown as DataStreamClient;
+
+describe('data streams', () => {
+    it('provisions the ILM policy, the templates and the data stream', async () => {
+        const client = dataStreamClient();
+
+        await ensureDataStream(client, buildDocumentMetadata(OrderEvent)!);
+
+        expect(client.ilm.putLifecycle).toHaveBeenCalledWith({
+            name: 'order-events-policy',
+            policy: { phases: { hot: { actions: { rollover: { max_age: '1d' } } } } },
+        });
+        expect(client.cluster.putComponentTemplate).toHaveBeenCalledWith({
+            name: 'order-events@mappings',
+            template: {
+                mappings: {
+                    properties: { '@timestamp': { type: 'date' }, orderId: { type: 'keyword' } },
+                },
+            },
+        });
+        expect(client.cluster.putComponentTemplate).toHaveBeenCalledWith({
+            name: 'order-events@settings',
+            template: { settings: expect.objectContaining({ 'index.lifecycle.name': 'order-events-policy' }) },
+        });
+        expect(client.indices.putIndexTemplate).toHaveBeenCalledWith(
+            expect.objectContaining({
+                composed_of: ['order-events@mappings', 'order-events@settings'],
+                data_stream: {},
+                index_patterns: ['order-events'],
+            }),
+        );
+        expect(client.indices.createDataStream).toHaveBeenCalledWith({ name: 'order-events' }, { ignore: [400] });
+    });
+
+    it('rolls over and lists the backing indices of the data stream', async () => {
+        const client = dataStreamClient();
+        const repo = new EsRepository(client, OrderEvent);
+
+        await expect(repo.rollover({ max_docs: 1000 })).resolves.toMatchObject({ rolled_over: true });
+        await expect(repo.getBackingIndices()).resolves.toEqual(['.ds-order-events-000001', '.ds-order-events-000002']);
+
+        expect(client.indices.rollover).toHaveBeenCalledWith({ alias: 'order-events', conditions: { max_docs: 1000 } });
+        expect(client.indices.getDataStream).toHaveBeenCalledWith({ name: 'order-events' }, { ignore: [404] });
+    });
+
+    it('rejects data stream operations on regular documents', async () => {
+        const repo = new EsRepository(dataStreamClient(), Order);
+
+        await expect(repo.rollover()).rejects.toThrow('Elasticsearch document Order is not a data stream');
+        await expect(repo.getBackingIndices()).rejects.toThrow('Elasticsearch document Order is not a data stream');
+    });
+});
@@ -0,0 +1,109 @@
+import get from 'lodash/get';
+import isNil from 'lodash/isNil';
+import map from 'lodash/map';
+
+import type { DocumentMetadata, ElasticsearchClient } from './es.interfaces';
+import type {
+    IlmPhases,
+    IndicesRolloverResponse,
+    IndicesRolloverRolloverConditions,
+} from '@elastic/elasticsearch/lib/api/types';
+
+// Above the built-in `logs-*-*`/`metrics-*-*` templates (priority 100)
+export const ES_DATA_STREAM_TEMPLATE_PRIORITY = 200;
+
+export interface EsIlmPolicyOptions {
+    /** Policy name (default `<index>-policy`) */
+    name?: string;
+    /** Lifecycle phases (hot rollover conditions, warm/cold/delete actions) */
+    phases: IlmPhases;
+}
+
+export interface EsDataStreamTemplateNames {
+    indexTemplate: string;
+    mappings: string;
+    settings: string;
+}
+
+/**
+ * ILM policy name for a data stream.
+ * @param {string} index - Data stream name (the @Document index)
+ * @param {EsIlmPolicyOptions} [ilm] - ILM options
+ * @returns {string} The policy name
+ * @example
+ * getIlmPolicyName('order-events'); // 'order-events-policy'
+ */
+export const getIlmPolicyName = (index: string, ilm?: EsIlmPolicyOptions): string => ilm?.name ?? `${index}-policy`;
+
+/**
+ * Index and component template names provisioned for a data stream.
+ * @param {string} index - Data stream name (the @Document index)
+ * @returns {EsDataStreamTemplateNames} The template names
+ * @example
+ * getDataStreamTemplateNames('order-events'); // { indexTemplate: 'order-events', mappings: 'order-events@mappings', settings: 'order-events@settings' }
+ */
+export const getDataStreamTemplateNames = (index: string): EsDataStreamTemplateNames => ({
+    indexTemplate: index,
+    mappings: `${index}@mappings`,
+    settings: `${index}@settings`,
+});
+
+/**
+ * Provision a data stream from document metadata: the ILM policy (if any), `@mappings`/`@settings` component
+ * templates, an index template composed of them, then the data stream itself. Policies and templates are
+ * overwritten, so decorator changes apply from the next backing index.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {DocumentMetadata} meta - Metadata of a document with `dataStream: true`
+ * @returns {Promise<void>} Promise that resolves when the data stream exists
+ * @throws {Error} If the document is also versioned
+ */
+export const ensureDataStream = async (client: ElasticsearchClient, meta: DocumentMetadata): Promise<void> => {
+    if (meta.versioned) {
+        throw new Error(`Elasticsearch document ${meta.index} cannot be both versioned and a data stream`);
+    }
+
+    const { ilm } = meta;
+    const names = getDataStreamTemplateNames(meta.index);
+    const policy = isNil(ilm) ? undefined : getIlmPolicyName(meta.index, ilm);
+
+    if (ilm && policy) await client.ilm.putLifecycle({ name: policy, policy: { phases: ilm.phases } });
+
+    await client.cluster.putComponentTemplate({ name: names.mappings, template: { mappings: meta.mappings } });
+    await client.cluster.putComponentTemplate({
+        name: names.settings,
+        template: { settings: { ...meta.settings, ...(policy ? { 'index.lifecycle.name': policy } : {}) } },
+    });
+    await client.indices.putIndexTemplate({
+        composed_of: [names.mappings, names.settings],
+        data_stream: {},
+        index_patterns: [meta.index],
+        name: names.indexTemplate,
+        priority: ES_DATA_STREAM_TEMPLATE_PRIORITY,
+    });
+    await client.indices.createDataStream({ name: meta.index }, { ignore: [400] });
+};
+
+/**
+ * Roll a data stream over to a new write (backing) index.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {string} name - Data stream name
+ * @param {IndicesRolloverRolloverConditions} [conditions] - Only roll over when one of the conditions is met
+ * @returns {Promise<IndicesRolloverResponse>} The rollover response (old and new backing index)
+ */
+export const rolloverDataStream = async (
+    client: ElasticsearchClient,
+    name: string,
+    conditions?: IndicesRolloverRolloverConditions,
+): Promise<IndicesRolloverResponse> => client.indices.rollover({ alias: name, conditions });
+
+/**
+ * List the backing indices of a data stream, oldest first (the last one is the write index).
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {string} name - Data stream name
+ * @returns {Promise<string[]>} Backing index names, empty if the data stream does not exist
+ */
+export const getDataStreamBackingIndices = async (client: ElasticsearchClient, name: string): Promise<string[]> => {
+    const res = await client.indices.getDataStream({ name }, { ignore: [404] });
+
+    return map(get(res, 'data_streams[0].indices', []), (index) => index.index_name);
+};
@@ -2,14 +2,36 @@ import { Inject } from '@nestjs/common';
 import 'reflect-metadata';
 
 import {
+    ES_ANALYSIS_METADATA,
+    ES_DELETED_AT_METADATA,
     ES_DOCUMENT_METADATA,
     ES_FIELD_METADATA,
+    ES_HOOKS_METADATA,
+    ES_ID_METADATA,
     ES_INDEX_METADATA,
+    ES_REPOSITORY_METADATA,
+    ES_VERSION_METADATA,
     getElasticsearchClientToken,
 } from './es.constants';
 import { getRepositoryToken } from './es.repository';
 
-import type { DocumentOptions, FieldOptions, IndexOptions } from './es.interfaces';
+import type { EsAnalysisComponent, EsAnalysisDefinition } from './es.analysis';
+import type { EsHookEvent } from './es.hooks';
+import type {
+    DeletedAtFieldMetadata,
+    DocumentOptions,
+    FieldOptions,
+    IdFieldMetadata,
+    IndexOptions,
+    VersionFieldMetadata,
+} from './es.interfaces';
+import type {
+    AnalysisAnalyzer,
+    AnalysisCharFilter,
+    AnalysisNormalizer,
+    AnalysisTokenFilter,
+    AnalysisTokenizer,
+} from '@elastic/elasticsearch/lib/api/types';
 
 export type InjectElasticsearch = {
     (): ParameterDecorator;
@@ -29,23 +51,24 @@ export const InjectElasticsearch: InjectElasticsearch = ((name?: string): Parame
     Inject(getElasticsearchClientToken(name))) as InjectElasticsearch;
 
 export type InjectEsRepository = {
-    <T>(entity: new () => T): ParameterDecorator;
-    <T, TName extends string = 'default'>(entity: new () => T, name: TName): ParameterDecorator;
+    <T>(entity: new (...args: never[]) => T): ParameterDecorator;
+    <T, TName extends string = 'default'>(entity: new (...args: never[]) => T, name: TName): ParameterDecorator;
 };
 
 /**
  * Decorator for injecting an Elasticsearch repository instance.
  * @template T - The entity type
  * @template TName - The client name type
- * @param {new () => T} entity - The entity constructor
+ * @param {new (...args: never[]) => T} entity - The entity or custom repository constructor
  * @param {string} [clientName='default'] - The client name to use
  * @returns {ParameterDecorator} The parameter decorator
  * @example
  * constructor(@InjectEsRepository(User) private userRepo: EsRepository<User>) {}
  * constructor(@InjectEsRepository(Product, 'secondary') private productRepo: EsRepository<Product>) {}
+ * constructor(@InjectEsRepository(ProductRepository, 'analytics') private productRepo: ProductRepository) {}
  */
 export const InjectEsRepository: InjectEsRepository = (<T>(
-    entity: new () => T,
+    entity: new (...args: never[]) => T,
     clientName?: string,
 ): ParameterDecorator => Inject(getRepositoryToken(entity, clientName))) as InjectEsRepository;
 
@@ -85,14 +108,116 @@ export const Field =
     (options: FieldOptions = {}): PropertyDecorator =>
     (target, propertyKey): void => {
         const ctor = (target as HasConstructor).constructor as object;
+        // Own metadata only: inherited fields are merged by getFieldsMetadata, so subclasses never share a map
         const existingFields =
-            (Reflect.getMetadata(ES_FIELD_METADATA, ctor) as Map<string | symbol, FieldOptions> | undefined) ||
+            (Reflect.getOwnMetadata(ES_FIELD_METADATA, ctor) as Map<string | symbol, FieldOptions> | undefined) ||
             new Map<string | symbol, FieldOptions>();
 
         existingFields.set(propertyKey, options);
         Reflect.defineMetadata(ES_FIELD_METADATA, existingFields, ctor);
     };
 
+/**
+ * Decorator to mark a property as an `object` sub-document of the given class. Its mapping `properties` are generated
+ * from the class's @Field metadata, and hydration rebuilds instances of it (including arrays).
+ * @param {() => abstract new (...args: any[]) => object} type - Lazy reference to the sub-document class
+ * @param {FieldOptions} [options={}] - Additional field options (dynamic, enabled, ...)
+ * @returns {PropertyDecorator} The property decorator
+ * @example
+ * class Product {
+ *   @ObjectField(() => Address)
+ *   warehouse: Address;
+ * }
+ */
+export const ObjectField = (type: NonNullable<FieldOptions['target']>, options: FieldOptions = {}): PropertyDecorator =>
+    Field({ ...options, type: 'object', target: type });
+
+/**
+ * Decorator to mark a property as a `nested` sub-document (or array of them) of the given class, so that each
+ * item is indexed as a separate hidden document and can be queried with `nested` queries.
+ * @param {() => abstract new (...args: any[]) => object} type - Lazy reference to the sub-document class
+ * @param {FieldOptions} [options={}] - Additional field options (dynamic, include_in_parent, ...)
+ * @returns {PropertyDecorator} The property decorator
+ * @example
+ * class Product {
+ *   @NestedField(() => Variant)
+ *   variants: Variant[];
+ * }
+ */
+export const NestedField = (type: NonNullable<FieldOptions['target']>, options: FieldOptions = {}): PropertyDecorator =>
+    Field({ ...options, type: 'nested', target: type });
+
+/**
+ * Decorator to mark the property holding the document `_id`. indexOne, bulkIndex and save address the document by
+ * it, and hydrated entities get `_id` written back onto it. An optional function derives composite ids.
+ * @template T - The entity type
+ * @param {(entity: T) => string | undefined} [derive] - Optional id derivation from the entity
+ * @returns {PropertyDecorator} The property decorator
+ * @example
+ * class Product {
+ *   @IdField()
+ *   @Field({ type: 'keyword' })
+ *   sku: string;
+ * }
+ *
+ * class Price {
+ *   @IdField((p: Price) => `${p.sku}:${p.currency}`)
+ *   id: string;
+ * }
+ */
+export const IdField =
+    <T extends object>(derive?: IdFieldMetadata<T>['derive']): PropertyDecorator =>
+    (target, propertyKey): void => {
+        const ctor = (target as HasConstructor).constructor as object;
+
+        Reflect.defineMetadata(ES_ID_METADATA, { derive, property: propertyKey } satisfies IdFieldMetadata<T>, ctor);
+    };
+
+/**
+ * Decorator to mark a numeric property holding an external document version. Writes from save/indexOne/bulkIndex
+ * pass it with `version_type: 'external'`, and hydrated entities get `_version` written back onto it. Without it,
+ * or while it still holds the version the entity was read with, entities read through the repository are written
+ * with `if_seq_no`/`if_primary_term`.
+ * @returns {PropertyDecorator} The property decorator
+ * @example
+ * class Product {
+ *   @VersionField()
+ *   @Field({ type: 'long' })
+ *   revision: number;
+ * }
+ */
+export const VersionField =
+    (): PropertyDecorator =>
+    (target, propertyKey): void => {
+        const ctor = (target as HasConstructor).constructor as object;
+
+        Reflect.defineMetadata(ES_VERSION_METADATA, { property: propertyKey } satisfies VersionFieldMetadata, ctor);
+    };
+
+/**
+ * Decorator to mark the date property of a soft-deleted entity. Repository deletes then set it to the current time
+ * instead of removing documents, and searches, counts and finds skip documents where it is set (see withDeleted,
+ * restore and hardDelete).
+ * @returns {PropertyDecorator} The property decorator
+ * @example
+ * class Product {
+ *   @DeletedAtField()
+ *   @Field({ type: 'date' })
+ *   deletedAt?: Date | null;
+ * }
+ */
+export const DeletedAtField =
+    (): PropertyDecorator =>
+    (target, propertyKey): void => {
+        const ctor = (target as HasConstructor).constructor as object;
+
+        Reflect.defineMetadata(
+            ES_DELETED_AT_METADATA,
+            { property: propertyKey } satisfies DeletedAtFieldMetadata,
+            ctor,
+        );
+    };
+
 /**
  * Decorator to configure index settings for a document.
  * @param {IndexOptions} options - Index configuration options
@@ -110,3 +235,185 @@ export const Index =
     (target): void => {
         Reflect.defineMetadata(ES_INDEX_METADATA, options, target);
     };
+
+/**
+ * Decorator to bind a custom repository class (a subclass of EsRepository) to its entity, so that it can be passed
+ * to ElasticsearchModule.forFeature and injected by class type.
+ * @param {new (...args: never[]) => object} entity - The entity constructor decorated with @Document
+ * @returns {ClassDecorator} The class decorator
+ * @example
+ * @EsEntityRepository(Product)
+ * class ProductRepository extends EsRepository<Product> {
+ *   findActiveByBrand(brand: string): Promise<Product[]> {
+ *     return this.createQueryBuilder().filter((q) => q.term('brand', brand)).filter((q) => q.term('active', true)).getMany();
+ *   }
+ * }
+ */
+export const EsEntityRepository =
+    (entity: new (...args: never[]) => object): ClassDecorator =>
+    (target): void => {
+        Reflect.defineMetadata(ES_REPOSITORY_METADATA, entity, target);
+    };
+
+/**
+ * Register the decorated method as a lifecycle hook for the given event.
+ * @param {EsHookEvent} event - Hook event
+ * @returns {MethodDecorator} The method decorator
+ */
+const registerHook =
+    (event: EsHookEvent): MethodDecorator =>
+    (target, propertyKey): void => {
+        const ctor = (target as HasConstructor).constructor as object;
+        const hooks =
+            (Reflect.getOwnMetadata(ES_HOOKS_METADATA, ctor) as Map<EsHookEvent, Array<string | symbol>> | undefined) ||
+            new Map<EsHookEvent, Array<string | symbol>>();
+
+        hooks.set(event, [...(hooks.get(event) ?? []), propertyKey]);
+        Reflect.defineMetadata(ES_HOOKS_METADATA, hooks, ctor);
+    };
+
+/**
+ * Run the method before the entity is indexed (indexOne, bulkIndex). Return `false` to veto the write.
+ * @returns {MethodDecorator} The method decorator
+ * @example
+ * class Product {
+ *   @BeforeIndex()
+ *   computeSearchText(): void {
+ *     this.searchText = `${this.name} ${this.brand}`;
+ *   }
+ * }
+ */
+export const BeforeIndex = (): MethodDecorator => registerHook('beforeIndex');
+
+/**
+ * Run the method on the partial document (assigned onto an entity instance) before partial updates and upserts.
+ * Fields set by the hook are included in the update. Return `false` to veto the write.
+ * @returns {MethodDecorator} The method decorator
+ * @example
+ * class Product {
+ *   @BeforeUpdate()
+ *   touch(): void {
+ *     this.updatedAt = new Date().toISOString();
+ *   }
+ * }
+ */
+export const BeforeUpdate = (): MethodDecorator => registerHook('beforeUpdate');
+
+/**
+ * Run the method on the stored entity before it is deleted by id. Return `false` to veto the delete.
+ * @returns {MethodDecorator} The method decorator
+ * @example
+ * class Product {
+ *   @BeforeRemove()
+ *   protect(): boolean {
+ *     return !this.locked;
+ *   }
+ * }
+ */
+export const BeforeRemove = (): MethodDecorator => registerHook('beforeRemove');
+
+/**
+ * Run the method after an entity is hydrated by the find/search/iterate/paginate entity helpers.
+ * @returns {MethodDecorator} The method decorator
+ * @example
+ * class Product {
+ *   @AfterLoad()
+ *   computeDisplayPrice(): void {
+ *     this.displayPrice = formatPrice(this.price);
+ *   }
+ * }
+ */
+export const AfterLoad = (): MethodDecorator => registerHook('afterLoad');
+
+/**
+ * Run the method on the stored entity after it was deleted by id.
+ * @returns {MethodDecorator} The method decorator
+ * @example
+ * class Product {
+ *   @AfterRemove()
+ *   async evictCache(ctx: EsHookContext): Promise<void> {
+ *     await cache.del(`product:${ctx.id}`);
+ *   }
+ * }
+ */
+export const AfterRemove = (): MethodDecorator => registerHook('afterRemove');
+
+/**
+ * Register a named analysis component on the decorated document class.
+ * @param {EsAnalysisComponent} component - Analysis component kind
+ * @param {string} name - Component name referenced by fields and analyzers
+ * @param {unknown} definition - Component definition
+ * @returns {ClassDecorator} The class decorator
+ */
+const registerAnalysis =
+    (component: EsAnalysisComponent, name: string, definition: unknown): ClassDecorator =>
+    (target): void => {
+        const own = (Reflect.getOwnMetadata(ES_ANALYSIS_METADATA, target) as EsAnalysisDefinition | undefined) ?? {};
+
+        Reflect.defineMetadata(
+            ES_ANALYSIS_METADATA,
+            { ...own, [component]: { ...own[component], [name]: definition } },
+            target,
+        );
+    };
+
+/**
+ * Define a named analyzer in the document index settings (`settings.analysis.analyzer`).
+ * @param {string} name - Analyzer name referenced by `@Field({ analyzer })`
+ * @param {AnalysisAnalyzer} definition - Analyzer definition
+ * @returns {ClassDecorator} The class decorator
+ * @example
+ * @Analyzer('vi_text', { type: 'custom', tokenizer: 'icu_tokenizer', filter: ['lowercase', 'vi_folding'] })
+ * @TokenFilter('vi_folding', { type: 'asciifolding', preserve_original: true })
+ * @Document({ index: 'products' })
+ * class Product {
+ *   @Field({ type: 'text', analyzer: 'vi_text' })
+ *   name: string;
+ * }
+ */
+export const Analyzer = (name: string, definition: AnalysisAnalyzer): ClassDecorator =>
+    registerAnalysis('analyzer', name, definition);
+
+/**
+ * Define a named character filter in the document index settings (`settings.analysis.char_filter`).
+ * @param {string} name - Character filter name referenced by analyzers
+ * @param {AnalysisCharFilter} definition - Character filter definition
+ * @returns {ClassDecorator} The class decorator
+ * @example
+ * @CharFilter('strip_html', { type: 'html_strip' })
+ */
+export const CharFilter = (name: string, definition: AnalysisCharFilter): ClassDecorator =>
+    registerAnalysis('char_filter', name, definition);
+
+/**
+ * Define a named normalizer in the document index settings (`settings.analysis.normalizer`).
+ * @param {string} name - Normalizer name referenced by `@Field({ normalizer })`
+ * @param {AnalysisNormalizer} definition - Normalizer definition
+ * @returns {ClassDecorator} The class decorator
+ * @example
+ * @Normalizer('folded', { type: 'custom', filter: ['lowercase', 'asciifolding'] })
+ */
+export const Normalizer = (name: string, definition: AnalysisNormalizer): ClassDecorator =>
+    registerAnalysis('normalizer', name, definition);
+
+/**
+ * Define a named token filter in the document index settings (`settings.analysis.filter`).
+ * @param {string} name - Token filter name referenced by analyzers and normalizers
+ * @param {AnalysisTokenFilter} definition - Token filter definition
+ * @returns {ClassDecorator} The class decorator
+ * @example
+ * @TokenFilter('en_stemmer', { type: 'stemmer', language: 'english' })
+ */
+export const TokenFilter = (name: string, definition: AnalysisTokenFilter): ClassDecorator =>
+    registerAnalysis('filter', name, definition);
+
+/**
+ * Define a named tokenizer in the document index settings (`settings.analysis.tokenizer`).
+ * @param {string} name - Tokenizer name referenced by analyzers
+ * @param {AnalysisTokenizer} definition - Tokenizer definition
+ * @returns {ClassDecorator} The class decorator
+ * @example
+ * @Tokenizer('autocomplete', { type: 'edge_ngram', min_gram: 2, max_gram: 15, token_chars: ['letter', 'digit'] })
+ */
+export const Tokenizer = (name: string, definition: AnalysisTokenizer): ClassDecorator =>
+    registerAnalysis('tokenizer', name, definition);
@@ -0,0 +1,194 @@
+import type { EsAnalysisReference } from './es.analysis';
+import type { BulkFailedItem, BulkResult } from './es.bulk';
+import type { EsHookOperation } from './es.hooks';
+import type { SchemaSyncReport } from './es.schema-sync';
+
+/**
+ * Error raised for documents with `strictAnalysis` when a field references an analyzer or normalizer that is neither
+ * defined by the document analysis, built in, nor declared in `knownAnalyzers`.
+ */
+export class EsAnalysisError extends Error {
+    /**
+     * Create an analysis error.
+     * @param {string} entity - Entity class name
+     * @param {EsAnalysisReference} reference - The undefined reference
+     */
+    constructor(
+        readonly entity: string,
+        readonly reference: EsAnalysisReference,
+    ) {
+        super(
+            `Field "${reference.path}" of Elasticsearch document ${entity} references undefined ${reference.kind} "${reference.name}"`,
+        );
+        this.name = 'EsAnalysisError';
+    }
+}
+
+/**
+ * Error raised by bulk helpers in `throwOnError` mode when at least one item failed after all retries.
+ */
+export class EsBulkError extends Error {
+    /**
+     * Create a bulk error from the structured bulk result.
+     * @param {BulkResult} result - The full bulk result (succeeded and failed items)
+     */
+    constructor(readonly result: BulkResult) {
+        super(`Elasticsearch bulk request failed for ${result.failed.length} of ${result.total} items`);
+        this.name = 'EsBulkError';
+    }
+
+    /**
+     * Items that failed after all retries.
+     * @returns {BulkFailedItem[]} The failed items with their reasons
+     */
+    get failed(): BulkFailedItem[] {
+        return this.result.failed;
+    }
+}
+
+/**
+ * Error raised when a pagination cursor is malformed, tampered with or does not match the requested sort.
+ */
+export class EsCursorError extends Error {
+    /**
+     * Create a cursor error.
+     * @param {string} message - Error message
+     */
+    constructor(message: string) {
+        super(message);
+        this.name = 'EsCursorError';
+    }
+}
+
+/**
+ * Error raised when a tenant id cannot be part of an index name with the index tenancy strategy.
+ */
+export class EsInvalidTenantError extends Error {
+    /**
+     * Create an invalid tenant error.
+     * @param {string} tenantId - The rejected tenant id
+     */
+    constructor(readonly tenantId: string) {
+        super(
+            `Invalid Elasticsearch tenant id ${JSON.stringify(tenantId)}: use lowercase letters, digits, '_', '-', '.'`,
+        );
+        this.name = 'EsInvalidTenantError';
+    }
+}
+
+/**
+ * Error raised when a versioned reindex cannot be performed or fails verification.
+ */
+export class EsReindexError extends Error {
+    /**
+     * Create a reindex error.
+     * @param {string} message - Error message
+     * @param {{ alias?: string; currentIndex?: string; sourceCount?: number; targetCount?: number }} [details] - Reindex details
+     */
+    constructor(
+        message: string,
+        readonly details: { alias?: string; currentIndex?: string; sourceCount?: number; targetCount?: number } = {},
+    ) {
+        super(message);
+        this.name = 'EsReindexError';
+    }
+}
+
+/**
+ * Error raised by a replaying transport when a request has no recorded response, or its fixture file is missing.
+ */
+export class EsReplayError extends Error {
+    /**
+     * Create a replay error.
+     * @param {string} message - Error message
+     * @param {string} [key] - Recording key of the unmatched request
+     */
+    constructor(
+        message: string,
+        readonly key?: string,
+    ) {
+        super(message);
+        this.name = 'EsReplayError';
+    }
+}
+
+/**
+ * Error raised in `fail` schema sync mode when a live index differs from its decorators.
+ */
+export class EsSchemaSyncError extends Error {
+    /**
+     * Create a schema sync error from the drift report.
+     * @param {SchemaSyncReport} report - The drift report
+     */
+    constructor(readonly report: SchemaSyncReport) {
+        super(
+            `Elasticsearch index ${report.index} differs from its decorators: ${report.differences
+                .map((d) => `${d.kind} at ${d.path}`)
+                .join(', ')}`,
+        );
+        this.name = 'EsSchemaSyncError';
+    }
+}
+
+/**
+ * Error raised when a repository with tenancy is used without a current tenant and without opting into
+ * cross-tenant access, when a cross-tenant call cannot be served (writes with the index strategy), or when a document
+ * written by id belongs to another tenant (shared strategy).
+ */
+export class EsTenantError extends Error {
+    /**
+     * Create a tenant error.
+     * @param {string} entity - Entity class name
+     * @param {string} [message] - Error message
+     */
+    constructor(
+        readonly entity: string,
+        message = `No tenant in context for Elasticsearch document ${entity}: use runWithTenant, forTenant or acrossTenants`,
+    ) {
+        super(message);
+        this.name = 'EsTenantError';
+    }
+}
+
+/**
+ * Error raised when a write conditioned on a version (`if_seq_no`/`if_primary_term` or an external version) was
+ * rejected because the document changed since it was read.
+ */
+export class EsVersionConflictError extends Error {
+    /**
+     * Create a version conflict error.
+     * @param {string} entity - Entity class name
+     * @param {string} [id] - Document id, if known
+     * @param {unknown} [cause] - The underlying client error
+     */
+    constructor(
+        readonly entity: string,
+        readonly id?: string,
+        readonly cause?: unknown,
+    ) {
+        super(
+            `Elasticsearch version conflict writing ${entity}${id ? ` ${id}` : ''}: the document changed since it was read`,
+        );
+        this.name = 'EsVersionConflictError';
+    }
+}
+
+/**
+ * Error raised when a lifecycle hook returns `false` for a single-document write.
+ */
+export class EsWriteVetoedError extends Error {
+    /**
+     * Create a write vetoed error.
+     * @param {string} entity - Entity class name
+     * @param {EsHookOperation} operation - The vetoed operation
+     * @param {string} [id] - Document id, if known
+     */
+    constructor(
+        readonly entity: string,
+        readonly operation: EsHookOperation,
+        readonly id?: string,
+    ) {
+        super(`Elasticsearch ${operation} of ${entity}${id ? ` ${id}` : ''} was vetoed by a lifecycle hook`);
+        this.name = 'EsWriteVetoedError';
+    }
+}
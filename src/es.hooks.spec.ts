@@ -0,0 +1,135 @@
+import { AfterRemove, BeforeIndex, BeforeRemove, BeforeUpdate, Document, Field } from './es.decorators';
+import { EsWriteVetoedError } from './es.errors';
+import { EsRepository } from './es.repository';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+const calls: string[] = [];
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'keyword' })
+    name!: string;
+
+    @Field({ type: 'date' })
+    updatedAt?: string;
+
+    @BeforeIndex()
+    trim(): void {
+        calls.push('beforeIndex:trim');
+        this.name = this.name.trim();
+    }
+
+    @BeforeIndex()
+    validate(): boolean {
+        calls.push('beforeIndex:validate');
+
+        if (this.name === 'broken') throw new Error('invalid product');
+
+        return this.name !== 'draft';
+    }
+
+    @BeforeUpdate()
+    touch(): void {
+        calls.push('beforeUpdate');
+        this.updatedAt = '2026-10-19T08:00:00.000Z';
+    }
+
+    @BeforeRemove()
+    protect(): boolean {
+        calls.push(`beforeRemove:${this.name}`);
+
+        return this.name !== 'locked';
+    }
+
+    @AfterRemove()
+    evict(): void {
+        calls.push(`afterRemove:${this.name}`);
+    }
+}
+
+/**
+ * Client recording writes after the hooks, storing one document per id.
+ * @param {Record<string, Record<string, unknown>>} stored - Stored sources by id
+ * @returns {ElasticsearchClient} The client
+ */
+const recordingClient = (stored: Record<string, Record<string, unknown>> = {}): ElasticsearchClient =>
+    ({
+        delete: jest.fn(async ({ id }: { id: string }) => {
+            calls.push(`delete:${id}`);
+
+            return { _id: id, result: 'deleted' };
+        }),
+        index: jest.fn(async ({ id }: { id: string }) => {
+            calls.push(`index:${id}`);
+
+            return { _id: id, result: 'created' };
+        }),
+        mget: jest.fn(async ({ docs }: { docs: Array<{ _id: string }> }) => ({
+            docs: docs.map(({ _id }) => ({ _id, _source: stored[_id], found: _id in stored })),
+        })),
+        update: jest.fn(async ({ id }: { id: string }) => {
+            calls.push(`update:${id}`);
+
+            return { _id: id, result: 'updated' };
+        }),
+    }) as unknown as ElasticsearchClient;
+
+const product = (name: string): Product => Object.assign(new Product(), { name });
+
+describe('entity lifecycle hooks', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('runs index hooks in declaration order before the write', async () => {
+        const client = recordingClient();
+        const repo = new EsRepository(client, Product);
+
+        await repo.indexOne(product('  Shoe '), 'p-1');
+
+        expect(calls).toEqual(['beforeIndex:trim', 'beforeIndex:validate', 'index:p-1']);
+        expect(client.index).toHaveBeenCalledWith(expect.objectContaining({ document: { name: 'Shoe' } }));
+    });
+
+    it('adds fields set by update hooks to the partial document', async () => {
+        const client = recordingClient();
+        const repo = new EsRepository(client, Product);
+
+        await repo.updateById('p-1', { name: 'Boot' });
+
+        expect(calls).toEqual(['beforeUpdate', 'update:p-1']);
+        expect(client.update).toHaveBeenCalledWith(
+            expect.objectContaining({ doc: { name: 'Boot', updatedAt: '2026-10-19T08:00:00.000Z' } }),
+        );
+    });
+
+    it('runs remove hooks on the stored entity around the delete', async () => {
+        const repo = new EsRepository(recordingClient({ 'p-1': { name: 'Shoe' } }), Product);
+
+        await repo.deleteById('p-1');
+
+        expect(calls).toEqual(['beforeRemove:Shoe', 'delete:p-1', 'afterRemove:Shoe']);
+    });
+
+    it('does not write when a hook vetoes it', async () => {
+        const client = recordingClient({ 'p-2': { name: 'locked' } });
+        const repo = new EsRepository(client, Product);
+
+        await expect(repo.indexOne(product('draft'), 'p-1')).rejects.toThrow(EsWriteVetoedError);
+        await expect(repo.deleteById('p-2')).rejects.toThrow(EsWriteVetoedError);
+
+        expect(client.index).not.toHaveBeenCalled();
+        expect(client.delete).not.toHaveBeenCalled();
+    });
+
+    it('does not write when a hook throws', async () => {
+        const client = recordingClient();
+        const repo = new EsRepository(client, Product);
+
+        await expect(repo.indexOne(product('broken'), 'p-1')).rejects.toThrow('invalid product');
+
+        expect(calls).toEqual(['beforeIndex:trim', 'beforeIndex:validate']);
+        expect(client.index).not.toHaveBeenCalled();
+    });
+});
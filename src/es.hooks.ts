@@ -0,0 +1,87 @@
+import assign from 'lodash/assign';
+import isEmpty from 'lodash/isEmpty';
+
+import { getHooksMetadata } from './es.utils';
+
+import type { BulkFailedItem, BulkOperation } from './es.bulk';
+
+export type EsHookEvent = 'afterLoad' | 'afterRemove' | 'beforeIndex' | 'beforeRemove' | 'beforeUpdate';
+
+export type EsHookOperation =
+    'bulkDelete' | 'bulkIndex' | 'bulkUpdate' | 'delete' | 'index' | 'load' | 'update' | 'upsert';
+
+export interface EsHookContext {
+    /** Document id, when known before the write */
+    id?: string;
+    operation: EsHookOperation;
+}
+
+/**
+ * Whether a document class declares hooks for an event.
+ * @param {object} target - Class decorated with @Document
+ * @param {EsHookEvent} event - Hook event
+ * @returns {boolean} True if at least one method is registered for the event
+ */
+export const hasEntityHooks = (target: object, event: EsHookEvent): boolean =>
+    !isEmpty(getHooksMetadata(target)?.get(event));
+
+/**
+ * Run the hooks registered for an event on an entity, in declaration order. Hooks may be async; a hook returning
+ * `false` vetoes the write and stops the remaining hooks.
+ * @param {object} entity - Entity instance the hooks are called on
+ * @param {EsHookEvent} event - Hook event
+ * @param {EsHookContext} context - Operation context passed to each hook
+ * @returns {Promise<boolean>} False if a hook vetoed the write, true otherwise
+ */
+export const runEntityHooks = async (entity: object, event: EsHookEvent, context: EsHookContext): Promise<boolean> => {
+    const methods = getHooksMetadata(entity.constructor)?.get(event) ?? [];
+
+    for (const method of methods) {
+        const hook = (entity as Record<string | symbol, unknown>)[method];
+
+        if (typeof hook !== 'function') continue;
+
+        const result = (await (hook as (ctx: EsHookContext) => unknown).call(entity, context)) as unknown;
+
+        if (result === false) return false;
+    }
+
+    return true;
+};
+
+/**
+ * Run @BeforeUpdate hooks for a partial update. The partial is assigned onto an entity instance so hooks can read
+ * and set fields (e.g. `updatedAt`), and the instance's own properties become the update body.
+ * @param {{ prototype: unknown }} entityCtor - Entity constructor
+ * @param {object} partial - Partial entity data
+ * @param {EsHookContext} context - Operation context passed to each hook
+ * @returns {Promise<object | undefined>} The update body, or undefined if a hook vetoed the write
+ */
+export const runUpdateHooks = async <P extends object>(
+    entityCtor: { prototype: unknown },
+    partial: P,
+    context: EsHookContext,
+): Promise<P | undefined> => {
+    if (!hasEntityHooks(entityCtor, 'beforeUpdate')) return partial;
+
+    const instance = assign(Object.create(entityCtor.prototype as object) as P, partial);
+
+    if (!(await runEntityHooks(instance, 'beforeUpdate', context))) return undefined;
+
+    return { ...instance };
+};
+
+/**
+ * Report a bulk operation vetoed by a lifecycle hook as a failed item that was never sent.
+ * @param {BulkOperation} operation - The vetoed operation
+ * @returns {BulkFailedItem} The failed item
+ */
+export const toVetoedBulkItem = (operation: BulkOperation): BulkFailedItem => ({
+    id: operation.id,
+    action: operation.action,
+    attempts: 0,
+    body: operation.body,
+    error: { reason: 'Write vetoed by a lifecycle hook', type: 'write_vetoed' },
+    index: operation.index,
+    status: 0,
+});
@@ -0,0 +1,83 @@
+import { Document, Field } from './es.decorators';
+import {
+    composeIndexNameResolvers,
+    datedIndexName,
+    prefixIndexName,
+    resolveIndexNames,
+    suffixIndexName,
+} from './es.index-names';
+import { EsRepository } from './es.repository';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'logs' })
+class LogLine {
+    @Field({ type: 'keyword' })
+    message!: string;
+}
+
+@Document({ index: 'order-events', dataStream: true })
+class OrderEvent {
+    @Field({ type: 'date', name: '@timestamp' })
+    timestamp!: string;
+}
+
+const now = () => new Date(Date.UTC(2026, 9, 19, 8));
+
+describe('index name resolvers', () => {
+    it('uses the @Document index without a resolver', () => {
+        expect(resolveIndexNames(LogLine)).toEqual({ read: 'logs', write: 'logs' });
+    });
+
+    it('resolves different read and write names', () => {
+        const names = resolveIndexNames(LogLine, {
+            clientName: 'analytics',
+            indexNameResolver: ({ clientName, index }) => ({ read: `${index}-*`, write: `${index}-${clientName}` }),
+        });
+
+        expect(names).toEqual({ read: 'logs-*', write: 'logs-analytics' });
+    });
+
+    it('writes to dated indices and reads across them', () => {
+        expect(resolveIndexNames(LogLine, { indexNameResolver: datedIndexName('yyyy.MM', { now }) })).toEqual({
+            read: 'logs-*',
+            write: 'logs-2026.10',
+        });
+        expect(
+            resolveIndexNames(LogLine, {
+                indexNameResolver: datedIndexName('yyyy.MM.dd.HH', { now, separator: '_', wildcardRead: false }),
+            }),
+        ).toEqual({ read: 'logs_2026.10.19.08', write: 'logs_2026.10.19.08' });
+    });
+
+    it('composes resolvers left to right', () => {
+        const indexNameResolver = composeIndexNameResolvers(
+            prefixIndexName('prod-'),
+            datedIndexName('yyyy.MM.dd', { now }),
+            suffixIndexName('-eu'),
+        );
+
+        expect(resolveIndexNames(LogLine, { indexNameResolver })).toEqual({
+            read: 'prod-logs-*-eu',
+            write: 'prod-logs-2026.10.19-eu',
+        });
+    });
+
+    it('targets the write name with data stream operations', async () => {
+        const client = {
+            indices: {
+                getDataStream: jest.fn(async () => ({ data_streams: [] })),
+                rollover: jest.fn(async () => ({ rolled_over: true })),
+            },
+        };
+        const repo = new EsRepository(client as unknown as ElasticsearchClient, OrderEvent, {
+            indexNameResolver: datedIndexName('yyyy.MM', { now }),
+        });
+
+        await repo.rollover();
+        await repo.getBackingIndices();
+
+        expect(client.indices.rollover).toHaveBeenCalledWith({ alias: 'order-events-2026.10', conditions: undefined });
+        expect(client.indices.getDataStream).toHaveBeenCalledWith({ name: 'order-events-2026.10' }, { ignore: [404] });
+    });
+});
@@ -0,0 +1,148 @@
+import isString from 'lodash/isString';
+import padStart from 'lodash/padStart';
+import reduce from 'lodash/reduce';
+import toString from 'lodash/toString';
+
+import { ES_DEFAULT_CLIENT_NAME } from './es.constants';
+import { getDocumentMetadata } from './es.utils';
+
+import type { DocumentOptions } from './es.interfaces';
+
+export interface EsIndexNames {
+    /** Target of searches and reads; may be a wildcard pattern or an alias */
+    read: string;
+    /** Concrete index (or alias/data stream) receiving writes and created by ensureIndex */
+    write: string;
+}
+
+export interface EsIndexNameContext {
+    /** Client the repository or initializer uses */
+    clientName: string;
+    /** The @Document options of the entity */
+    document: DocumentOptions;
+    /** Index name to resolve: the @Document index, or the output of the previous resolver when composed */
+    index: string;
+}
+
+/**
+ * Maps a document's logical index to the physical read and write targets. Returning a string uses it for both.
+ */
+export type EsIndexNameResolver = (context: EsIndexNameContext) => EsIndexNames | string;
+
+export interface EsIndexNameResolverOptions {
+    /** Client name passed to the resolver (default 'default') */
+    clientName?: string;
+    indexNameResolver?: EsIndexNameResolver;
+}
+
+/**
+ * Normalize a resolver result into read and write targets.
+ * @param {EsIndexNames | string} names - Resolver result
+ * @returns {EsIndexNames} The read and write targets
+ */
+const toIndexNames = (names: EsIndexNames | string): EsIndexNames =>
+    isString(names) ? { read: names, write: names } : names;
+
+/**
+ * Format a date with `yyyy`, `MM`, `dd` and `HH` tokens, in UTC.
+ * @param {Date} date - Date to format
+ * @param {string} pattern - Date pattern
+ * @returns {string} The formatted date
+ */
+const formatIndexDate = (date: Date, pattern: string): string => {
+    const tokens: Record<string, string> = {
+        dd: padStart(toString(date.getUTCDate()), 2, '0'),
+        HH: padStart(toString(date.getUTCHours()), 2, '0'),
+        MM: padStart(toString(date.getUTCMonth() + 1), 2, '0'),
+        yyyy: toString(date.getUTCFullYear()),
+    };
+
+    return pattern.replace(/yyyy|MM|dd|HH/g, (token) => tokens[token]);
+};
+
+/**
+ * Resolve the read and write targets of a document class.
+ * @param {object} target - Class decorated with @Document
+ * @param {EsIndexNameResolverOptions} [options] - Resolver and client name
+ * @returns {EsIndexNames} The read and write targets (both the @Document index without a resolver)
+ * @throws {Error} If the class has no @Document metadata
+ * @example
+ * resolveIndexNames(Product, { indexNameResolver: prefixIndexName('staging-') }); // { read: 'staging-products', write: 'staging-products' }
+ */
+export const resolveIndexNames = (target: object, options?: EsIndexNameResolverOptions): EsIndexNames => {
+    const document = getDocumentMetadata(target);
+
+    if (!document) throw new Error('Missing @Document metadata for repository entity');
+
+    const resolver = options?.indexNameResolver;
+
+    if (!resolver) return toIndexNames(document.index);
+
+    return toIndexNames(
+        resolver({ clientName: options?.clientName ?? ES_DEFAULT_CLIENT_NAME, document, index: document.index }),
+    );
+};
+
+/**
+ * Resolver prepending a prefix, e.g. an environment name on a shared cluster.
+ * @param {string} prefix - Prefix to prepend
+ * @returns {EsIndexNameResolver} The resolver
+ * @example
+ * prefixIndexName(`${process.env.NODE_ENV}-`); // products -> staging-products
+ */
+export const prefixIndexName =
+    (prefix: string): EsIndexNameResolver =>
+    ({ index }) =>
+        `${prefix}${index}`;
+
+/**
+ * Resolver appending a suffix.
+ * @param {string} suffix - Suffix to append
+ * @returns {EsIndexNameResolver} The resolver
+ * @example
+ * suffixIndexName('-eu'); // products -> products-eu
+ */
+export const suffixIndexName =
+    (suffix: string): EsIndexNameResolver =>
+    ({ index }) =>
+        `${index}${suffix}`;
+
+/**
+ * Resolver writing to a date-based index (`logs-2026.10.19`) and reading across all of them with a wildcard
+ * pattern (`logs-*`). Dates are formatted in UTC with `yyyy`, `MM`, `dd` and `HH` tokens.
+ * @param {string} [pattern='yyyy.MM.dd'] - Date pattern
+ * @param {{ now?: () => Date; separator?: string; wildcardRead?: boolean }} [options] - Clock, separator (default '-') and whether reads use the wildcard pattern (default true) or the current index
+ * @returns {EsIndexNameResolver} The resolver
+ * @example
+ * datedIndexName('yyyy.MM'); // logs -> { read: 'logs-*', write: 'logs-2026.10' }
+ */
+export const datedIndexName =
+    (
+        pattern = 'yyyy.MM.dd',
+        options?: { now?: () => Date; separator?: string; wildcardRead?: boolean },
+    ): EsIndexNameResolver =>
+    ({ index }) => {
+        const separator = options?.separator ?? '-';
+        const write = `${index}${separator}${formatIndexDate(options?.now?.() ?? new Date(), pattern)}`;
+
+        return { read: options?.wildcardRead === false ? write : `${index}${separator}*`, write };
+    };
+
+/**
+ * Combine resolvers left to right: each one receives the read and write targets of the previous one.
+ * @param {...EsIndexNameResolver} resolvers - Resolvers to apply in order
+ * @returns {EsIndexNameResolver} The combined resolver
+ * @example
+ * composeIndexNameResolvers(prefixIndexName('prod-'), datedIndexName()); // logs -> { read: 'prod-logs-*', write: 'prod-logs-2026.10.19' }
+ */
+export const composeIndexNameResolvers =
+    (...resolvers: EsIndexNameResolver[]): EsIndexNameResolver =>
+    (context) =>
+        reduce(
+            resolvers,
+            (names: EsIndexNames, resolver) => ({
+                read: toIndexNames(resolver({ ...context, index: names.read })).read,
+                write: toIndexNames(resolver({ ...context, index: names.write })).write,
+            }),
+            toIndexNames(context.index),
+        );
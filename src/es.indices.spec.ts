@@ -0,0 +1,133 @@
+import { Document, Field } from './es.decorators';
+import { EsReindexError } from './es.errors';
+import { ensureDocumentIndex, reindexDocument } from './es.indices';
+import { EsRepository } from './es.repository';
+import { InMemoryElasticsearchClient } from './testing/es.in-memory-client';
+
+@Document({ index: 'products' })
+class LegacyProduct {
+    @Field({ type: 'keyword' })
+    name!: string;
+}
+
+@Document({ index: 'products', versioned: true })
+class Product {
+    @Field({ type: 'keyword' })
+    name!: string;
+}
+
+const product = (name: string): Product => Object.assign(new Product(), { name });
+
+describe('versioned indices', () => {
+    let client: InMemoryElasticsearchClient;
+    let repo: EsRepository<Product>;
+
+    beforeEach(() => {
+        client = new InMemoryElasticsearchClient();
+        repo = new EsRepository(client.asClient(), Product);
+    });
+
+    it('creates the first version with the read and write aliases', async () => {
+        await ensureDocumentIndex(client.asClient(), Product);
+        await repo.indexOne(product('a'), '1');
+
+        expect(await client.indices.getAlias({ name: ['products', 'products_write'] })).toEqual({
+            products_v1: { aliases: { products: {}, products_write: { is_write_index: true } } },
+        });
+        expect(client.getDocuments('products_v1')).toEqual([{ name: 'a' }]);
+    });
+
+    it('reindexes into a new version and moves both aliases', async () => {
+        await ensureDocumentIndex(client.asClient(), Product);
+        await repo.indexOne(product('a'), '1');
+
+        const result = await reindexDocument(client.asClient(), Product, { deleteOld: true });
+
+        expect(result).toEqual({
+            alias: 'products',
+            currentIndex: 'products_v2',
+            deletedPrevious: true,
+            documents: 1,
+            previousIndices: ['products_v1'],
+        });
+        expect(await client.indices.exists({ index: 'products_v1' })).toBe(false);
+
+        await repo.indexOne(product('b'), '2');
+
+        expect(client.getDocuments('products_v2')).toEqual([{ name: 'a' }, { name: 'b' }]);
+    });
+
+    describe('when an unversioned index already exists', () => {
+        beforeEach(async () => {
+            await ensureDocumentIndex(client.asClient(), LegacyProduct);
+            await new EsRepository(client.asClient(), LegacyProduct).indexOne(
+                Object.assign(new LegacyProduct(), { name: 'a' }),
+                '1',
+            );
+        });
+
+        it('writes through a write alias on the existing index', async () => {
+            await ensureDocumentIndex(client.asClient(), Product);
+            await repo.indexOne(product('b'), '2');
+
+            expect(await client.indices.exists({ index: 'products_write' })).toBe(true);
+            expect(client.getDocuments('products')).toEqual([{ name: 'a' }, { name: 'b' }]);
+            expect(await client.indices.getAlias({ name: 'products_write' })).toEqual({
+                products: { aliases: { products_write: { is_write_index: true } } },
+            });
+        });
+
+        it('migrates it to a versioned index on reindex', async () => {
+            await ensureDocumentIndex(client.asClient(), Product);
+
+            const result = await reindexDocument(client.asClient(), Product);
+
+            expect(result).toMatchObject({ currentIndex: 'products_v1', deletedPrevious: true, documents: 1 });
+            expect(await client.indices.getAlias({ name: ['products', 'products_write'] })).toEqual({
+                products_v1: { aliases: { products: {}, products_write: { is_write_index: true } } },
+            });
+            expect(await repo.findSourceById('1')).toEqual({ name: 'a' });
+        });
+
+        it('refuses a concrete index named like the write alias', async () => {
+            await client.index({ document: { name: 'b' }, id: '2', index: 'products_write' });
+
+            await expect(ensureDocumentIndex(client.asClient(), Product)).rejects.toThrow(EsReindexError);
+        });
+    });
+
+    it('rejects writes to the previous index while documents are copied', async () => {
+        await ensureDocumentIndex(client.asClient(), Product);
+        await repo.indexOne(product('a'), '1');
+
+        const reindex = client.reindex.bind(client);
+        let concurrentWrite: Promise<unknown> | undefined;
+
+        jest.spyOn(client, 'reindex').mockImplementation(async (params, options) => {
+            concurrentWrite = repo.indexOne(product('b'), '2');
+            await concurrentWrite.catch(() => undefined);
+
+            return reindex(params, options);
+        });
+
+        await reindexDocument(client.asClient(), Product);
+
+        await expect(concurrentWrite).rejects.toMatchObject({ meta: { statusCode: 403 } });
+        expect(client.getDocuments('products_v2')).toEqual([{ name: 'a' }]);
+
+        await client.index({ document: { name: 'c' }, id: '3', index: 'products_v1' });
+        expect(client.getDocuments('products_v1')).toHaveLength(2);
+    });
+
+    it('drops the new index and lifts the write block when copying fails', async () => {
+        await ensureDocumentIndex(client.asClient(), Product);
+        await repo.indexOne(product('a'), '1');
+        jest.spyOn(client, 'reindex').mockRejectedValue(new Error('boom'));
+
+        await expect(reindexDocument(client.asClient(), Product, { strategy: 'reindex' })).rejects.toThrow('boom');
+        expect(await client.indices.exists({ index: 'products_v2' })).toBe(false);
+
+        await repo.indexOne(product('b'), '2');
+        expect(client.getDocuments('products_v1')).toHaveLength(2);
+    });
+});
@@ -0,0 +1,343 @@
+import forEach from 'lodash/forEach';
+import get from 'lodash/get';
+import includes from 'lodash/includes';
+import isEmpty from 'lodash/isEmpty';
+import isNil from 'lodash/isNil';
+import keys from 'lodash/keys';
+import map from 'lodash/map';
+import max from 'lodash/max';
+import some from 'lodash/some';
+import uniq from 'lodash/uniq';
+
+import { executeBulk } from './es.bulk';
+import { ensureDataStream } from './es.data-streams';
+import { EsReindexError } from './es.errors';
+import { buildDocumentMetadata } from './es.utils';
+
+import type { BulkOperation } from './es.bulk';
+import type { ElasticsearchClient } from './es.interfaces';
+import type { IndicesUpdateAliasesAction } from '@elastic/elasticsearch/lib/api/types';
+
+export const ES_REINDEX_DEFAULT_BATCH_SIZE = 1000;
+
+export interface ReindexOptions {
+    /** Documents per scroll page when copying with the scroll/bulk strategy (default 1000) */
+    batchSize?: number;
+    /** Delete the previous physical indices after the alias swap (default false) */
+    deleteOld?: boolean;
+    /**
+     * How documents are copied: `reindex` uses the _reindex API, `scroll` uses scroll + bulk, and `auto` (default)
+     * tries _reindex and falls back to scroll + bulk when it fails.
+     */
+    strategy?: 'auto' | 'reindex' | 'scroll';
+    /** Compare document counts of the previous and new indices before swapping aliases (default true) */
+    verifyCount?: boolean;
+}
+
+export interface ReindexResult {
+    alias: string;
+    currentIndex: string;
+    deletedPrevious: boolean;
+    documents: number;
+    previousIndices: string[];
+}
+
+/**
+ * Physical index name for a given alias and version.
+ * @param {string} alias - Read alias (the @Document index)
+ * @param {number} version - Index version
+ * @returns {string} The versioned index name
+ * @example
+ * getVersionedIndexName('products', 3); // 'products_v3'
+ */
+export const getVersionedIndexName = (alias: string, version: number): string => `${alias}_v${version}`;
+
+/**
+ * Write alias name for a given read alias.
+ * @param {string} alias - Read alias (the @Document index)
+ * @returns {string} The write alias name
+ * @example
+ * getWriteAliasName('products'); // 'products_write'
+ */
+export const getWriteAliasName = (alias: string): string => `${alias}_write`;
+
+/**
+ * Parse the version of a physical index created for an alias.
+ * @param {string} alias - Read alias (the @Document index)
+ * @param {string} index - Physical index name
+ * @returns {number | undefined} The version or undefined if the index is not versioned for this alias
+ * @example
+ * parseIndexVersion('products', 'products_v3'); // 3
+ */
+export const parseIndexVersion = (alias: string, index: string): number | undefined => {
+    const prefix = `${alias}_v`;
+
+    if (!index.startsWith(prefix)) return undefined;
+
+    const version = Number(index.slice(prefix.length));
+
+    return Number.isInteger(version) && version > 0 ? version : undefined;
+};
+
+/**
+ * Resolve the physical indices behind the given aliases.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {string[]} aliases - Alias names
+ * @returns {Promise<Record<string, string[]>>} Physical index name to the subset of aliases it carries
+ */
+export const resolveAliasIndices = async (
+    client: ElasticsearchClient,
+    aliases: string[],
+): Promise<Record<string, string[]>> => {
+    const res = await client.indices.getAlias({ name: aliases }, { ignore: [404] });
+    const indices: Record<string, string[]> = {};
+
+    forEach(res, (value, index) => {
+        const names = keys(get(value, 'aliases', {})).filter((name) => includes(aliases, name));
+
+        if (!isEmpty(names)) indices[index] = names;
+    });
+
+    return indices;
+};
+
+/**
+ * Set or clear the write block of indices.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {string[]} indices - Index names
+ * @param {boolean} blocked - Whether writes are rejected
+ * @returns {Promise<void>} Promise that resolves when the setting is applied
+ */
+const setWriteBlock = async (client: ElasticsearchClient, indices: string[], blocked: boolean): Promise<void> => {
+    await client.indices.putSettings({ index: indices, settings: { 'index.blocks.write': blocked } });
+};
+
+/**
+ * Create the index for a document class if it does not exist. Versioned documents get a `<index>_v1` physical
+ * index carrying the read alias and the write alias, and data stream documents get their templates, ILM policy
+ * and data stream. A concrete index created before the document was versioned gets the write alias, and is
+ * migrated to a versioned index by the next reindexDocument.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {object} target - Class decorated with @Document
+ * @param {string} [index] - Resolved index name to use instead of the @Document index
+ * @returns {Promise<void>} Promise that resolves when the index exists
+ * @throws {EsReindexError} If the write alias name of a versioned document is taken by a concrete index
+ */
+export const ensureDocumentIndex = async (
+    client: ElasticsearchClient,
+    target: object,
+    index?: string,
+): Promise<void> => {
+    const meta = buildDocumentMetadata(target, index);
+
+    if (!meta) return;
+
+    if (meta.dataStream) {
+        await ensureDataStream(client, meta);
+
+        return;
+    }
+
+    if (!meta.versioned) {
+        await client.indices.create(
+            { index: meta.index, mappings: meta.mappings, settings: meta.settings },
+            { ignore: [400] },
+        );
+
+        return;
+    }
+
+    const writeAlias = getWriteAliasName(meta.index);
+
+    if (!isEmpty(await resolveAliasIndices(client, [meta.index, writeAlias]))) return;
+
+    if (await client.indices.exists({ index: writeAlias })) {
+        throw new EsReindexError(
+            `Index ${writeAlias} is a concrete index, not the write alias of versioned ${meta.index}: move its documents into ${meta.index} and delete it`,
+            { alias: meta.index },
+        );
+    }
+
+    if (await client.indices.exists({ index: meta.index })) {
+        await client.indices.updateAliases({
+            actions: [{ add: { alias: writeAlias, index: meta.index, is_write_index: true } }],
+        });
+
+        return;
+    }
+
+    await client.indices.create(
+        {
+            aliases: { [meta.index]: {}, [writeAlias]: { is_write_index: true } },
+            index: getVersionedIndexName(meta.index, 1),
+            mappings: meta.mappings,
+            settings: meta.settings,
+        },
+        { ignore: [400] },
+    );
+};
+
+/**
+ * Copy all documents from the source indices into the destination with scroll + bulk.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {string[]} source - Source indices
+ * @param {string} dest - Destination index
+ * @param {number} batchSize - Documents per scroll page
+ * @returns {Promise<void>} Promise that resolves when all documents are copied
+ */
+const copyWithScroll = async (
+    client: ElasticsearchClient,
+    source: string[],
+    dest: string,
+    batchSize: number,
+): Promise<void> => {
+    let res = await client.search({ index: source, scroll: '1m', size: batchSize, sort: ['_doc'] });
+    let scrollId = res._scroll_id;
+
+    try {
+        while (!isEmpty(res.hits.hits)) {
+            const operations = map(res.hits.hits, (hit): BulkOperation => ({
+                id: hit._id ?? undefined,
+                action: 'index',
+                body: hit._source as Record<string, unknown>,
+                index: dest,
+                meta: isNil(hit._routing) ? undefined : { routing: hit._routing },
+            }));
+
+            await executeBulk(client, operations, { throwOnError: true });
+
+            if (isNil(scrollId)) break;
+
+            res = await client.scroll({ scroll: '1m', scroll_id: scrollId });
+            scrollId = res._scroll_id ?? scrollId;
+        }
+    } finally {
+        if (!isNil(scrollId)) await client.clearScroll({ scroll_id: scrollId }, { ignore: [404] });
+    }
+};
+
+/**
+ * Copy all documents from the source indices into the destination with the _reindex API.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {string[]} source - Source indices
+ * @param {string} dest - Destination index
+ * @returns {Promise<void>} Promise that resolves when all documents are copied
+ * @throws {Error} If _reindex reports failures
+ */
+const copyWithReindex = async (client: ElasticsearchClient, source: string[], dest: string): Promise<void> => {
+    const res = await client.reindex({
+        dest: { index: dest },
+        refresh: true,
+        source: { index: source },
+        wait_for_completion: true,
+    });
+    const failures = get(res, 'failures', []);
+
+    if (!isEmpty(failures)) throw new Error(`_reindex reported ${failures.length} failures`);
+};
+
+/**
+ * Reindex a versioned document into a new physical index built from the current decorators, then atomically move
+ * the read and write aliases to it. A legacy concrete index named like the alias is replaced in the same request.
+ * The previous indices are write-blocked while documents are copied, so writes made meanwhile fail with a 403
+ * `cluster_block_exception` instead of being lost; the block is lifted from previous indices that are kept.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {object} target - Class decorated with @Document({ versioned: true })
+ * @param {ReindexOptions} [options] - Copy strategy, verification and cleanup options
+ * @param {string} [index] - Resolved read alias to use instead of the @Document index
+ * @returns {Promise<ReindexResult>} The previous and current physical indices
+ * @throws {EsReindexError} If the document is not versioned or document counts do not match after copying
+ * @example
+ * const result = await reindexDocument(client, Product, { deleteOld: true });
+ * console.log(result.currentIndex); // 'products_v4'
+ */
+export const reindexDocument = async (
+    client: ElasticsearchClient,
+    target: object,
+    options?: ReindexOptions,
+    index?: string,
+): Promise<ReindexResult> => {
+    const meta = buildDocumentMetadata(target, index);
+
+    if (!meta) throw new EsReindexError('Missing @Document metadata for reindex target');
+
+    const alias = meta.index;
+
+    if (!meta.versioned) {
+        throw new EsReindexError(`@Document({ index: '${alias}' }) must set versioned: true to be reindexed`, {
+            alias,
+        });
+    }
+
+    const writeAlias = getWriteAliasName(alias);
+    const aliased = await resolveAliasIndices(client, [alias, writeAlias]);
+    const legacy = !some(aliased, (names) => includes(names, alias)) && (await client.indices.exists({ index: alias }));
+    const previousIndices = legacy ? uniq([alias, ...keys(aliased)]) : keys(aliased);
+    const batchSize = get(options, 'batchSize', ES_REINDEX_DEFAULT_BATCH_SIZE);
+    const version = (max(map(previousIndices, (index) => parseIndexVersion(alias, index) ?? 0)) ?? 0) + 1;
+    const currentIndex = getVersionedIndexName(alias, version);
+    const strategy = get(options, 'strategy', 'auto');
+    let documents = 0;
+
+    await client.indices.create({ index: currentIndex, mappings: meta.mappings, settings: meta.settings });
+
+    try {
+        if (!isEmpty(previousIndices)) {
+            await setWriteBlock(client, previousIndices, true);
+
+            if (strategy === 'scroll') {
+                await copyWithScroll(client, previousIndices, currentIndex, batchSize);
+            } else {
+                await copyWithReindex(client, previousIndices, currentIndex).catch(async (error: unknown) => {
+                    if (strategy === 'reindex') throw error;
+
+                    await copyWithScroll(client, previousIndices, currentIndex, batchSize);
+                });
+            }
+
+            await client.indices.refresh({ index: currentIndex });
+
+            const sourceCount = get(await client.count({ index: previousIndices }), 'count', 0);
+
+            documents = get(await client.count({ index: currentIndex }), 'count', 0);
+
+            if (get(options, 'verifyCount', true) && sourceCount !== documents) {
+                throw new EsReindexError(
+                    `Document count mismatch after reindexing ${alias}: ${sourceCount} in source, ${documents} in ${currentIndex}`,
+                    { alias, currentIndex, sourceCount, targetCount: documents },
+                );
+            }
+        }
+    } catch (error) {
+        await client.indices.delete({ index: currentIndex }, { ignore: [404] });
+
+        if (!isEmpty(previousIndices)) await setWriteBlock(client, previousIndices, false).catch(() => undefined);
+
+        throw error;
+    }
+
+    const actions: IndicesUpdateAliasesAction[] = [];
+
+    forEach(aliased, (names, index) => {
+        if (legacy && index === alias) return;
+
+        forEach(names, (name) => {
+            actions.push({ remove: { alias: name, index } });
+        });
+    });
+
+    if (legacy) actions.push({ remove_index: { index: alias } });
+
+    actions.push({ add: { alias, index: currentIndex } });
+    actions.push({ add: { alias: writeAlias, index: currentIndex, is_write_index: true } });
+    await client.indices.updateAliases({ actions });
+
+    const deleteOld = get(options, 'deleteOld', false);
+    const deletedPrevious = legacy || (deleteOld && !isEmpty(previousIndices));
+    const remaining = legacy ? previousIndices.filter((index) => index !== alias) : previousIndices;
+
+    if (!isEmpty(remaining) && deleteOld) await client.indices.delete({ index: remaining }, { ignore: [404] });
+    else if (!isEmpty(remaining)) await setWriteBlock(client, remaining, false);
+
+    return { alias, currentIndex, deletedPrevious, documents, previousIndices };
+};
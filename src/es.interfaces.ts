@@ -1,11 +1,51 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type { InjectionToken, LoggerService, ModuleMetadata, OptionalFactoryDependency } from '@nestjs/common';
 
-import type { Client, ClientOptions } from '@elastic/elasticsearch';
+import type { EsAnalysisDefinition } from './es.analysis';
+import type { EsIlmPolicyOptions } from './es.data-streams';
+import type { EsIndexNameResolver } from './es.index-names';
+import type { EsMetricsOptions } from './es.metrics';
+import type { EsNamingStrategy } from './es.naming';
+import type { SchemaSyncMode } from './es.schema-sync';
+import type { EsTenancyOptions } from './es.tenancy';
+import type { EsValueTransformer } from './es.transformers';
+import type { Client, ClientOptions, Transport } from '@elastic/elasticsearch';
+import type { FieldSort, QueryDslQueryContainer, SearchSourceConfig, Sort } from '@elastic/elasticsearch/lib/api/types';
 
 export type ElasticsearchClient = Client;
 
-export type ElasticsearchClientOptions = ClientOptions & { name?: string };
+export type ElasticsearchClientOptions = ClientOptions & {
+    name?: string;
+    /** Record request/response pairs to a fixture file, or replay them without a cluster (replaces `Transport`) */
+    recording?: EsRecordingOptions;
+};
+
+/**
+ * `record` forwards requests to the cluster and writes every request/response pair to the fixture file, replacing
+ * its previous content; `replay` answers from the fixture file without any network access.
+ */
+export type EsRecordingMode = 'record' | 'replay';
+
+export interface EsRecordedRequest {
+    body?: unknown;
+    method: string;
+    path: string;
+    querystring?: Record<string, string>;
+}
+
+export interface EsRecordingOptions {
+    mode: EsRecordingMode;
+    /**
+     * Rewrite requests before they are keyed and stored, e.g. to drop timestamps or generated ids that differ
+     * between runs. Applied identically when recording and replaying.
+     */
+    normalize?: (request: EsRecordedRequest) => EsRecordedRequest;
+    /** NDJSON fixture file, one recording per line; resolved from the working directory */
+    path: string;
+}
+
+/** Builds the transport class of clients configured with `recording` */
+export type EsRecordingTransportFactory = (options: EsRecordingOptions) => typeof Transport;
 
 export interface ElasticsearchModuleAsyncOptions<TArgs extends readonly any[] = readonly any[]>
     extends Pick<ModuleMetadata, 'imports'> {
@@ -24,8 +64,29 @@ export interface ElasticsearchModuleOptions {
     documents?: Array<abstract new (...args: any[]) => object>;
     /** When true, auto-create indices for provided documents on module init (idempotent) */
     autoCreateIndices?: boolean;
+    /** Maps @Document indices to physical read/write targets (prefixes, date suffixes); forFeature may override it */
+    indexNameResolver?: EsIndexNameResolver;
     /** Optional Nest logger to receive client lifecycle/response messages */
     logger?: LoggerService;
+    /** Record request count, errors, latency and bulk item failures of every client through a metrics sink */
+    metrics?: EsMetricsOptions;
+    /**
+     * Compare provided documents with their live indices on module init (default 'off').
+     * 'verify' logs drift, 'additive' applies new fields/dynamic settings and logs breaking drift, 'fail' throws on any drift.
+     */
+    schemaSync?: SchemaSyncMode;
+    /**
+     * Tenant isolation of repositories (index per tenant or a shared, filtered index); forFeature may override it.
+     * Documents are not auto-created with the index strategy since tenant indices are ensured per tenant.
+     */
+    tenancy?: EsTenancyOptions;
+}
+
+export interface ElasticsearchFeatureOptions {
+    /** Index name resolver for the repositories of this feature, instead of the module one */
+    indexNameResolver?: EsIndexNameResolver;
+    /** Tenancy of the repositories of this feature, instead of the module one */
+    tenancy?: EsTenancyOptions;
 }
 
 export type ESClientNamesFromOptions<T extends { clients: ReadonlyArray<{ name?: string }> }> =
@@ -34,20 +95,85 @@ export type ESClientNamesFromOptions<T extends { clients: ReadonlyArray<{ name?:
 
 export type ESClientNamesFromPredeclare<TNames extends ReadonlyArray<string>> = 'default' | Lowercase<TNames[number]>;
 
+// Query interfaces
+/** Data property names of an entity (methods excluded), used to constrain field references. */
+export type DocumentField<T> = {
+    [K in keyof T]-?: T[K] extends (...args: any[]) => unknown ? never : K;
+}[keyof T] &
+    string;
+
+/** A document field or a dotted path below it (object properties, multi-fields such as `name.keyword`). */
+export type DocumentFieldPath<T> = `${DocumentField<T>}.${string}` | DocumentField<T>;
+
+export type EsSortField<T> = '_doc' | '_score' | DocumentFieldPath<T>;
+
+export type EsSortOptions = Omit<FieldSort, 'order'>;
+
+export interface EsIterateOptions {
+    /** Documents per search_after page (default 1000) */
+    batchSize?: number;
+    /** Point-in-time keep alive between pages (default '1m') */
+    keepAlive?: string;
+    /** Sort applied before the implicit `_shard_doc` tiebreaker (defaults to the query builder sort, if any) */
+    sort?: Sort;
+}
+
+export interface EsSearchParams {
+    _source?: SearchSourceConfig;
+    from?: number;
+    q?: string;
+    query?: QueryDslQueryContainer;
+    seq_no_primary_term?: boolean;
+    size?: number;
+    sort?: Sort;
+    version?: boolean;
+}
+
 // Document decorator interfaces
 export interface DocumentMetadata {
+    dataStream?: boolean;
     fields?: Map<string | symbol, FieldOptions>;
+    ilm?: EsIlmPolicyOptions;
     index: string;
     mappings?: Record<string, unknown>;
+    naming?: EsNamingStrategy;
     settings?: Record<string, unknown>;
     type?: string;
+    versioned?: boolean;
 }
 
 export interface DocumentOptions {
+    /** Analysis components (analyzers, normalizers, tokenizers, filters) merged into `settings.analysis` */
+    analysis?: EsAnalysisDefinition;
+    /**
+     * When true, `index` is a data stream for append-only time-series documents (documents need an `@timestamp`
+     * field). Ensuring the index provisions an index template, component templates and the ILM policy, and writes
+     * use `op_type: create`.
+     */
+    dataStream?: boolean;
+    /** ILM policy attached to the data stream backing indices */
+    ilm?: EsIlmPolicyOptions;
     index: string;
+    /** Analyzer and normalizer names defined outside the document (plugins, index templates), accepted by validation */
+    knownAnalyzers?: string[];
     mappings?: Record<string, unknown>;
+    /**
+     * How @Field property names map to Elasticsearch field names (`snake_case`, `camelCase` or a function), applied
+     * to sub-documents too. `@Field({ name })` takes precedence. Properties are used verbatim when omitted.
+     */
+    naming?: EsNamingStrategy;
     settings?: Record<string, unknown>;
+    /**
+     * When true, a field referencing an analyzer or normalizer that is neither defined, built in, nor listed in
+     * `knownAnalyzers` throws EsAnalysisError. Otherwise it is logged as a warning once (default false).
+     */
+    strictAnalysis?: boolean;
     type?: string;
+    /**
+     * When true, `index` is a read alias over versioned physical indices (`<index>_v<n>`), writes go through the
+     * `<index>_write` alias, and the repository can reindex with zero downtime.
+     */
+    versioned?: boolean;
 }
 
 export interface FieldOptions {
@@ -67,12 +193,15 @@ export interface FieldOptions {
     ignore_malformed?: boolean;
     ignore_z_value?: boolean;
     index?: boolean;
+    index_options?: 'docs' | 'freqs' | 'offsets' | 'positions';
     locale?: string;
     max_gram?: number;
     max_input_length?: number;
     max_shingle_size?: number;
     meta?: Record<string, string>;
     min_gram?: number;
+    /** Elasticsearch field name when it differs from the property name. Not sent to Elasticsearch. */
+    name?: string;
     normalizer?: string;
     norms?: boolean;
     null_value?: unknown;
@@ -83,9 +212,17 @@ export interface FieldOptions {
     relations?: Record<string, string | string[]>;
     scaling_factor?: number;
     search_analyzer?: string;
+    search_quote_analyzer?: string;
     similarity?: string;
     store?: boolean;
+    /**
+     * Class of an object/nested sub-document (set by @ObjectField/@NestedField). Not sent to Elasticsearch: its
+     * @Field metadata generates `properties`, and hydration rebuilds instances of it.
+     */
+    target?: () => abstract new (...args: any[]) => object;
     term_vector?: 'no' | 'with_offsets' | 'with_positions' | 'with_positions_offsets' | 'yes';
+    /** Converts the property value on write and back on read. Not sent to Elasticsearch. */
+    transformer?: EsValueTransformer;
     type?:
         | 'alias'
         | 'binary'
@@ -132,6 +269,20 @@ export interface FieldOptions {
         | 'wildcard';
 }
 
+export interface DeletedAtFieldMetadata {
+    property: string | symbol;
+}
+
+export interface IdFieldMetadata<T extends object = object> {
+    /** Derives the document id from the entity (composite ids); the property value is used when omitted */
+    derive?: (entity: T) => string | undefined;
+    property: string | symbol;
+}
+
+export interface VersionFieldMetadata {
+    property: string | symbol;
+}
+
 export interface IndexOptions {
     name: string;
     settings?: {
@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+
+import { instrumentElasticsearchClient, toMetricTarget } from './es.metrics';
+
+import type { ElasticsearchClient } from './es.interfaces';
+import type { EsMetricsSink } from './es.metrics';
+
+describe('toMetricTarget', () => {
+    it.each([
+        ['PUT', '/products/_doc/p-1', 'index', 'products'],
+        ['POST', '/products/_doc', 'index', 'products'],
+        ['GET', '/products/_doc/p-1', 'get', 'products'],
+        ['HEAD', '/products/_doc/p-1', 'exists', 'products'],
+        ['DELETE', '/products/_doc/p-1', 'delete', 'products'],
+        ['POST', '/products/_pit?keep_alive=1m', 'open_point_in_time', 'products'],
+        ['DELETE', '/_pit', 'close_point_in_time', ''],
+        ['GET', '/_cluster/health', 'cluster.health', ''],
+        ['GET', '/_cat/indices/products', 'cat.indices', ''],
+        ['GET', '/_cluster', 'cluster', ''],
+        ['PUT', '/products', 'indices.create', 'products'],
+        ['HEAD', '/products', 'indices.exists', 'products'],
+        ['DELETE', '/products', 'indices.delete', 'products'],
+        ['GET', '/products', 'indices.get', 'products'],
+        ['POST', '/logs-%2A/_search', 'search', 'logs-*'],
+        ['POST', '/_bulk', 'bulk', ''],
+        ['HEAD', '/', 'ping', ''],
+        ['GET', '/', 'info', ''],
+    ])('labels %s %s as %s on "%s"', (method, path, api, index) => {
+        expect(toMetricTarget(method, path)).toEqual({ api, index });
+    });
+});
+
+describe('instrumentElasticsearchClient', () => {
+    it('counts failed bulk items per target index', () => {
+        const diagnostic = new EventEmitter();
+        const sink: EsMetricsSink = { countBulkItemFailures: jest.fn(), observeRequest: jest.fn() };
+        const result = {
+            body: {
+                errors: true,
+                items: [
+                    { index: { _index: 'orders-2026.10', status: 201 } },
+                    { index: { _index: 'orders-2026.10', error: { type: 'mapper_parsing_exception' }, status: 400 } },
+                    { update: { _index: 'orders-2026.10', error: { type: 'version_conflict' }, status: 409 } },
+                    { delete: { _index: 'products', error: { type: 'es_rejected_execution' }, status: 429 } },
+                ],
+            },
+            meta: { request: { params: { method: 'POST', path: '/_bulk' } } },
+        };
+
+        instrumentElasticsearchClient({ diagnostic } as unknown as ElasticsearchClient, 'default', {
+            indexLabel: (index) => index.replace(/-\d{4}\.\d{2}$/, ''),
+            sink,
+        });
+        diagnostic.emit('request', null, result);
+        diagnostic.emit('response', null, result);
+
+        expect(sink.observeRequest).toHaveBeenCalledWith(
+            { api: 'bulk', client: 'default', index: '' },
+            expect.any(Number),
+            undefined,
+        );
+        expect(sink.countBulkItemFailures).toHaveBeenCalledTimes(2);
+        expect(sink.countBulkItemFailures).toHaveBeenCalledWith({ api: 'bulk', client: 'default', index: 'orders' }, 2);
+        expect(sink.countBulkItemFailures).toHaveBeenCalledWith(
+            { api: 'bulk', client: 'default', index: 'products' },
+            1,
+        );
+    });
+});
@@ -0,0 +1,281 @@
+import filter from 'lodash/filter';
+import forEach from 'lodash/forEach';
+import get from 'lodash/get';
+import includes from 'lodash/includes';
+import isNil from 'lodash/isNil';
+import split from 'lodash/split';
+import startsWith from 'lodash/startsWith';
+import toPairs from 'lodash/toPairs';
+
+import type { ElasticsearchClient } from './es.interfaces';
+import type { DiagnosticResult } from '@elastic/elasticsearch';
+
+export const ES_METRICS_DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Path namespaces whose API name includes the following segment, e.g. `cluster.health` */
+const NAMESPACED_APIS = ['_cat', '_cluster', '_ilm', '_ingest', '_nodes', '_snapshot', '_tasks'];
+
+export interface EsMetricLabels {
+    /** API called, derived from the request method and path (e.g. 'search', 'bulk', 'indices.create') */
+    api: string;
+    /** ElasticsearchService client name */
+    client: string;
+    /** Target index, alias or pattern as sent (after indexLabel), empty for cluster-level APIs */
+    index: string;
+}
+
+/**
+ * Receives the measurements of instrumented clients. Implement it to export to another backend, or use
+ * createPrometheusMetricsSink / createOpenTelemetryMetricsSink.
+ */
+export interface EsMetricsSink {
+    /** Bulk items that failed in a bulk response, per target index */
+    countBulkItemFailures(labels: EsMetricLabels, count: number): void;
+    /** A request completed; `error` is the status code or error name when it failed */
+    observeRequest(labels: EsMetricLabels, durationSeconds: number, error?: string): void;
+}
+
+export interface EsMetricsOptions {
+    /** Map index names to label values, e.g. to collapse dated or per-tenant indices and bound cardinality */
+    indexLabel?: (index: string) => string;
+    sink: EsMetricsSink;
+}
+
+/** The subset of the prom-client module used by the Prometheus sink */
+export interface EsPromClientLike {
+    Counter: new (config: { help: string; labelNames: string[]; name: string; registers?: unknown[] }) => {
+        inc(labels: Record<string, string>, value?: number): void;
+    };
+    Histogram: new (config: {
+        buckets?: number[];
+        help: string;
+        labelNames: string[];
+        name: string;
+        registers?: unknown[];
+    }) => { observe(labels: Record<string, string>, value: number): void };
+}
+
+export interface EsPrometheusSinkOptions {
+    /** Histogram buckets of the request duration in seconds */
+    buckets?: number[];
+    /** Metric name prefix (default 'elasticsearch_') */
+    prefix?: string;
+    /** prom-client registries to register the metrics in (default registry when omitted) */
+    registers?: unknown[];
+}
+
+/** The subset of an OpenTelemetry `Meter` used by the OpenTelemetry sink */
+export interface EsOtelMeterLike {
+    createCounter(
+        name: string,
+        options?: { description?: string; unit?: string },
+    ): { add(value: number, attributes?: Record<string, string>): void };
+    createHistogram(
+        name: string,
+        options?: { description?: string; unit?: string },
+    ): { record(value: number, attributes?: Record<string, string>): void };
+}
+
+export interface EsOpenTelemetrySinkOptions {
+    /** Instrument name prefix (default 'elasticsearch.client.') */
+    prefix?: string;
+}
+
+/**
+ * Derive the API name and target of a request from its method and path.
+ * @param {string} method - HTTP method
+ * @param {string} path - Request path
+ * @returns {{ api: string; index: string }} The API name and target ('' for cluster-level APIs)
+ * @example
+ * toMetricTarget('POST', '/products/_search'); // { api: 'search', index: 'products' }
+ * toMetricTarget('PUT', '/products'); // { api: 'indices.create', index: 'products' }
+ * toMetricTarget('GET', '/_cluster/health'); // { api: 'cluster.health', index: '' }
+ */
+export const toMetricTarget = (method: string, path: string): { api: string; index: string } => {
+    const segments = filter(split(split(path, '?')[0], '/'), (s) => s !== '');
+    const index = segments.length > 0 && !startsWith(segments[0], '_') ? decodeURIComponent(segments[0]) : '';
+    const endpoint = segments.find((s) => startsWith(s, '_'));
+    const verb = method.toUpperCase();
+
+    if (isNil(endpoint)) {
+        if (index === '') return { api: verb === 'HEAD' ? 'ping' : 'info', index };
+
+        const indexApis: Record<string, string> = { DELETE: 'delete', HEAD: 'exists', PUT: 'create' };
+
+        return { api: `indices.${indexApis[verb] ?? 'get'}`, index };
+    }
+    if (endpoint === '_doc') {
+        const docApis: Record<string, string> = { DELETE: 'delete', GET: 'get', HEAD: 'exists' };
+
+        return { api: docApis[verb] ?? 'index', index };
+    }
+    if (endpoint === '_pit' && verb === 'DELETE') return { api: 'close_point_in_time', index };
+    if (endpoint === '_pit') return { api: 'open_point_in_time', index };
+
+    const next = segments[segments.indexOf(endpoint) + 1];
+    const api = includes(NAMESPACED_APIS, endpoint) && !isNil(next) ? `${endpoint}.${next}` : endpoint;
+
+    return { api: api.slice(1), index };
+};
+
+/**
+ * Report the failed items of a bulk response per target index.
+ * @param {DiagnosticResult} result - Bulk response
+ * @param {EsMetricLabels} labels - Request labels
+ * @param {EsMetricsSink} sink - Metrics sink
+ * @param {(index: string) => string} toIndexLabel - Index label mapping
+ * @returns {void}
+ */
+const countBulkFailures = (
+    result: DiagnosticResult,
+    labels: EsMetricLabels,
+    sink: EsMetricsSink,
+    toIndexLabel: (index: string) => string,
+): void => {
+    if (get(result.body, 'errors') !== true) return;
+
+    const failures = new Map<string, number>();
+
+    forEach(get(result.body, 'items', []) as Array<Record<string, { _index?: string; error?: unknown }>>, (item) => {
+        const [, outcome] = toPairs(item)[0] ?? [];
+
+        if (isNil(outcome?.error)) return;
+
+        const index = toIndexLabel(outcome._index ?? labels.index);
+
+        failures.set(index, (failures.get(index) ?? 0) + 1);
+    });
+    failures.forEach((count, index) => sink.countBulkItemFailures({ ...labels, index }, count));
+};
+
+/**
+ * Record request count, errors, latency and bulk item failures of a client through a metrics sink. Hooks the
+ * client diagnostic `request`/`response` events; retries of a request are measured as one request.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {string} name - Client name used as the `client` label
+ * @param {EsMetricsOptions} options - Sink and index label mapping
+ * @returns {void}
+ * @example
+ * instrumentElasticsearchClient(client, 'default', { sink: createPrometheusMetricsSink(promClient) });
+ */
+export const instrumentElasticsearchClient = (
+    client: ElasticsearchClient,
+    name: string,
+    options: EsMetricsOptions,
+): void => {
+    const diagnostic = (client as Partial<Pick<ElasticsearchClient, 'diagnostic'>>).diagnostic;
+
+    if (!diagnostic) return;
+
+    const starts = new WeakMap<object, bigint>();
+    const toIndexLabel = (index: string) => (index === '' || !options.indexLabel ? index : options.indexLabel(index));
+
+    diagnostic.on('request', (_err, result) => {
+        if (result && !starts.has(result.meta)) starts.set(result.meta, process.hrtime.bigint());
+    });
+    diagnostic.on('response', (err, result) => {
+        if (!result) return;
+
+        const params = result.meta.request.params;
+        const target = toMetricTarget(params.method, params.path);
+        const labels: EsMetricLabels = { api: target.api, client: name, index: toIndexLabel(target.index) };
+        const start = starts.get(result.meta);
+        const seconds = isNil(start) ? 0 : Number(process.hrtime.bigint() - start) / 1e9;
+        const statusCode = get(err, 'statusCode') ?? get(err, 'meta.statusCode');
+
+        options.sink.observeRequest(labels, seconds, isNil(err) ? undefined : String(statusCode ?? err.name));
+
+        if (target.api === 'bulk' && isNil(err)) countBulkFailures(result, labels, options.sink, toIndexLabel);
+    });
+};
+
+/**
+ * Metrics sink exporting prom-client counters and a histogram: `<prefix>requests_total`,
+ * `<prefix>request_errors_total` (with an `error` label), `<prefix>request_duration_seconds` and
+ * `<prefix>bulk_item_failures_total`, labeled by client, index and api.
+ * @param {EsPromClientLike} promClient - The prom-client module
+ * @param {EsPrometheusSinkOptions} [options] - Prefix, buckets and registries
+ * @returns {EsMetricsSink} The metrics sink
+ * @example
+ * import * as promClient from 'prom-client';
+ * ElasticsearchModule.forRoot({ clients, metrics: { sink: createPrometheusMetricsSink(promClient) } });
+ */
+export const createPrometheusMetricsSink = (
+    promClient: EsPromClientLike,
+    options: EsPrometheusSinkOptions = {},
+): EsMetricsSink => {
+    const prefix = options.prefix ?? 'elasticsearch_';
+    const labelNames = ['api', 'client', 'index'];
+    const registers = options.registers;
+    const requests = new promClient.Counter({
+        help: 'Elasticsearch requests',
+        labelNames,
+        name: `${prefix}requests_total`,
+        registers,
+    });
+    const errors = new promClient.Counter({
+        help: 'Failed Elasticsearch requests',
+        labelNames: [...labelNames, 'error'],
+        name: `${prefix}request_errors_total`,
+        registers,
+    });
+    const duration = new promClient.Histogram({
+        buckets: options.buckets ?? ES_METRICS_DEFAULT_BUCKETS,
+        help: 'Elasticsearch request duration in seconds',
+        labelNames,
+        name: `${prefix}request_duration_seconds`,
+        registers,
+    });
+    const bulkFailures = new promClient.Counter({
+        help: 'Failed Elasticsearch bulk items',
+        labelNames,
+        name: `${prefix}bulk_item_failures_total`,
+        registers,
+    });
+
+    return {
+        countBulkItemFailures: (labels, count) => bulkFailures.inc({ ...labels }, count),
+        observeRequest: (labels, durationSeconds, error) => {
+            requests.inc({ ...labels });
+            duration.observe({ ...labels }, durationSeconds);
+
+            if (!isNil(error)) errors.inc({ ...labels, error });
+        },
+    };
+};
+
+/**
+ * Metrics sink recording OpenTelemetry instruments: `<prefix>requests`, `<prefix>errors` (with an `error`
+ * attribute), `<prefix>duration` in seconds and `<prefix>bulk_item_failures`, with client, index and api
+ * attributes.
+ * @param {EsOtelMeterLike} meter - OpenTelemetry meter
+ * @param {EsOpenTelemetrySinkOptions} [options] - Instrument name prefix
+ * @returns {EsMetricsSink} The metrics sink
+ * @example
+ * const sink = createOpenTelemetryMetricsSink(metrics.getMeter('catalog'));
+ */
+export const createOpenTelemetryMetricsSink = (
+    meter: EsOtelMeterLike,
+    options: EsOpenTelemetrySinkOptions = {},
+): EsMetricsSink => {
+    const prefix = options.prefix ?? 'elasticsearch.client.';
+    const requests = meter.createCounter(`${prefix}requests`, { description: 'Elasticsearch requests' });
+    const errors = meter.createCounter(`${prefix}errors`, { description: 'Failed Elasticsearch requests' });
+    const duration = meter.createHistogram(`${prefix}duration`, {
+        description: 'Elasticsearch request duration',
+        unit: 's',
+    });
+    const bulkFailures = meter.createCounter(`${prefix}bulk_item_failures`, {
+        description: 'Failed Elasticsearch bulk items',
+    });
+
+    return {
+        countBulkItemFailures: (labels, count) => bulkFailures.add(count, { ...labels }),
+        observeRequest: (labels, durationSeconds, error) => {
+            requests.add(1, { ...labels });
+            duration.record(durationSeconds, { ...labels });
+
+            if (!isNil(error)) errors.add(1, { ...labels, error });
+        },
+    };
+};
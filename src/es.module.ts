@@ -1,18 +1,28 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { DynamicModule, Global, Module, OnModuleInit, Provider } from '@nestjs/common';
+import { DynamicModule, Global, Logger, Module, OnModuleInit, Provider } from '@nestjs/common';
 
 import defaultTo from 'lodash/defaultTo';
+import difference from 'lodash/difference';
+import forEach from 'lodash/forEach';
 import get from 'lodash/get';
 import isEmpty from 'lodash/isEmpty';
 import map from 'lodash/map';
 import toArray from 'lodash/toArray';
 
 import { ES_DEFAULT_CLIENT_NAME, ES_MODULE_OPTIONS, getElasticsearchClientToken } from './es.constants';
+import { resolveIndexNames } from './es.index-names';
+import { ensureDocumentIndex } from './es.indices';
 import { createElasticsearchProviders } from './es.providers';
+import { syncDocumentSchema } from './es.schema-sync';
 import { ElasticsearchService } from './es.service';
-import { buildDocumentMetadata, normalizeName } from './es.utils';
+import { normalizeName } from './es.utils';
 
-import type { ElasticsearchClient, ElasticsearchModuleAsyncOptions, ElasticsearchModuleOptions } from './es.interfaces';
+import type {
+    ElasticsearchClient,
+    ElasticsearchFeatureOptions,
+    ElasticsearchModuleAsyncOptions,
+    ElasticsearchModuleOptions,
+} from './es.interfaces';
 
 /**
  * Create client providers for the given Elasticsearch module options.
@@ -48,33 +58,49 @@ class EsIndexInitializer implements OnModuleInit {
     ) {}
 
     /**
-     * Initialize indices on module startup if autoCreateIndices is enabled.
+     * Initialize indices on module startup if autoCreateIndices is enabled, then check them for drift against
+     * their decorators according to the schemaSync option. Index names go through the module indexNameResolver.
+     * Nothing is done with index-per-tenant tenancy: tenant indices are ensured through tenant-scoped repositories.
      * @returns {Promise<void>} Promise that resolves when initialization completes
+     * @throws {EsSchemaSyncError} In 'fail' schema sync mode, if an index differs from its decorators
      */
     async onModuleInit(): Promise<void> {
-        if (!get(this.options, 'autoCreateIndices')) return;
+        const documents = toArray(defaultTo(get(this.options, 'documents'), []));
 
-        const documents = defaultTo(get(this.options, 'documents'), []);
-
-        if (isEmpty(documents)) return;
+        if (isEmpty(documents) || get(this.options, 'tenancy.strategy') === 'index') return;
 
         const client = this.service.get();
-        const creations: Array<Promise<unknown>> = [];
-
-        for (const doc of toArray(documents)) {
-            const meta = buildDocumentMetadata(doc);
-
-            if (!meta) continue;
+        const resolverOptions = {
+            clientName: ES_DEFAULT_CLIENT_NAME,
+            indexNameResolver: get(this.options, 'indexNameResolver'),
+        };
 
-            creations.push(
-                client.indices.create(
-                    { index: get(meta, 'index'), mappings: get(meta, 'mappings'), settings: get(meta, 'settings') },
-                    { ignore: [400] },
-                ),
+        if (get(this.options, 'autoCreateIndices')) {
+            const creations = map(documents, (doc) =>
+                ensureDocumentIndex(client, doc, resolveIndexNames(doc, resolverOptions).write),
             );
+
+            await Promise.allSettled(creations);
         }
 
-        await Promise.allSettled(creations);
+        const mode = get(this.options, 'schemaSync', 'off');
+
+        if (mode === 'off') return;
+
+        const logger = get(this.options, 'logger') ?? new Logger(ElasticsearchModule.name);
+
+        for (const doc of documents) {
+            const report = await syncDocumentSchema(client, doc, mode, resolveIndexNames(doc, resolverOptions).write);
+
+            forEach(report.applied, (d) => {
+                logger.log(`Elasticsearch index ${report.index}: applied ${d.kind} at ${d.path}`);
+            });
+            forEach(difference(report.differences, report.applied), (d) => {
+                logger.warn(
+                    `Elasticsearch index ${report.index}: ${d.breaking ? 'breaking' : 'additive'} ${d.kind} at ${d.path}`,
+                );
+            });
+        }
     }
 }
 
@@ -85,18 +111,23 @@ class EsIndexInitializer implements OnModuleInit {
 @Module({})
 export class ElasticsearchModule {
     /**
-     * Register entity repositories for a specific feature module.
-     * @param {Array<abstract new (...args: any[]) => object>} [entities=[]] - Array of entity constructors
+     * Register entity repositories or custom repository classes (decorated with @EsEntityRepository) for a specific
+     * feature module.
+     * @param {Array<abstract new (...args: any[]) => object>} [entities=[]] - Array of entity or repository constructors
      * @param {string} [clientName] - Optional client name to use for repositories
+     * @param {ElasticsearchFeatureOptions} [options] - Feature options (index name resolver and tenancy overriding the module ones)
      * @returns {DynamicModule} Dynamic module configuration
      * @example
      * ElasticsearchModule.forFeature([User, Product], 'secondary');
+     * ElasticsearchModule.forFeature([ProductRepository], 'analytics');
+     * ElasticsearchModule.forFeature([ClickEvent], undefined, { indexNameResolver: datedIndexName('yyyy.MM.dd') });
      */
     static forFeature(
         entities: Array<abstract new (...args: any[]) => object> = [],
         clientName?: string,
+        options?: ElasticsearchFeatureOptions,
     ): DynamicModule {
-        const providers = createElasticsearchProviders(entities, clientName);
+        const providers = createElasticsearchProviders(entities, clientName, options);
 
         return {
             providers: providers,
@@ -144,6 +175,7 @@ export class ElasticsearchModule {
         return {
             providers: [optionProvider, serviceProvider, indexInitializerProvider, defaultProvider, ...clientProviders],
             exports: [
+                ES_MODULE_OPTIONS,
                 ElasticsearchService,
                 getElasticsearchClientToken(ES_DEFAULT_CLIENT_NAME),
                 ...map(get(options, 'clients', []), (c) => getElasticsearchClientToken(normalizeName(get(c, 'name')))),
@@ -217,6 +249,7 @@ export class ElasticsearchModule {
                 );
 
                 return [
+                    ES_MODULE_OPTIONS,
                     ElasticsearchService,
                     getElasticsearchClientToken(ES_DEFAULT_CLIENT_NAME),
                     ...predeclaredTokens,
@@ -0,0 +1,47 @@
+import camelCase from 'lodash/camelCase';
+import isFunction from 'lodash/isFunction';
+import toLower from 'lodash/toLower';
+
+import type { FieldOptions } from './es.interfaces';
+
+export type EsNamingStrategy = 'camelCase' | 'snake_case' | ((property: string) => string);
+
+/**
+ * Convert a property name to snake_case, keeping digits attached to the preceding word.
+ * @param {string} property - Property name
+ * @returns {string} The snake_case name
+ * @example
+ * toSnakeCase('productName'); // 'product_name'
+ * toSnakeCase('address2Line'); // 'address2_line'
+ */
+const toSnakeCase = (property: string): string =>
+    toLower(property.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2'));
+
+/**
+ * Apply a naming strategy to a property name.
+ * @param {string} property - Property name
+ * @param {EsNamingStrategy} [naming] - Naming strategy (property names are used verbatim when omitted)
+ * @returns {string} The Elasticsearch field name
+ * @example
+ * applyNamingStrategy('productName', 'snake_case'); // 'product_name'
+ */
+export const applyNamingStrategy = (property: string, naming?: EsNamingStrategy): string => {
+    if (isFunction(naming)) return naming(property);
+
+    if (naming === 'snake_case') return toSnakeCase(property);
+
+    if (naming === 'camelCase') return camelCase(property);
+
+    return property;
+};
+
+/**
+ * Resolve the Elasticsearch field name of a decorated property: the explicit `@Field({ name })`, otherwise the
+ * document naming strategy applied to the property name.
+ * @param {FieldOptions} options - Field options of the property
+ * @param {string} property - Property name
+ * @param {EsNamingStrategy} [naming] - Document naming strategy
+ * @returns {string} The Elasticsearch field name
+ */
+export const resolveFieldName = (options: FieldOptions, property: string, naming?: EsNamingStrategy): string =>
+    options.name ?? applyNamingStrategy(property, naming);
@@ -0,0 +1,42 @@
+import { Document, EsEntityRepository, Field } from './es.decorators';
+import { createElasticsearchProviders } from './es.providers';
+import { EsRepository, getRepositoryToken } from './es.repository';
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'keyword' })
+    name!: string;
+}
+
+@EsEntityRepository(Product)
+class ProductRepository extends EsRepository<Product> {}
+
+describe('createElasticsearchProviders', () => {
+    it('aliases custom repositories by class type on the default client', () => {
+        expect(createElasticsearchProviders([ProductRepository])).toContainEqual({
+            provide: ProductRepository,
+            useExisting: getRepositoryToken(ProductRepository),
+        });
+    });
+
+    it('aliases custom repositories by class type on a named client', () => {
+        expect(createElasticsearchProviders([ProductRepository], 'analytics')).toContainEqual({
+            provide: ProductRepository,
+            useExisting: getRepositoryToken(ProductRepository, 'analytics'),
+        });
+    });
+
+    it('provides custom repositories registered for several clients under their client tokens', () => {
+        const providers = [
+            ...createElasticsearchProviders([ProductRepository]),
+            ...createElasticsearchProviders([ProductRepository], 'analytics'),
+        ];
+
+        expect(providers.map((p) => 'provide' in p && p.provide)).toEqual(
+            expect.arrayContaining([
+                getRepositoryToken(ProductRepository),
+                getRepositoryToken(ProductRepository, 'analytics'),
+            ]),
+        );
+    });
+});
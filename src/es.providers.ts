@@ -1,29 +1,106 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type { Provider } from '@nestjs/common';
 
-import { type Constructor, EsRepository, getRepositoryToken } from './es.repository';
+import flatMap from 'lodash/flatMap';
+
+import { type Constructor, EsRepository, type EsRepositoryOptions, getRepositoryToken } from './es.repository';
 import { ElasticsearchService } from './es.service';
+import { getEntityRepositoryMetadata } from './es.utils';
+
+import type { ElasticsearchClient, ElasticsearchFeatureOptions } from './es.interfaces';
 
-import type { ElasticsearchClient } from './es.interfaces';
+/**
+ * Check whether a class passed to forFeature is a custom repository (a subclass of EsRepository).
+ * @param {abstract new (...args: any[]) => object} target - Entity or repository class
+ * @returns {boolean} True if the class extends EsRepository
+ */
+const isRepositoryClass = (target: abstract new (...args: any[]) => object): boolean =>
+    target.prototype instanceof EsRepository;
+
+/**
+ * Repository options for a feature: the client name, the feature index name resolver and tenancy, falling back to
+ * the module ones.
+ * @param {ElasticsearchService} service - Elasticsearch service instance
+ * @param {string} [clientName] - Client name used by the repositories
+ * @param {ElasticsearchFeatureOptions} [options] - Feature options
+ * @returns {EsRepositoryOptions} The repository options
+ */
+const toRepositoryOptions = (
+    service: ElasticsearchService,
+    clientName?: string,
+    options?: ElasticsearchFeatureOptions,
+): EsRepositoryOptions => ({
+    clientName,
+    indexNameResolver: options?.indexNameResolver ?? service.getIndexNameResolver(),
+    tenancy: options?.tenancy ?? service.getTenancyOptions(),
+});
 
 /**
- * Create providers for Elasticsearch repositories for the given entities.
- * @param {Array<abstract new (...args: any[]) => object>} [entities=[]] - Array of entity constructors
+ * Create providers for Elasticsearch repositories for the given entities or custom repository classes.
+ * Entities are provided as a base EsRepository under getRepositoryToken(entity, clientName). Repository classes
+ * decorated with @EsEntityRepository are instantiated with the client and their entity, provided under
+ * getRepositoryToken(repository, clientName), and aliased by class type for whichever client they are registered
+ * with. When one module registers a class for several clients, the class type alias resolves to the last one, so
+ * inject the others with @InjectEsRepository(repository, clientName).
+ * @param {Array<abstract new (...args: any[]) => object>} [entities=[]] - Array of entity or repository constructors
  * @param {string} [clientName] - Optional client name to use for repositories
+ * @param {ElasticsearchFeatureOptions} [options] - Feature options (index name resolver, tenancy)
  * @returns {Provider[]} Array of NestJS providers for the repositories
+ * @throws {Error} If a repository class is not decorated with @EsEntityRepository
  * @example
- * const providers = createElasticsearchProviders([User, Product], 'secondary');
+ * const providers = createElasticsearchProviders([User, ProductRepository], 'secondary');
+ * // ProductRepository is injectable by class type and by getRepositoryToken(ProductRepository, 'secondary')
  */
 export const createElasticsearchProviders = (
     entities: Array<abstract new (...args: any[]) => object> = [],
     clientName?: string,
+    options?: ElasticsearchFeatureOptions,
 ): Provider[] =>
-    entities.map((entity) => ({
-        inject: [ElasticsearchService],
-        provide: getRepositoryToken(entity, clientName),
-        useFactory: (service: ElasticsearchService): EsRepository<object> => {
-            const client: ElasticsearchClient = service.get(clientName);
-
-            return new EsRepository(client, entity as Constructor<object>);
-        },
-    }));
+    flatMap(entities, (entity): Provider[] => {
+        if (!isRepositoryClass(entity)) {
+            return [
+                {
+                    inject: [ElasticsearchService],
+                    provide: getRepositoryToken(entity, clientName),
+                    useFactory: (service: ElasticsearchService): EsRepository<object> => {
+                        const client: ElasticsearchClient = service.get(clientName);
+
+                        return new EsRepository(
+                            client,
+                            entity as Constructor<object>,
+                            toRepositoryOptions(service, clientName, options),
+                        );
+                    },
+                },
+            ];
+        }
+
+        const target = getEntityRepositoryMetadata(entity);
+
+        if (!target) {
+            throw new Error(`Repository ${entity.name} must be decorated with @EsEntityRepository(Entity)`);
+        }
+
+        const token = getRepositoryToken(entity, clientName);
+
+        return [
+            {
+                inject: [ElasticsearchService],
+                provide: token,
+                useFactory: (service: ElasticsearchService): EsRepository<object> => {
+                    const client: ElasticsearchClient = service.get(clientName);
+                    const Repository = entity as Constructor<
+                        EsRepository<object>,
+                        [ElasticsearchClient, Constructor<object>, EsRepositoryOptions]
+                    >;
+
+                    return new Repository(
+                        client,
+                        target as Constructor<object>,
+                        toRepositoryOptions(service, clientName, options),
+                    );
+                },
+            },
+            { provide: entity, useExisting: token },
+        ];
+    });
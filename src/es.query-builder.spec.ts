@@ -0,0 +1,99 @@
+import { Document, Field } from './es.decorators';
+import { EsQueryBuilder } from './es.query-builder';
+import { EsRepository } from './es.repository';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'integer' })
+    price!: number;
+
+    @Field({ name: 'product_status', type: 'keyword' })
+    status!: string;
+
+    @Field({ type: 'text' })
+    title!: string;
+}
+
+/**
+ * Client answering every search with the given hits and every count with their number.
+ * @param {Array<Record<string, unknown>>} hits - Search hits
+ * @returns {ElasticsearchClient} The client
+ */
+const searchClient = (hits: Array<Record<string, unknown>>): ElasticsearchClient =>
+    ({
+        count: jest.fn(async () => ({ count: hits.length })),
+        search: jest.fn(async () => ({ hits: { hits, total: { relation: 'eq', value: hits.length } } })),
+    }) as unknown as ElasticsearchClient;
+
+const hit = (id: string, _source: Record<string, unknown>) => ({ _id: id, _index: 'products', _score: null, _source });
+
+describe('EsQueryBuilder', () => {
+    let client: ElasticsearchClient;
+    let repo: EsRepository<Product>;
+
+    beforeEach(() => {
+        client = searchClient([
+            hit('2', { price: 30, product_status: 'active', title: 'Blue shoe' }),
+            hit('1', { price: 10, product_status: 'active', title: 'Red shoe' }),
+        ]);
+        repo = new EsRepository(client, Product);
+    });
+
+    it('compiles clauses, sort, paging and source filtering with Elasticsearch field names', () => {
+        const params = repo
+            .createQueryBuilder()
+            .filter((q) => q.term('status', 'active'))
+            .must((q) => q.match('title', 'shoe'))
+            .sort('price', 'desc')
+            .select('title')
+            .from(5)
+            .size(10)
+            .build();
+
+        expect(params).toEqual({
+            _source: { excludes: [], includes: ['title'] },
+            from: 5,
+            query: {
+                bool: {
+                    filter: [{ term: { product_status: 'active' } }],
+                    must: [{ match: { title: { query: 'shoe' } } }],
+                },
+            },
+            size: 10,
+            sort: [{ price: { order: 'desc' } }],
+        });
+    });
+
+    it('runs through the repository', async () => {
+        const builder = repo
+            .createQueryBuilder()
+            .filter((q) => q.term('status', 'active'))
+            .sort('price', 'desc');
+
+        expect((await builder.getMany()).map((p) => p.title)).toEqual(['Blue shoe', 'Red shoe']);
+        expect(await builder.getCount()).toBe(2);
+        expect(await builder.getOne()).toMatchObject({ price: 30 });
+        expect(client.search).toHaveBeenCalledWith(
+            expect.objectContaining({
+                index: 'products',
+                query: { bool: { filter: [{ term: { product_status: 'active' } }] } },
+                sort: [{ price: { order: 'desc' } }],
+            }),
+        );
+    });
+
+    it('returns ids, indices and scores with searchSourcesWithMeta', async () => {
+        const hits = await repo.searchSourcesWithMeta(repo.createQueryBuilder().filter((q) => q.term('price', 30)));
+
+        expect(hits[0]).toEqual({ id: '2', index: 'products', score: null, source: expect.any(Object) });
+        expect(
+            await new EsRepository(searchClient([]), Product).searchFirstSourceWithMeta({ query: { match_all: {} } }),
+        ).toBeUndefined();
+    });
+
+    it('refuses to execute without a repository', async () => {
+        await expect(new EsQueryBuilder(Product).getMany()).rejects.toThrow(/repository/);
+    });
+});
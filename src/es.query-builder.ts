@@ -0,0 +1,448 @@
+import forEach from 'lodash/forEach';
+import head from 'lodash/head';
+import isEmpty from 'lodash/isEmpty';
+import isFunction from 'lodash/isFunction';
+import isNil from 'lodash/isNil';
+import omitBy from 'lodash/omitBy';
+import split from 'lodash/split';
+import toString from 'lodash/toString';
+
+import { getFieldsMetadata, toFieldPath } from './es.utils';
+
+import type { DocumentFieldPath, EsSearchParams, EsSortField, EsSortOptions } from './es.interfaces';
+import type { Constructor, EsRepository } from './es.repository';
+import type {
+    FieldValue,
+    MinimumShouldMatch,
+    QueryDslMatchQuery,
+    QueryDslPrefixQuery,
+    QueryDslQueryContainer,
+    QueryDslUntypedRangeQuery,
+    SearchResponse,
+    SearchSourceConfig,
+    SortCombinations,
+    SortOrder,
+} from '@elastic/elasticsearch/lib/api/types';
+
+export type EsBoolOccur = 'filter' | 'must' | 'must_not' | 'should';
+
+export type EsQueryInput<T extends object> =
+    ((q: EsQueryExpressions<T>) => QueryDslQueryContainer) | QueryDslQueryContainer;
+
+export type EsSearchInput<T extends object> = EsQueryBuilder<T> | EsSearchParams;
+
+/**
+ * Field-checked factories for leaf queries (term, terms, range, match, exists, prefix) and nested bool queries.
+ * @template T - The entity type whose fields may be referenced
+ */
+export class EsQueryExpressions<T extends object> {
+    /**
+     * Create expression factories for the given entity constructor.
+     * @param {Constructor<T>} entityCtor - Entity constructor decorated with @Document/@Field
+     */
+    constructor(protected readonly entityCtor: Constructor<T>) {}
+
+    /**
+     * Nested bool query.
+     * @param {(b: EsBoolQueryBuilder<T>) => unknown} build - Callback that adds clauses to the nested bool builder
+     * @returns {QueryDslQueryContainer} The bool query
+     * @example
+     * q.bool((b) => b.should((q) => q.term('brand', 'acme'), (q) => q.term('brand', 'globex')).minimumShouldMatch(1));
+     */
+    bool(build: (b: EsBoolQueryBuilder<T>) => unknown): QueryDslQueryContainer {
+        const builder = new EsBoolQueryBuilder<T>(this.entityCtor);
+
+        build(builder);
+
+        return builder.toQuery();
+    }
+
+    /**
+     * Match documents that have a value for the field.
+     * @param {DocumentFieldPath<T>} field - Entity field
+     * @returns {QueryDslQueryContainer} The exists query
+     */
+    exists(field: DocumentFieldPath<T>): QueryDslQueryContainer {
+        return { exists: { field: this.resolveField(field) } };
+    }
+
+    /**
+     * Full-text match query.
+     * @param {DocumentFieldPath<T>} field - Entity field
+     * @param {QueryDslMatchQuery['query']} query - Text to match
+     * @param {Omit<QueryDslMatchQuery, 'query'>} [options] - Additional match options (operator, fuzziness, ...)
+     * @returns {QueryDslQueryContainer} The match query
+     */
+    match(
+        field: DocumentFieldPath<T>,
+        query: QueryDslMatchQuery['query'],
+        options?: Omit<QueryDslMatchQuery, 'query'>,
+    ): QueryDslQueryContainer {
+        return { match: { [this.resolveField(field)]: { ...options, query } } };
+    }
+
+    /**
+     * Prefix query.
+     * @param {DocumentFieldPath<T>} field - Entity field
+     * @param {string} value - Prefix to match
+     * @param {Omit<QueryDslPrefixQuery, 'value'>} [options] - Additional prefix options
+     * @returns {QueryDslQueryContainer} The prefix query
+     */
+    prefix(
+        field: DocumentFieldPath<T>,
+        value: string,
+        options?: Omit<QueryDslPrefixQuery, 'value'>,
+    ): QueryDslQueryContainer {
+        return { prefix: { [this.resolveField(field)]: { ...options, value } } };
+    }
+
+    /**
+     * Range query.
+     * @param {DocumentFieldPath<T>} field - Entity field
+     * @param {QueryDslUntypedRangeQuery} range - Bounds (gt/gte/lt/lte) and options (format, time_zone)
+     * @returns {QueryDslQueryContainer} The range query
+     * @example
+     * q.range('price', { gte: 10, lt: 100 });
+     */
+    range(field: DocumentFieldPath<T>, range: QueryDslUntypedRangeQuery): QueryDslQueryContainer {
+        return { range: { [this.resolveField(field)]: range } };
+    }
+
+    /**
+     * Exact term query.
+     * @param {DocumentFieldPath<T>} field - Entity field
+     * @param {FieldValue} value - Exact value
+     * @returns {QueryDslQueryContainer} The term query
+     */
+    term(field: DocumentFieldPath<T>, value: FieldValue): QueryDslQueryContainer {
+        return { term: { [this.resolveField(field)]: value } };
+    }
+
+    /**
+     * Terms query matching any of the given values.
+     * @param {DocumentFieldPath<T>} field - Entity field
+     * @param {ReadonlyArray<FieldValue>} values - Accepted values
+     * @returns {QueryDslQueryContainer} The terms query
+     */
+    terms(field: DocumentFieldPath<T>, values: ReadonlyArray<FieldValue>): QueryDslQueryContainer {
+        return { terms: { [this.resolveField(field)]: [...values] } };
+    }
+
+    /**
+     * Validate a field reference against the entity @Field metadata and return the Elasticsearch field name.
+     * @param {string} field - Field path referenced by the caller
+     * @returns {string} The field name to send to Elasticsearch
+     * @throws {Error} If the entity declares @Field metadata and the root field is not part of it
+     */
+    resolveField(field: string): string {
+        const fields = getFieldsMetadata(this.entityCtor);
+        const root = toString(head(split(field, '.')));
+
+        if (fields && !fields.has(root)) {
+            throw new Error(`Unknown field "${field}" for Elasticsearch document ${this.entityCtor.name}`);
+        }
+
+        return toFieldPath(this.entityCtor, field);
+    }
+}
+
+/**
+ * Builder for bool queries (must/filter/should/must_not) with field names checked against entity T.
+ * @template T - The entity type whose fields may be referenced
+ */
+export class EsBoolQueryBuilder<T extends object> {
+    protected readonly clauses: Record<EsBoolOccur, QueryDslQueryContainer[]> = {
+        filter: [],
+        must: [],
+        must_not: [],
+        should: [],
+    };
+
+    protected readonly expressions: EsQueryExpressions<T>;
+
+    protected minimumShouldMatchValue?: MinimumShouldMatch;
+
+    /**
+     * Create a bool builder for the given entity constructor.
+     * @param {Constructor<T>} entityCtor - Entity constructor decorated with @Document/@Field
+     */
+    constructor(protected readonly entityCtor: Constructor<T>) {
+        this.expressions = new EsQueryExpressions<T>(entityCtor);
+    }
+
+    /**
+     * Add non-scoring clauses that documents must match.
+     * @param {...EsQueryInput<T>} clauses - Raw queries or callbacks building them from field-checked expressions
+     * @returns {this} The builder for chaining
+     * @example
+     * qb.filter((q) => q.term('status', 'active'), (q) => q.range('price', { gte: 10 }));
+     */
+    filter(...clauses: Array<EsQueryInput<T>>): this {
+        return this.add('filter', clauses);
+    }
+
+    /**
+     * Set bool minimum_should_match.
+     * @param {MinimumShouldMatch} value - Number or percentage of should clauses that must match
+     * @returns {this} The builder for chaining
+     */
+    minimumShouldMatch(value: MinimumShouldMatch): this {
+        this.minimumShouldMatchValue = value;
+
+        return this;
+    }
+
+    /**
+     * Add scoring clauses that documents must match.
+     * @param {...EsQueryInput<T>} clauses - Raw queries or callbacks building them from field-checked expressions
+     * @returns {this} The builder for chaining
+     * @example
+     * qb.must((q) => q.match('name', 'running shoes'));
+     */
+    must(...clauses: Array<EsQueryInput<T>>): this {
+        return this.add('must', clauses);
+    }
+
+    /**
+     * Add clauses that documents must not match.
+     * @param {...EsQueryInput<T>} clauses - Raw queries or callbacks building them from field-checked expressions
+     * @returns {this} The builder for chaining
+     */
+    mustNot(...clauses: Array<EsQueryInput<T>>): this {
+        return this.add('must_not', clauses);
+    }
+
+    /**
+     * Add clauses that documents should match.
+     * @param {...EsQueryInput<T>} clauses - Raw queries or callbacks building them from field-checked expressions
+     * @returns {this} The builder for chaining
+     */
+    should(...clauses: Array<EsQueryInput<T>>): this {
+        return this.add('should', clauses);
+    }
+
+    /**
+     * Compile the clauses into a query container (match_all when no clause was added).
+     * @returns {QueryDslQueryContainer} The compiled query
+     */
+    toQuery(): QueryDslQueryContainer {
+        if (!this.hasClauses()) return { match_all: {} };
+
+        const bool: Record<string, unknown> = {};
+
+        forEach(this.clauses, (list, occur) => {
+            if (!isEmpty(list)) bool[occur] = [...list];
+        });
+
+        if (!isNil(this.minimumShouldMatchValue)) bool.minimum_should_match = this.minimumShouldMatchValue;
+
+        return { bool };
+    }
+
+    /**
+     * Whether any bool clause has been added.
+     * @returns {boolean} True if at least one clause exists
+     */
+    protected hasClauses(): boolean {
+        return (
+            !isEmpty(this.clauses.filter) ||
+            !isEmpty(this.clauses.must) ||
+            !isEmpty(this.clauses.must_not) ||
+            !isEmpty(this.clauses.should)
+        );
+    }
+
+    private add(occur: EsBoolOccur, clauses: Array<EsQueryInput<T>>): this {
+        forEach(clauses, (clause) => {
+            this.clauses[occur].push(isFunction(clause) ? clause(this.expressions) : clause);
+        });
+
+        return this;
+    }
+}
+
+/**
+ * Fluent, typed search builder for an entity T. Compiles to the same params accepted by searchRaw and the
+ * repository search helpers, and can execute itself when created via `repo.createQueryBuilder()`.
+ * @template T - The entity type whose fields may be referenced
+ * @example
+ * const products = await repo
+ *   .createQueryBuilder()
+ *   .filter((q) => q.term('status', 'active'))
+ *   .must((q) => q.match('name', 'phone'))
+ *   .sort('price', 'desc')
+ *   .size(20)
+ *   .getMany();
+ */
+export class EsQueryBuilder<T extends object> extends EsBoolQueryBuilder<T> {
+    private fromValue?: number;
+    private sizeValue?: number;
+    private readonly sorts: SortCombinations[] = [];
+    private sourceValue?: SearchSourceConfig;
+
+    /**
+     * Create a query builder.
+     * @param {Constructor<T>} entityCtor - Entity constructor decorated with @Document/@Field
+     * @param {EsRepository<T>} [repository] - Repository used by the execution helpers (getMany, getOne, ...)
+     */
+    constructor(
+        entityCtor: Constructor<T>,
+        private readonly repository?: EsRepository<T>,
+    ) {
+        super(entityCtor);
+    }
+
+    /**
+     * Compile the builder into search params.
+     * @returns {EsSearchParams} Params accepted by search, searchRaw and every search helper
+     */
+    build(): EsSearchParams {
+        return omitBy(
+            {
+                _source: this.sourceValue,
+                from: this.fromValue,
+                query: this.hasClauses() ? this.toQuery() : undefined,
+                size: this.sizeValue,
+                sort: isEmpty(this.sorts) ? undefined : [...this.sorts],
+            },
+            isNil,
+        );
+    }
+
+    /**
+     * Exclude fields from the returned _source.
+     * @param {...DocumentFieldPath<T>} fields - Fields to exclude
+     * @returns {this} The builder for chaining
+     */
+    exclude(...fields: Array<DocumentFieldPath<T>>): this {
+        const current = this.sourceFilter();
+
+        this.sourceValue = {
+            ...current,
+            excludes: [...(current.excludes as string[]), ...fields.map((f) => this.expressions.resolveField(f))],
+        };
+
+        return this;
+    }
+
+    /**
+     * Set the starting offset.
+     * @param {number} from - Number of hits to skip
+     * @returns {this} The builder for chaining
+     */
+    from(from: number): this {
+        this.fromValue = from;
+
+        return this;
+    }
+
+    /**
+     * Execute the search and return the number of matching documents.
+     * @returns {Promise<number>} The count of matching documents
+     */
+    async getCount(): Promise<number> {
+        return this.requireRepository().count(this);
+    }
+
+    /**
+     * Execute the search and return hydrated entities.
+     * @returns {Promise<T[]>} Array of hydrated entity instances
+     */
+    async getMany(): Promise<T[]> {
+        return this.requireRepository().searchEntities(this);
+    }
+
+    /**
+     * Execute the search and return the first hydrated entity, if any.
+     * @returns {Promise<T | undefined>} The first entity or undefined
+     */
+    async getOne(): Promise<T | undefined> {
+        return this.requireRepository().searchFirstEntity(this);
+    }
+
+    /**
+     * Execute the search and return the full response.
+     * @returns {Promise<SearchResponse<T>>} The Elasticsearch search response
+     */
+    async getResponse(): Promise<SearchResponse<T>> {
+        return this.requireRepository().search(this);
+    }
+
+    /**
+     * Restrict the returned _source to the given fields.
+     * @param {...DocumentFieldPath<T>} fields - Fields to include
+     * @returns {this} The builder for chaining
+     * @example
+     * qb.select('id', 'name', 'price');
+     */
+    select(...fields: Array<DocumentFieldPath<T>>): this {
+        const current = this.sourceFilter();
+
+        this.sourceValue = {
+            ...current,
+            includes: [...(current.includes as string[]), ...fields.map((f) => this.expressions.resolveField(f))],
+        };
+
+        return this;
+    }
+
+    /**
+     * Set the page size.
+     * @param {number} size - Maximum number of hits to return
+     * @returns {this} The builder for chaining
+     */
+    size(size: number): this {
+        this.sizeValue = size;
+
+        return this;
+    }
+
+    /**
+     * Add a sort clause. Clauses are applied in the order they are added.
+     * @param {EsSortField<T>} field - Entity field, `_score` or `_doc`
+     * @param {SortOrder} [order='asc'] - Sort direction
+     * @param {EsSortOptions} [options] - Extra sort options (missing, mode, unmapped_type, ...)
+     * @returns {this} The builder for chaining
+     * @example
+     * qb.sort('price', 'desc').sort('_score', 'desc');
+     */
+    sort(field: EsSortField<T>, order: SortOrder = 'asc', options?: EsSortOptions): this {
+        const name = field === '_score' || field === '_doc' ? field : this.expressions.resolveField(field);
+
+        this.sorts.push({ [name]: { ...options, order } });
+
+        return this;
+    }
+
+    /**
+     * Enable or disable returning _source entirely.
+     * @param {boolean} enabled - False to omit _source from hits
+     * @returns {this} The builder for chaining
+     */
+    source(enabled: boolean): this {
+        this.sourceValue = enabled;
+
+        return this;
+    }
+
+    private requireRepository(): EsRepository<T> {
+        if (!this.repository) {
+            throw new Error('EsQueryBuilder is not bound to a repository; use repo.createQueryBuilder()');
+        }
+
+        return this.repository;
+    }
+
+    private sourceFilter(): { excludes: string[]; includes: string[] } {
+        const current = this.sourceValue;
+
+        if (isNil(current) || typeof current !== 'object' || Array.isArray(current)) {
+            return { excludes: [], includes: [] };
+        }
+
+        return {
+            excludes: (current.excludes as string[] | undefined) ?? [],
+            includes: (current.includes as string[] | undefined) ?? [],
+        };
+    }
+}
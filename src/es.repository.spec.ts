@@ -0,0 +1,73 @@
+import { Document, Field } from './es.decorators';
+import { EsRepository } from './es.repository';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'keyword' })
+    name!: string;
+}
+
+/**
+ * Client serving the given names through a point in time, in pages of search_after.
+ * @param {string[]} names - Stored product names, in sort order
+ * @returns {{ client: ElasticsearchClient; closePointInTime: jest.Mock; search: jest.Mock }} The client and its mocks
+ */
+const pointInTimeClient = (names: string[]) => {
+    const hits = names.map((name, i) => ({ _id: String(i), _index: 'products', _source: { name }, sort: [i] }));
+    const search = jest.fn(async (params: { search_after?: number[]; size: number }) => {
+        const from = (params.search_after?.[0] ?? -1) + 1;
+
+        return { hits: { hits: hits.slice(from, from + params.size) }, pit_id: 'pit-2' };
+    });
+    const closePointInTime = jest.fn(async () => ({ num_freed: 1, succeeded: true }));
+    const client = { closePointInTime, openPointInTime: jest.fn(async () => ({ id: 'pit-1' })), search };
+
+    return { client: client as unknown as ElasticsearchClient, closePointInTime, search };
+};
+
+describe('EsRepository.iterateBatches', () => {
+    it('walks every page with search_after and closes the point in time', async () => {
+        const { client, closePointInTime, search } = pointInTimeClient(['a', 'b', 'c', 'd', 'e']);
+        const batches: string[][] = [];
+
+        for await (const batch of new EsRepository(client, Product).iterateBatches(undefined, { batchSize: 2 })) {
+            batches.push(batch.map((p) => p.name));
+        }
+
+        expect(batches).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+        expect(search).toHaveBeenCalledTimes(3);
+        expect(search.mock.calls[1][0]).toMatchObject({
+            pit: { id: 'pit-2', keep_alive: '1m' },
+            search_after: [1],
+            sort: [{ _shard_doc: 'asc' }],
+        });
+        expect(closePointInTime).toHaveBeenCalledWith({ id: 'pit-2' }, { ignore: [404] });
+    });
+
+    it('closes the point in time on break', async () => {
+        const { client, closePointInTime, search } = pointInTimeClient(['a', 'b', 'c', 'd', 'e']);
+
+        for await (const batch of new EsRepository(client, Product).iterateBatches(undefined, { batchSize: 2 })) {
+            expect(batch).toHaveLength(2);
+            break;
+        }
+
+        expect(search).toHaveBeenCalledTimes(1);
+        expect(closePointInTime).toHaveBeenCalledTimes(1);
+    });
+
+    it('closes the point in time when a search fails', async () => {
+        const { client, closePointInTime, search } = pointInTimeClient(['a', 'b', 'c']);
+
+        search.mockRejectedValueOnce(new Error('search failed'));
+
+        const iterate = async () => {
+            for await (const batch of new EsRepository(client, Product).iterateBatches()) expect(batch).toBeDefined();
+        };
+
+        await expect(iterate()).rejects.toThrow('search failed');
+        expect(closePointInTime).toHaveBeenCalledWith({ id: 'pit-1' }, { ignore: [404] });
+    });
+});
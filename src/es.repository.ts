@@ -1,26 +1,104 @@
 import { Injectable } from '@nestjs/common';
 
-import assign from 'lodash/assign';
+import castArray from 'lodash/castArray';
+import compact from 'lodash/compact';
 import filter from 'lodash/filter';
 import first from 'lodash/first';
-import forEach from 'lodash/forEach';
 import get from 'lodash/get';
+import has from 'lodash/has';
 import isBoolean from 'lodash/isBoolean';
 import isEmpty from 'lodash/isEmpty';
+import isEqual from 'lodash/isEqual';
 import isNil from 'lodash/isNil';
+import isNumber from 'lodash/isNumber';
+import keys from 'lodash/keys';
+import last from 'lodash/last';
 import map from 'lodash/map';
+import mapKeys from 'lodash/mapKeys';
+import set from 'lodash/set';
+import some from 'lodash/some';
 import toString from 'lodash/toString';
 import toUpper from 'lodash/toUpper';
 import trim from 'lodash/trim';
 
+import { compileAggregations } from './es.aggregations';
+import { emptyBulkResult, executeBulk } from './es.bulk';
+import { BulkIndexer } from './es.bulk-indexer';
+import {
+    ES_CONFLICT_DEFAULT_RETRIES,
+    getEntityVersion,
+    isVersionConflict,
+    toConcurrencyParams,
+    trackEntityVersion,
+} from './es.concurrency';
 import { getElasticsearchClientToken } from './es.constants';
-import { buildDocumentMetadata, getDocumentMetadata, toElasticsearchDocument } from './es.utils';
-
-import type { ElasticsearchClient } from './es.interfaces';
-import type { QueryDslQueryContainer, SearchResponse } from '@elastic/elasticsearch/lib/api/types';
+import { defaultCursorCodec, ES_PAGINATE_DEFAULT_LIMIT, normalizeSort, reverseSort } from './es.cursor';
+import { getDataStreamBackingIndices, rolloverDataStream } from './es.data-streams';
+import { EsBulkError, EsCursorError, EsTenantError, EsVersionConflictError, EsWriteVetoedError } from './es.errors';
+import { hasEntityHooks, runEntityHooks, runUpdateHooks, toVetoedBulkItem } from './es.hooks';
+import { resolveIndexNames } from './es.index-names';
+import { ensureDocumentIndex, getWriteAliasName, reindexDocument, resolveAliasIndices } from './es.indices';
+import { EsQueryBuilder, type EsSearchInput } from './es.query-builder';
+import { compareDocumentSchema, syncDocumentSchema } from './es.schema-sync';
+import { excludeDeletedQuery, softDeleteScript } from './es.soft-delete';
+import {
+    ES_TENANT_DEFAULT_FIELD,
+    getCurrentTenant,
+    isAcrossTenants,
+    scopeTenantQuery,
+    toAllTenantsReadIndex,
+    toForeignTenantBulkItem,
+    toTenantIndexNames,
+} from './es.tenancy';
+import {
+    fromElasticsearchDocument,
+    getDeletedAtFieldMetadata,
+    getDocumentId,
+    getDocumentMetadata,
+    hydrateDocument,
+    setDocumentId,
+    toElasticsearchDocument,
+    toElasticsearchPartial,
+    toFieldPath,
+} from './es.utils';
+
+import type { EsAggregateResponse, EsAggregationResults, EsAggregations } from './es.aggregations';
+import type { BulkFailedItem, BulkOperation, BulkOptions, BulkResult } from './es.bulk';
+import type { BulkIndexerOptions, EsBulkWriter } from './es.bulk-indexer';
+import type { EsConcurrencyParams, EsHitVersionMeta } from './es.concurrency';
+import type { EsPage, EsPaginateOptions } from './es.cursor';
+import type { EsHookOperation } from './es.hooks';
+import type { EsIndexNameResolverOptions, EsIndexNames } from './es.index-names';
+import type { ReindexOptions, ReindexResult } from './es.indices';
+import type { ElasticsearchClient, EsIterateOptions, EsSearchParams } from './es.interfaces';
+import type { SchemaSyncMode, SchemaSyncReport } from './es.schema-sync';
+import type { EsTenancyOptions } from './es.tenancy';
+import type {
+    IndicesRolloverResponse,
+    IndicesRolloverRolloverConditions,
+    QueryDslQueryContainer,
+    SearchResponse,
+    SortCombinations,
+    SortResults,
+    WriteResponseBase,
+} from '@elastic/elasticsearch/lib/api/types';
+
+export const ES_ITERATE_DEFAULT_BATCH_SIZE = 1000;
+
+export const ES_ITERATE_DEFAULT_KEEP_ALIVE = '1m';
 
 export type Constructor<T = unknown, Arguments extends unknown[] = unknown[]> = new (...arguments_: Arguments) => T;
 
+export interface EsRepositoryOptions extends EsIndexNameResolverOptions {
+    /** Disables tenancy scoping (set by acrossTenants) */
+    acrossTenants?: boolean;
+    tenancy?: EsTenancyOptions;
+    /** Tenant bound by forTenant, taking precedence over the tenant context */
+    tenantId?: string;
+    /** Reads include soft-deleted documents (set by withDeleted) */
+    withDeleted?: boolean;
+}
+
 /**
  * Base Elasticsearch repository providing CRUD, bulk, query, and search helpers for an entity T described via @Document/@Field decorators.
  * @template T - The entity type extending object
@@ -31,10 +109,12 @@ export class EsRepository<T extends object> {
      * Create a repository for the given entity constructor using the provided client.
      * @param {ElasticsearchClient} es - Elasticsearch client instance
      * @param {Constructor<T>} entityCtor - Entity constructor decorated with @Document
+     * @param {EsRepositoryOptions} [options] - Client name, index name resolver and tenancy
      */
     constructor(
         protected readonly es: ElasticsearchClient,
         protected readonly entityCtor: Constructor<T>,
+        protected readonly options: EsRepositoryOptions = {},
     ) {}
 
     /**
@@ -46,30 +126,575 @@ export class EsRepository<T extends object> {
     }
 
     /**
-     * Create a class instance of the repository entity from a plain source object.
+     * Create a fluent, typed query builder bound to this repository.
+     * @returns {EsQueryBuilder<T>} A new query builder for the repository entity
+     * @example
+     * const products = await repo
+     *   .createQueryBuilder()
+     *   .filter((q) => q.term('status', 'active'), (q) => q.range('price', { gte: 10 }))
+     *   .sort('price', 'desc')
+     *   .size(20)
+     *   .getMany();
+     */
+    createQueryBuilder(): EsQueryBuilder<T> {
+        return new EsQueryBuilder<T>(this.entityCtor, this);
+    }
+
+    /**
+     * Copy of this repository bound to a tenant, whatever the tenant context. Suited to request-scoped providers.
+     * @param {string} tenantId - Tenant id
+     * @returns {this} The tenant-bound repository
+     * @example
+     * const products = await repo.forTenant('acme').searchEntities({ query: { match_all: {} } });
+     */
+    forTenant(tenantId: string): this {
+        return this.withOptions({ acrossTenants: false, tenantId });
+    }
+
+    /**
+     * Copy of this repository without tenancy scoping: searches are not filtered by tenant, index-per-tenant reads
+     * span every tenant index and writes are not stamped. This is the explicit escape hatch for cross-tenant access.
+     * @returns {this} The unscoped repository
+     * @example
+     * const total = await repo.acrossTenants().count();
+     */
+    acrossTenants(): this {
+        return this.withOptions({ acrossTenants: true, tenantId: undefined });
+    }
+
+    /**
+     * Copy of this repository whose searches, counts and finds include soft-deleted documents. Deletes stay soft.
+     * @returns {this} The repository including soft-deleted documents
+     * @example
+     * const trash = await repo.withDeleted().searchEntities({ query: { exists: { field: 'deletedAt' } } });
+     */
+    withDeleted(): this {
+        return this.withOptions({ withDeleted: true });
+    }
+
+    /**
+     * Copy of this repository (custom repository state included) with overridden options.
+     * @param {Partial<EsRepositoryOptions>} options - Options to override
+     * @returns {this} The repository copy
+     */
+    protected withOptions(options: Partial<EsRepositoryOptions>): this {
+        return Object.assign(Object.create(Object.getPrototypeOf(this) as object) as this, this, {
+            options: { ...this.options, ...options },
+        });
+    }
+
+    /**
+     * Tenant the current call is scoped to: the tenant bound by forTenant, then the tenant resolver, then the
+     * runWithTenant context.
+     * @returns {string | undefined} The tenant id, or undefined without tenancy or across tenants
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     */
+    protected get tenantId(): string | undefined {
+        const { acrossTenants, tenancy, tenantId } = this.options;
+
+        if (isNil(tenancy) || acrossTenants) return undefined;
+
+        if (!isEmpty(tenantId)) return tenantId;
+
+        if (isAcrossTenants()) return undefined;
+
+        const current = tenancy.tenantResolver?.() ?? getCurrentTenant();
+
+        if (isNil(current) || isEmpty(current)) throw new EsTenantError(this.entityCtor.name);
+
+        return current;
+    }
+
+    /**
+     * Tenant the current call is scoped to with the shared index strategy.
+     * @returns {string | undefined} The tenant id, or undefined with another strategy or across tenants
+     * @throws {EsTenantError} If there is no tenant
+     */
+    protected get sharedTenantId(): string | undefined {
+        return this.options.tenancy?.strategy === 'shared' ? this.tenantId : undefined;
+    }
+
+    /**
+     * Elasticsearch field holding the tenant id with the shared index strategy.
+     * @returns {string} The field path
+     */
+    protected get tenantField(): string {
+        return toFieldPath(this.entityCtor, this.options.tenancy?.field ?? ES_TENANT_DEFAULT_FIELD);
+    }
+
+    /**
+     * Routing of the current tenant with the shared index strategy, to spread into requests.
+     * @returns {{ routing?: string }} The routing param, empty when documents are not routed by tenant
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     */
+    protected get routingParams(): { routing?: string } {
+        const tenantId = this.sharedTenantId;
+
+        return isNil(tenantId) || this.options.tenancy?.routing === false ? {} : { routing: tenantId };
+    }
+
+    /**
+     * Stamp the current tenant on a stored document with the shared index strategy.
+     * @param {Record<string, unknown>} document - Document in Elasticsearch field names
+     * @returns {Record<string, unknown>} The same document
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     */
+    protected stampTenant(document: Record<string, unknown>): Record<string, unknown> {
+        const tenantId = this.sharedTenantId;
+
+        return isNil(tenantId) ? document : set(document, this.tenantField, tenantId);
+    }
+
+    /**
+     * Elasticsearch field of the @DeletedAtField property.
+     * @returns {string | undefined} The field path or undefined if the entity is not soft-deleted
+     */
+    protected get deletedAtField(): string | undefined {
+        const meta = getDeletedAtFieldMetadata(this.entityCtor);
+
+        return isNil(meta) ? undefined : toFieldPath(this.entityCtor, String(meta.property));
+    }
+
+    /**
+     * Elasticsearch field whose documents are skipped by reads: the @DeletedAtField, unless withDeleted.
+     * @returns {string | undefined} The field path or undefined if soft-deleted documents are included
+     */
+    protected get excludedDeletedField(): string | undefined {
+        return this.options.withDeleted ? undefined : this.deletedAtField;
+    }
+
+    /**
+     * Partial document setting the @DeletedAtField property, in Elasticsearch field names.
+     * @param {Date | null} deletedAt - Deletion date, or null to restore
+     * @returns {Record<string, unknown> | undefined} The partial document or undefined if the entity is not soft-deleted
+     */
+    protected toDeletedAtDoc(deletedAt: Date | null): Record<string, unknown> | undefined {
+        const meta = getDeletedAtFieldMetadata(this.entityCtor);
+
+        return isNil(meta) ? undefined : toElasticsearchPartial(this.entityCtor, { [meta.property]: deletedAt });
+    }
+
+    /**
+     * Whether a stored _source may be returned: it belongs to the current tenant with the shared tenancy strategy and
+     * is not soft-deleted (unless withDeleted).
+     * @param {unknown} source - The stored _source
+     * @returns {boolean} True if the document may be returned
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     */
+    protected isVisibleSource(source: unknown): boolean {
+        const tenantId = this.sharedTenantId;
+        const deletedAt = this.excludedDeletedField;
+
+        return (
+            (isNil(tenantId) || get(source, this.tenantField) === tenantId) &&
+            (isNil(deletedAt) || isNil(get(source, deletedAt)))
+        );
+    }
+
+    /**
+     * Create a class instance of the repository entity from a plain source object, rebuilding sub-document
+     * instances and writing the document id back onto the @IdField property when known.
      * @param {Partial<T>} source - Source object to convert to entity instance
+     * @param {string} [id] - Document id, if known
      * @returns {T} The created entity instance
      */
-    protected createEntity(source: Partial<T>): T {
-        const proto = this.entityCtor.prototype as unknown as object;
-        const instance = Object.create(proto) as T;
+    protected createEntity(source: Partial<T>, id?: string): T {
+        const instance = hydrateDocument<T>(this.entityCtor, source);
 
-        assign(instance, source);
+        setDocumentId(instance, id);
 
         return instance;
     }
 
     /**
-     * Target index name derived from the entity @Document metadata.
+     * Translate a stored _source into a plain object keyed by entity property names.
+     * @param {unknown} source - The stored _source
+     * @returns {T | undefined} The translated source or undefined if there is none
+     */
+    protected toSource(source: unknown): T | undefined {
+        return isNil(source) ? undefined : fromElasticsearchDocument<T>(this.entityCtor, source as object);
+    }
+
+    /**
+     * Create an entity instance from a source object, track its version for optimistic concurrency and run its
+     * @AfterLoad hooks.
+     * @param {Partial<T>} source - Source object to convert to entity instance
+     * @param {EsHitVersionMeta & { _id?: null | string }} [meta] - Hit or get response metadata (id, seq_no, primary_term, version)
+     * @returns {Promise<T>} The hydrated entity instance
+     */
+    protected async hydrate(source: Partial<T>, meta?: EsHitVersionMeta & { _id?: null | string }): Promise<T> {
+        const id = get(meta, '_id') ?? undefined;
+        const entity = this.createEntity(source, id);
+
+        trackEntityVersion(entity, meta);
+        await runEntityHooks(entity, 'afterLoad', { id, operation: 'load' });
+
+        return entity;
+    }
+
+    /**
+     * Run @BeforeUpdate hooks for a single-document partial update and translate it to Elasticsearch field names.
+     * @param {string} id - Document id
+     * @param {Partial<T>} partial - Partial entity data
+     * @param {EsHookOperation} operation - The update operation
+     * @returns {Promise<Partial<T>>} The update body including fields set by hooks
+     * @throws {EsWriteVetoedError} If a hook vetoed the update
+     */
+    protected async prepareUpdate(id: string, partial: Partial<T>, operation: EsHookOperation): Promise<Partial<T>> {
+        const doc = await runUpdateHooks(this.entityCtor, partial, { id, operation });
+
+        if (isNil(doc)) throw new EsWriteVetoedError(this.entityCtor.name, operation, id);
+
+        return toElasticsearchPartial(this.entityCtor, doc) as Partial<T>;
+    }
+
+    /**
+     * Load the stored entities about to be removed when the entity declares @BeforeRemove/@AfterRemove hooks.
+     * @param {ReadonlyArray<string>} ids - Document ids
+     * @returns {Promise<Array<T | undefined>>} Entities aligned with ids (undefined when missing or without remove hooks)
+     */
+    protected async loadForRemoval(ids: ReadonlyArray<string>): Promise<Array<T | undefined>> {
+        if (!hasEntityHooks(this.entityCtor, 'beforeRemove') && !hasEntityHooks(this.entityCtor, 'afterRemove')) {
+            return map(ids, () => undefined);
+        }
+
+        const sources = await this.mgetRawSources(ids);
+
+        return map(sources, (s, i) => (isNil(s) ? undefined : this.createEntity(s as Partial<T>, ids[i])));
+    }
+
+    /**
+     * Multi-get stored sources by ids (aligned with input order), untranslated.
+     * @param {ReadonlyArray<string>} ids - Document ids
+     * @returns {Promise<Array<object | undefined>>} The stored sources (undefined for missing docs)
+     */
+    protected async mgetRawSources(ids: ReadonlyArray<string>): Promise<Array<object | undefined>> {
+        if (isEmpty(ids)) return [];
+
+        type InlineGet<TDoc> = { _source?: TDoc; found?: boolean };
+        const routing = this.routingParams;
+        const res = await this.es.mget<object>({
+            docs: map(ids, (id) => ({ _id: id, _index: this.index, ...routing })),
+        } as Omit<Parameters<ElasticsearchClient['mget']>[0], 'index'>);
+        const docs = get(res, 'docs', []) as Array<InlineGet<object>>;
+
+        return map(docs, (d) => (get(d, 'found') && this.isVisibleSource(d._source) ? get(d, '_source') : undefined));
+    }
+
+    /**
+     * Execute bulk operations and report operations vetoed by lifecycle hooks as failed items.
+     * @param {BulkOperation[]} operations - Operations to execute
+     * @param {BulkFailedItem[]} vetoed - Operations vetoed by hooks
+     * @param {BulkOptions} [options] - Chunking, retry and error options
+     * @returns {Promise<BulkResult>} Succeeded and failed items with their reasons
+     * @throws {EsBulkError} If throwOnError is set and at least one item failed or was vetoed
+     */
+    protected async executeBulkWithVetoes(
+        operations: BulkOperation[],
+        vetoed: BulkFailedItem[],
+        options?: BulkOptions,
+    ): Promise<BulkResult> {
+        if (isEmpty(vetoed)) return isEmpty(operations) ? emptyBulkResult() : executeBulk(this.es, operations, options);
+
+        const result = isEmpty(operations)
+            ? emptyBulkResult()
+            : await executeBulk(this.es, operations, { ...options, throwOnError: false });
+
+        result.failed.push(...vetoed);
+        result.total += vetoed.length;
+
+        if (get(options, 'throwOnError')) throw new EsBulkError(result);
+
+        return result;
+    }
+
+    /**
+     * Bulk operation indexing an entity (create for data streams), stamped with the tenant and conditioned on its
+     * tracked or external version, else on the version checked by checkTenantWrites.
+     * @param {T} entity - Entity instance to index
+     * @param {string} [id] - Document id, defaults to the entity @IdField
+     * @param {EsConcurrencyParams} [checked] - Params returned by checkTenantWrites for the document
+     * @returns {BulkOperation} The index operation
+     */
+    protected toIndexOperation(entity: T, id?: string, checked?: EsConcurrencyParams): BulkOperation {
+        const concurrency = this.isDataStream ? {} : toConcurrencyParams(entity);
+
+        return {
+            id: id ?? getDocumentId(entity),
+            action: this.isDataStream ? 'create' : 'index',
+            body: this.stampTenant(toElasticsearchDocument(entity)),
+            index: this.writeIndex,
+            meta: { ...(isEmpty(concurrency) ? checked : concurrency), ...this.routingParams },
+        };
+    }
+
+    /**
+     * Bulk operation partially updating a document.
+     * @param {string} id - Document id
+     * @param {Partial<T>} doc - Partial entity data, after update hooks
+     * @param {object} tracked - Object whose tracked version conditions the update (the partial as given)
+     * @returns {BulkOperation} The update operation
+     */
+    protected toUpdateOperation(id: string, doc: Partial<T>, tracked: object): BulkOperation {
+        return {
+            id,
+            action: 'update',
+            body: { doc: toElasticsearchPartial(this.entityCtor, doc) },
+            index: this.writeIndex,
+            meta: { ...toConcurrencyParams(tracked, false), ...this.routingParams },
+        };
+    }
+
+    /**
+     * Bulk operation deleting a document, or soft deleting it with an update.
+     * @param {string} id - Document id
+     * @param {Record<string, unknown>} [deleted] - Soft delete partial document; the document is deleted when omitted
+     * @returns {BulkOperation} The delete or update operation
+     */
+    protected toDeleteOperation(id: string, deleted?: Record<string, unknown>): BulkOperation {
+        return {
+            id,
+            action: isNil(deleted) ? 'delete' : 'update',
+            body: isNil(deleted) ? undefined : { doc: deleted },
+            index: this.writeIndex,
+            meta: this.routingParams,
+        };
+    }
+
+    /**
+     * Run a conditional write, surfacing HTTP 409 as EsVersionConflictError.
+     * @template R - The write response type
+     * @param {string | undefined} id - Document id, if known
+     * @param {() => Promise<R>} write - The write request
+     * @returns {Promise<R>} The write response
+     * @throws {EsVersionConflictError} If the document changed since it was read
+     */
+    protected async guardConflict<R>(id: string | undefined, write: () => Promise<R>): Promise<R> {
+        try {
+            return await write();
+        } catch (error) {
+            if (isVersionConflict(error)) throw new EsVersionConflictError(this.entityCtor.name, id, error);
+
+            throw error;
+        }
+    }
+
+    /**
+     * With the shared tenancy strategy, read the stored tenant of documents about to be written by id. Writes are
+     * conditioned on the checked `_seq_no`/`_primary_term`, so a document changing tenant in between fails with a
+     * version conflict.
+     * @param {ReadonlyArray<string | undefined>} ids - Document ids, undefined for documents created with a generated id
+     * @returns {Promise<Array<EsConcurrencyParams | undefined>>} Per id, the params conditioning its write (empty
+     * without shared tenancy or for a missing document), or undefined when it belongs to another tenant
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     */
+    protected async checkTenantWrites(
+        ids: ReadonlyArray<string | undefined>,
+    ): Promise<Array<EsConcurrencyParams | undefined>> {
+        const tenantId = this.sharedTenantId;
+        const checked = compact(ids);
+
+        if (isNil(tenantId) || isEmpty(checked)) return map(ids, () => ({}));
+
+        const routing = this.routingParams;
+        const res = await this.es.mget<object>({
+            _source_includes: [this.tenantField],
+            docs: map(checked, (id) => ({ _id: id, _index: this.writeIndex, ...routing })),
+        } as Omit<Parameters<ElasticsearchClient['mget']>[0], 'index'>);
+        const docs = new Map(
+            map(
+                get(res, 'docs', []) as Array<EsHitVersionMeta & { _id: string; _source?: object; found?: boolean }>,
+                (d) => [d._id, d],
+            ),
+        );
+
+        return map(ids, (id) => {
+            const d = isNil(id) ? undefined : docs.get(id);
+
+            if (!get(d, 'found')) return {};
+
+            return get(d?._source, this.tenantField) === tenantId
+                ? { if_primary_term: d?._primary_term, if_seq_no: d?._seq_no }
+                : undefined;
+        });
+    }
+
+    /**
+     * Check a document about to be written by id like checkTenantWrites.
+     * @param {string} id - Document id
+     * @returns {Promise<EsConcurrencyParams>} The params conditioning the write
+     * @throws {EsTenantError} If the document belongs to another tenant, or tenancy is configured and there is no tenant
+     */
+    protected async guardTenantWrite(id: string): Promise<EsConcurrencyParams> {
+        const [checked] = await this.checkTenantWrites([id]);
+        const entity = this.entityCtor.name;
+
+        if (isNil(checked)) {
+            throw new EsTenantError(entity, `Elasticsearch document ${entity} ${id} belongs to another tenant`);
+        }
+
+        return checked;
+    }
+
+    /**
+     * Get a document _source by id, or undefined if it is missing or hidden like in findEntityById.
+     * @param {string} id - Document id
+     * @returns {Promise<T | undefined>} The document source
+     */
+    protected async getVisibleSource(id: string): Promise<T | undefined> {
+        const res = await this.es.get<T>({ id, index: this.index, ...this.routingParams }, { ignore: [404] });
+
+        return get(res, 'found') && this.isVisibleSource(res._source) ? this.toSource(res._source) : undefined;
+    }
+
+    /**
+     * Partially update (or upsert) a document after running @BeforeUpdate hooks, conditioned on the version of the
+     * partial (when it is an entity read through the repository) or of options.expected. With the shared tenancy
+     * strategy, documents of another tenant are rejected and only an upserted document is stamped with the tenant.
+     * @param {string} id - Document id
+     * @param {Partial<T>} partial - Partial entity data
+     * @param {'update' | 'upsert'} operation - Whether to upsert
+     * @param {{ expected?: object; refresh?: 'wait_for' | boolean }} [options] - Expected entity version and refresh settings
+     * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {EsWriteVetoedError} If a hook vetoed the update
+     * @throws {EsVersionConflictError} If the document changed since it was read
+     * @throws {EsTenantError} If the document belongs to another tenant
+     */
+    protected async writeUpdate(
+        id: string,
+        partial: Partial<T>,
+        operation: 'update' | 'upsert',
+        options?: { expected?: object; refresh?: 'wait_for' | boolean },
+    ): Promise<void> {
+        const tracked = isNil(getEntityVersion(partial)) ? get(options, 'expected') : partial;
+        const checked = await this.guardTenantWrite(id);
+        const concurrency = isNil(tracked) ? {} : toConcurrencyParams(tracked, false);
+        const doc = await this.prepareUpdate(id, partial, operation);
+        const upsert = operation === 'upsert' && !isNil(this.sharedTenantId);
+        const res = await this.guardConflict(id, () =>
+            this.es.update<T, Partial<T>>({
+                id,
+                doc,
+                doc_as_upsert: operation === 'upsert' && !upsert ? true : undefined,
+                index: this.writeIndex,
+                refresh: get(options, 'refresh'),
+                upsert: upsert ? (this.stampTenant({ ...doc }) as T) : undefined,
+                ...this.routingParams,
+                ...(isEmpty(concurrency) ? checked : concurrency),
+            }),
+        );
+
+        if (!isNil(tracked)) trackEntityVersion(tracked, res);
+    }
+
+    /**
+     * Restrict a query to the current tenant with the shared tenancy strategy, and to documents that are not
+     * soft-deleted unless withDeleted.
+     * @param {QueryDslQueryContainer | undefined} query - Query to restrict
+     * @returns {QueryDslQueryContainer | undefined} The restricted query (the same query when nothing applies)
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     */
+    protected scopeQuery(query: QueryDslQueryContainer | undefined): QueryDslQueryContainer | undefined {
+        const tenantId = this.sharedTenantId;
+        const deletedAt = this.excludedDeletedField;
+        const scoped = isNil(tenantId) ? query : scopeTenantQuery(query, this.tenantField, tenantId);
+
+        return isNil(deletedAt) ? scoped : excludeDeletedQuery(scoped, deletedAt);
+    }
+
+    /**
+     * Resolve a query builder (or raw query) into a query container, restricted like scopeQuery.
+     * @param {EsQueryBuilder<T> | QueryDslQueryContainer} [query] - Query builder or raw query
+     * @returns {QueryDslQueryContainer | undefined} The query container
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     */
+    protected toQuery(query?: EsQueryBuilder<T> | QueryDslQueryContainer): QueryDslQueryContainer | undefined {
+        return this.scopeQuery(query instanceof EsQueryBuilder ? query.toQuery() : query);
+    }
+
+    /**
+     * Restrict the query (or `q` query string) of search-like params like scopeQuery. `q` overrides the body query
+     * in Elasticsearch, so it is moved into the restricted query.
+     * @template P - The params type
+     * @param {P} params - Search, count or by-query params
+     * @returns {P} The restricted params
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     */
+    protected toScopedParams<P extends { q?: string; query?: QueryDslQueryContainer }>(params: P): P {
+        if (isNil(this.sharedTenantId) && isNil(this.excludedDeletedField)) return params;
+
+        const { q, ...rest } = params;
+
+        return { ...rest, query: this.scopeQuery(isNil(q) ? params.query : { query_string: { query: q } }) } as P;
+    }
+
+    /**
+     * Resolve a query builder (or raw params) into search params.
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
+     * @returns {EsSearchParams} The search params
+     */
+    protected toSearchParams(params: EsSearchInput<T>): EsSearchParams {
+        return params instanceof EsQueryBuilder ? params.build() : params;
+    }
+
+    /**
+     * Read and write targets resolved from the entity @Document metadata and the index name resolver, then mapped to
+     * the current tenant indices with the index tenancy strategy. Across tenants, reads span every tenant index and
+     * accessing the write target throws.
+     * @returns {EsIndexNames} The resolved targets
+     * @throws {Error} If @Document metadata is missing
+     * @throws {EsTenantError} If tenancy is configured and there is no tenant
+     * @throws {EsInvalidTenantError} If the tenant id cannot be part of an index name
+     */
+    protected get indexNames(): EsIndexNames {
+        const names = resolveIndexNames(this.entityCtor, this.options);
+        const { tenancy } = this.options;
+
+        if (tenancy?.strategy !== 'index') return names;
+
+        const tenantId = this.tenantId;
+
+        if (!isNil(tenantId)) return toTenantIndexNames(names, tenantId, tenancy);
+
+        const entity = this.entityCtor.name;
+
+        return {
+            read: toAllTenantsReadIndex(names, tenancy),
+            get write(): string {
+                throw new EsTenantError(
+                    entity,
+                    `Elasticsearch document ${entity} has one index per tenant: writes need a tenant`,
+                );
+            },
+        };
+    }
+
+    /**
+     * Target of reads and searches (the resolved read name, possibly a wildcard pattern).
      * @returns {string} The index name
      * @throws {Error} If @Document metadata is missing
      */
     protected get index(): string {
-        const meta = getDocumentMetadata(this.entityCtor);
+        return this.indexNames.read;
+    }
 
-        if (!meta) throw new Error('Missing @Document metadata for repository entity');
+    /**
+     * Target for writes: the `<index>_write` alias for versioned documents, the resolved write name otherwise.
+     * @returns {string} The write target
+     * @throws {Error} If @Document metadata is missing
+     */
+    protected get writeIndex(): string {
+        const { write } = this.indexNames;
 
-        return get(meta, 'index');
+        return get(getDocumentMetadata(this.entityCtor), 'versioned') ? getWriteAliasName(write) : write;
+    }
+
+    /**
+     * Whether the entity is stored in a data stream (append-only writes with `op_type: create`).
+     * @returns {boolean} True for `@Document({ dataStream: true })`
+     */
+    protected get isDataStream(): boolean {
+        return get(getDocumentMetadata(this.entityCtor), 'dataStream') === true;
     }
 
     /**
@@ -83,30 +708,103 @@ export class EsRepository<T extends object> {
     }
 
     /**
-     * Delete the target index (ignores 404).
+     * Delete the target index (ignores 404). For versioned documents every physical index behind the alias is deleted,
+     * and data streams are deleted with their backing indices.
      * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {EsTenantError} If the index is shared by tenants and the repository is not used across tenants
      */
     async deleteIndex(): Promise<void> {
-        await this.es.indices.delete({ index: this.index }, { ignore: [404] });
+        if (!isNil(this.sharedTenantId)) {
+            throw new EsTenantError(
+                this.entityCtor.name,
+                `Elasticsearch document ${this.entityCtor.name} shares its index between tenants: delete it across tenants`,
+            );
+        }
+
+        if (this.isDataStream) {
+            await this.es.indices.deleteDataStream({ name: this.writeIndex }, { ignore: [404] });
+
+            return;
+        }
+
+        const aliased = get(getDocumentMetadata(this.entityCtor), 'versioned')
+            ? keys(await resolveAliasIndices(this.es, [this.index, this.writeIndex]))
+            : [];
+
+        await this.es.indices.delete({ index: isEmpty(aliased) ? this.index : aliased }, { ignore: [404] });
     }
 
     /**
      * Create the index with settings and mappings built from decorators. No-op if entity has no @Document metadata.
+     * Versioned documents get a `<index>_v1` physical index behind the read and write aliases. Data stream documents
+     * get their ILM policy, component and index templates, and the data stream.
      * @returns {Promise<void>} Promise that resolves when operation completes
      */
     async ensureIndex(): Promise<void> {
-        const meta = buildDocumentMetadata(this.entityCtor);
+        await ensureDocumentIndex(this.es, this.entityCtor, this.indexNames.write);
+    }
+
+    /**
+     * Roll the data stream over to a new backing index.
+     * @param {IndicesRolloverRolloverConditions} [conditions] - Only roll over when one of the conditions is met
+     * @returns {Promise<IndicesRolloverResponse>} The rollover response (old and new backing index)
+     * @throws {Error} If the document is not a data stream
+     * @example
+     * const { new_index } = await repo.rollover({ max_age: '1d' });
+     */
+    async rollover(conditions?: IndicesRolloverRolloverConditions): Promise<IndicesRolloverResponse> {
+        if (!this.isDataStream) throw new Error(`Elasticsearch document ${this.entityCtor.name} is not a data stream`);
 
-        if (!meta) return;
+        return rolloverDataStream(this.es, this.writeIndex, conditions);
+    }
 
-        await this.es.indices.create(
-            {
-                index: get(meta, 'index'),
-                mappings: get(meta, 'mappings'),
-                settings: get(meta, 'settings'),
-            },
-            { ignore: [400] },
-        );
+    /**
+     * List the backing indices of the data stream, oldest first (the last one receives writes).
+     * @returns {Promise<string[]>} Backing index names, empty if the data stream does not exist yet
+     * @throws {Error} If the document is not a data stream
+     * @example
+     * const indices = await repo.getBackingIndices(); // ['.ds-order-events-2025.01.01-000001', ...]
+     */
+    async getBackingIndices(): Promise<string[]> {
+        if (!this.isDataStream) throw new Error(`Elasticsearch document ${this.entityCtor.name} is not a data stream`);
+
+        return getDataStreamBackingIndices(this.es, this.writeIndex);
+    }
+
+    /**
+     * Zero-downtime reindex for versioned documents: create `<index>_v<n+1>` from the current decorators, copy data
+     * (_reindex or scroll/bulk fallback), verify counts, atomically swap the read and write aliases and optionally
+     * delete the previous index.
+     * @param {ReindexOptions} [options] - Copy strategy, verification and cleanup options
+     * @returns {Promise<ReindexResult>} The previous and current physical indices
+     * @throws {EsReindexError} If the document is not versioned or verification fails
+     * @example
+     * const { currentIndex } = await repo.reindex({ deleteOld: true }); // 'products_v4'
+     */
+    async reindex(options?: ReindexOptions): Promise<ReindexResult> {
+        return reindexDocument(this.es, this.entityCtor, options, this.indexNames.write);
+    }
+
+    /**
+     * Compare the mappings and settings built from decorators with the live index.
+     * @returns {Promise<SchemaSyncReport>} The drift report, with each difference classified as additive or breaking
+     * @example
+     * const report = await repo.verifySchema();
+     * if (!report.inSync) console.table(report.differences);
+     */
+    async verifySchema(): Promise<SchemaSyncReport> {
+        return compareDocumentSchema(this.es, this.entityCtor, this.indexNames.write);
+    }
+
+    /**
+     * Detect drift with the live index and act on it ('verify' reports, 'additive' applies new fields and dynamic
+     * settings, 'fail' throws on any drift).
+     * @param {Exclude<SchemaSyncMode, 'off'>} [mode='additive'] - Sync mode
+     * @returns {Promise<SchemaSyncReport>} The drift report
+     * @throws {EsSchemaSyncError} In 'fail' mode, if the live index differs from the decorators
+     */
+    async syncSchema(mode: Exclude<SchemaSyncMode, 'off'> = 'additive'): Promise<SchemaSyncReport> {
+        return syncDocumentSchema(this.es, this.entityCtor, mode, this.indexNames.write);
     }
 
     /**
@@ -118,107 +816,358 @@ export class EsRepository<T extends object> {
     }
 
     /**
-     * Index a single entity. If id omitted, ES will generate one.
+     * Index a single entity after running its @BeforeIndex hooks. The id defaults to the entity @IdField; if
+     * neither is set, ES will generate one. Entities read through the repository are written conditionally. Data
+     * streams are append-only: documents are written with `op_type: create`.
      * @param {T} entity - Entity instance to index
      * @param {string} [id] - Optional document id
      * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {EsWriteVetoedError} If a hook vetoed the write
+     * @throws {EsVersionConflictError} If the document changed since it was read
      * @example
      * await repo.indexOne(user, 'user-123');
-     * await repo.indexOne(user); // ES generates ID
+     * await repo.indexOne(user); // uses @IdField, or ES generates ID
      */
     async indexOne(entity: T, id?: string): Promise<void> {
-        await this.es.index({ id, document: toElasticsearchDocument(entity), index: this.index });
+        await this.writeEntity(entity, id);
     }
 
     /**
-     * Bulk index entities using index action.
-     * @param {ReadonlyArray<T>} entities - Array of entities to index
-     * @returns {Promise<void>} Promise that resolves when operation completes
+     * Index an entity addressed by its @IdField and write the (possibly generated) `_id` back onto it. Entities
+     * read through the repository are written with `if_seq_no`/`if_primary_term` (or their @VersionField).
+     * @param {T} entity - Entity instance to save
+     * @returns {Promise<T>} The same entity with its id set
+     * @throws {EsWriteVetoedError} If a hook vetoed the write
+     * @throws {EsVersionConflictError} If the document changed since it was read
      * @example
-     * await repo.bulkIndex([user1, user2, user3]);
+     * const saved = await repo.save(Object.assign(new Product(), { name: 'Shoe' }));
+     * console.log(saved.id); // generated by ES when not set
      */
-    async bulkIndex(entities: ReadonlyArray<T>): Promise<void> {
-        if (isEmpty(entities)) return;
+    async save(entity: T): Promise<T> {
+        const res = await this.writeEntity(entity);
 
-        const operations: Array<Record<string, unknown>> = [];
+        setDocumentId(entity, get(res, '_id'));
 
-        forEach(entities, (e) => {
-            operations.push({ index: { _index: this.index } });
-            operations.push(toElasticsearchDocument(e));
-        });
-        await this.es.bulk({ operations });
+        return entity;
     }
 
     /**
-     * Bulk delete documents by ids.
+     * Run @BeforeIndex hooks and index an entity by the explicit id or its @IdField, conditioned on its tracked
+     * or external version. With the shared tenancy strategy, a stored document of another tenant is not overwritten.
+     * @param {T} entity - Entity instance to index
+     * @param {string} [id] - Optional explicit document id
+     * @returns {Promise<WriteResponseBase>} The index response
+     * @throws {EsWriteVetoedError} If a hook vetoed the write
+     * @throws {EsVersionConflictError} If the document changed since it was read
+     * @throws {EsTenantError} If the document belongs to another tenant
+     */
+    protected async writeEntity(entity: T, id?: string): Promise<WriteResponseBase> {
+        if (!(await runEntityHooks(entity, 'beforeIndex', { id: id ?? getDocumentId(entity), operation: 'index' }))) {
+            throw new EsWriteVetoedError(this.entityCtor.name, 'index', id ?? getDocumentId(entity));
+        }
+
+        const documentId = id ?? getDocumentId(entity);
+        const concurrency = toConcurrencyParams(entity);
+        const checked = isNil(documentId) || this.isDataStream ? {} : await this.guardTenantWrite(documentId);
+        const res = await this.guardConflict(documentId, () =>
+            this.es.index({
+                id: documentId,
+                document: this.stampTenant(toElasticsearchDocument(entity)),
+                index: this.writeIndex,
+                ...this.routingParams,
+                ...(this.isDataStream ? { op_type: 'create' } : isEmpty(concurrency) ? checked : concurrency),
+            }),
+        );
+
+        trackEntityVersion(entity, res);
+
+        return res;
+    }
+
+    /**
+     * Bulk index entities using index action (create for data streams). Work is split into chunks by document count
+     * and byte size, items rejected with 429/5xx are retried with backoff, and every item is reported in the result.
+     * Entities vetoed by a @BeforeIndex hook are not sent and are reported as failed, like documents of another tenant
+     * with the shared tenancy strategy. Ids come from getId, then the entity @IdField.
+     * @param {ReadonlyArray<T>} entities - Array of entities to index
+     * @param {BulkOptions & { getId?: (entity: T) => string | undefined }} [options] - Chunking/retry options and an optional document id accessor (defaults to the @IdField)
+     * @returns {Promise<BulkResult>} Succeeded and failed items with their reasons
+     * @throws {EsBulkError} If throwOnError is set and at least one item failed
+     * @example
+     * const result = await repo.bulkIndex([user1, user2, user3], { getId: (u) => u.id });
+     * if (result.failed.length) logger.warn(result.failed);
+     */
+    async bulkIndex(
+        entities: ReadonlyArray<T>,
+        options?: BulkOptions & { getId?: (entity: T) => string | undefined },
+    ): Promise<BulkResult> {
+        if (isEmpty(entities)) return emptyBulkResult();
+
+        const getId = get(options, 'getId');
+        const ids = map(entities, (e) => getId?.(e) ?? getDocumentId(e));
+        const checked = await this.checkTenantWrites(this.isDataStream ? map(ids, () => undefined) : ids);
+        const operations: BulkOperation[] = [];
+        const vetoed: BulkFailedItem[] = [];
+
+        for (const [i, e] of entities.entries()) {
+            if (isNil(checked[i])) {
+                vetoed.push(toForeignTenantBulkItem(this.toIndexOperation(e, ids[i])));
+                continue;
+            }
+
+            const allowed = await runEntityHooks(e, 'beforeIndex', { operation: 'bulkIndex' });
+            const operation = this.toIndexOperation(e, ids[i], checked[i]);
+
+            if (allowed) operations.push(operation);
+            else vetoed.push(toVetoedBulkItem(operation));
+        }
+
+        return this.executeBulkWithVetoes(operations, vetoed, options);
+    }
+
+    /**
+     * Bulk delete documents by ids, or set their @DeletedAtField when the entity is soft-deleted. With remove hooks,
+     * stored entities are loaded first: ids vetoed by a @BeforeRemove hook are reported as failed and @AfterRemove
+     * hooks run for deleted entities.
      * @param {ReadonlyArray<string>} ids - Array of document ids to delete
-     * @returns {Promise<void>} Promise that resolves when operation completes
+     * @param {BulkOptions} [options] - Chunking, retry and error options
+     * @returns {Promise<BulkResult>} Succeeded and failed items with their reasons
+     * @throws {EsBulkError} If throwOnError is set and at least one item failed
      * @example
-     * await repo.bulkDeleteByIds(['id1', 'id2', 'id3']);
+     * await repo.bulkDeleteByIds(['id1', 'id2', 'id3'], { throwOnError: true });
      */
-    async bulkDeleteByIds(ids: ReadonlyArray<string>): Promise<void> {
-        if (isEmpty(ids)) return;
+    async bulkDeleteByIds(ids: ReadonlyArray<string>, options?: BulkOptions): Promise<BulkResult> {
+        if (isEmpty(ids)) return emptyBulkResult();
 
-        const operations: Array<Record<string, unknown>> = [];
+        const checked = await this.checkTenantWrites(ids);
+        const entities = await this.loadForRemoval(ids);
+        const deleted = this.toDeletedAtDoc(new Date());
+        const operations: BulkOperation[] = [];
+        const vetoed: BulkFailedItem[] = [];
+        const removed = new Map<string, T>();
 
-        forEach(ids, (id) => {
-            operations.push({ delete: { _id: id, _index: this.index } });
-        });
-        await this.es.bulk({ operations });
+        for (const [i, id] of ids.entries()) {
+            const entity = entities[i];
+            const operation = this.toDeleteOperation(id, deleted);
+
+            if (isNil(checked[i])) {
+                vetoed.push(toForeignTenantBulkItem(operation));
+                continue;
+            }
+
+            operation.meta = { ...operation.meta, ...checked[i] };
+
+            if (entity && !(await runEntityHooks(entity, 'beforeRemove', { id, operation: 'bulkDelete' }))) {
+                vetoed.push(toVetoedBulkItem(operation));
+                continue;
+            }
+
+            if (entity) removed.set(id, entity);
+            operations.push(operation);
+        }
+
+        const result = await this.executeBulkWithVetoes(operations, vetoed, options);
+
+        for (const item of result.succeeded) {
+            const entity = isNil(item.id) ? undefined : removed.get(item.id);
+
+            if (entity) await runEntityHooks(entity, 'afterRemove', { id: item.id, operation: 'bulkDelete' });
+        }
+
+        return result;
     }
 
     /**
-     * Bulk update documents by ids with partial docs.
+     * Bulk update documents by ids with partial docs, after running @BeforeUpdate hooks on each partial. Updates
+     * vetoed by a hook are not sent and are reported as failed.
      * @param {ReadonlyArray<{ doc: Partial<T>; id: string }>} updates - Array of update operations
-     * @returns {Promise<void>} Promise that resolves when operation completes
+     * @param {BulkOptions} [options] - Chunking, retry and error options
+     * @returns {Promise<BulkResult>} Succeeded and failed items with their reasons
+     * @throws {EsBulkError} If throwOnError is set and at least one item failed
      * @example
      * await repo.bulkUpdateByIds([{ id: '1', doc: { name: 'New Name' } }]);
      */
-    async bulkUpdateByIds(updates: ReadonlyArray<{ doc: Partial<T>; id: string }>): Promise<void> {
-        if (isEmpty(updates)) return;
+    async bulkUpdateByIds(
+        updates: ReadonlyArray<{ doc: Partial<T>; id: string }>,
+        options?: BulkOptions,
+    ): Promise<BulkResult> {
+        if (isEmpty(updates)) return emptyBulkResult();
 
-        const operations: Array<Record<string, unknown>> = [];
+        const checked = await this.checkTenantWrites(map(updates, 'id'));
+        const operations: BulkOperation[] = [];
+        const vetoed: BulkFailedItem[] = [];
 
-        forEach(updates, ({ id, doc }) => {
-            operations.push({ update: { _id: id, _index: this.index } });
-            operations.push({ doc: doc as Record<string, unknown> });
-        });
-        await this.es.bulk({ operations });
+        for (const [i, { id, doc }] of updates.entries()) {
+            if (isNil(checked[i])) {
+                vetoed.push(toForeignTenantBulkItem(this.toUpdateOperation(id, doc, doc)));
+                continue;
+            }
+
+            const prepared = await runUpdateHooks(this.entityCtor, doc, { id, operation: 'bulkUpdate' });
+            const operation = this.toUpdateOperation(id, prepared ?? doc, doc);
+
+            if (isEmpty(toConcurrencyParams(doc, false))) operation.meta = { ...operation.meta, ...checked[i] };
+
+            if (isNil(prepared)) vetoed.push(toVetoedBulkItem(operation));
+            else operations.push(operation);
+        }
+
+        return this.executeBulkWithVetoes(operations, vetoed, options);
     }
 
     /**
-     * Delete a single document by id.
+     * Create a buffered write-behind indexer for this repository. Operations are batched into bulk requests by size,
+     * bytes and interval with bounded concurrency, and pending ones are written when ElasticsearchService shuts
+     * down. Tenancy and soft delete apply as in the bulk helpers, and before hooks run when operations are added. With
+     * the shared tenancy strategy, writes by id check the stored tenant when they are added and are conditioned on the
+     * checked version, so a document written twice before a flush reports the second write as a version conflict.
+     * @param {BulkIndexerOptions} [options] - Flush thresholds, concurrency, retry options and callbacks
+     * @returns {EsBulkWriter<T>} The entity writer and its underlying indexer
+     * @example
+     * const writer = repo.createBulkIndexer({ flushSize: 500, onFlush: (r) => log.debug(`${r.failed.length} failed`) });
+     * consumer.on('message', (m) => writer.index(toProduct(m)));
+     * await writer.close();
+     */
+    createBulkIndexer(options?: BulkIndexerOptions): EsBulkWriter<T> {
+        const indexer = new BulkIndexer(this.es, options);
+
+        return {
+            close: () => indexer.close(),
+            delete: async (id) => {
+                const operation = this.toDeleteOperation(id, this.toDeletedAtDoc(new Date()));
+
+                operation.meta = { ...operation.meta, ...(await this.guardTenantWrite(id)) };
+
+                await indexer.add(operation);
+            },
+            flush: () => indexer.flush(),
+            index: async (entity, id) => {
+                const documentId = id ?? getDocumentId(entity);
+                const checked = isNil(documentId) || this.isDataStream ? {} : await this.guardTenantWrite(documentId);
+
+                if (!(await runEntityHooks(entity, 'beforeIndex', { operation: 'bulkIndex' }))) return false;
+
+                await indexer.add(this.toIndexOperation(entity, id, checked));
+
+                return true;
+            },
+            indexer,
+            update: async (id, partial) => {
+                const checked = await this.guardTenantWrite(id);
+                const prepared = await runUpdateHooks(this.entityCtor, partial, { id, operation: 'bulkUpdate' });
+
+                if (isNil(prepared)) return false;
+
+                const operation = this.toUpdateOperation(id, prepared, partial);
+
+                if (isEmpty(toConcurrencyParams(partial, false))) operation.meta = { ...operation.meta, ...checked };
+
+                await indexer.add(operation);
+
+                return true;
+            },
+        };
+    }
+
+    /**
+     * Delete a single document by id, or set its @DeletedAtField when the entity is soft-deleted, running
+     * @BeforeRemove/@AfterRemove hooks on the stored entity if declared.
      * @param {string} id - Document id to delete
      * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {EsWriteVetoedError} If a hook vetoed the delete
      * @example
      * await repo.deleteById('user-123');
      */
     async deleteById(id: string): Promise<void> {
-        await this.es.delete({ id, index: this.index });
+        await this.removeById(id, this.toDeletedAtDoc(new Date()));
     }
 
     /**
-     * Partially update a single document by id.
+     * Remove a single document by id even when the entity is soft-deleted, running remove hooks like deleteById.
+     * @param {string} id - Document id to delete
+     * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {EsWriteVetoedError} If a hook vetoed the delete
+     * @example
+     * await repo.hardDelete('p-1'); // also removes a soft-deleted product
+     */
+    async hardDelete(id: string): Promise<void> {
+        await this.withDeleted().removeById(id);
+    }
+
+    /**
+     * Clear the @DeletedAtField of a soft-deleted document, after running @BeforeUpdate hooks.
+     * @param {string} id - Document id to restore
+     * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {Error} If the entity has no @DeletedAtField
+     * @throws {EsWriteVetoedError} If a hook vetoed the update
+     * @example
+     * await repo.restore('p-1');
+     */
+    async restore(id: string): Promise<void> {
+        const meta = getDeletedAtFieldMetadata(this.entityCtor);
+
+        if (isNil(meta)) throw new Error(`Elasticsearch document ${this.entityCtor.name} has no @DeletedAtField`);
+
+        await this.writeUpdate(id, { [meta.property]: null } as Partial<T>, 'update');
+    }
+
+    /**
+     * Delete a document by id, or apply a soft delete update, between the remove hooks of the stored entity.
+     * @param {string} id - Document id to delete
+     * @param {Record<string, unknown>} [deleted] - Soft delete partial document; the document is deleted when omitted
+     * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {EsWriteVetoedError} If a hook vetoed the delete
+     */
+    protected async removeById(id: string, deleted?: Record<string, unknown>): Promise<void> {
+        const checked = await this.guardTenantWrite(id);
+        const [entity] = await this.loadForRemoval([id]);
+
+        if (entity && !(await runEntityHooks(entity, 'beforeRemove', { id, operation: 'delete' }))) {
+            throw new EsWriteVetoedError(this.entityCtor.name, 'delete', id);
+        }
+
+        const params = { id, index: this.writeIndex, ...this.routingParams, ...checked };
+
+        await this.guardConflict(id, () =>
+            isNil(deleted) ? this.es.delete(params) : this.es.update({ ...params, doc: deleted }),
+        );
+
+        if (entity) await runEntityHooks(entity, 'afterRemove', { id, operation: 'delete' });
+    }
+
+    /**
+     * Partially update a single document by id, after running @BeforeUpdate hooks on the partial.
+     * When the partial is an entity read through the repository, or options.expected is, the update only applies if
+     * the document has not changed since it was read.
      * @param {string} id - Document id to update
      * @param {Partial<T>} partial - Partial entity data to update
+     * @param {{ expected?: object }} [options] - Entity read earlier whose version the document must still have
      * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {EsWriteVetoedError} If a hook vetoed the update
+     * @throws {EsVersionConflictError} If the document changed since it was read
      * @example
      * await repo.updateById('user-123', { name: 'New Name' });
+     * const product = await repo.findEntityById('p-1');
+     * await repo.updateById('p-1', { stock: product!.stock - 1 }, { expected: product });
      */
-    async updateById(id: string, partial: Partial<T>): Promise<void> {
-        await this.es.update<T, Partial<T>>({ id, doc: partial, index: this.index });
+    async updateById(id: string, partial: Partial<T>, options?: { expected?: object }): Promise<void> {
+        await this.writeUpdate(id, partial, 'update', options);
     }
 
     /**
-     * Upsert a single document by id with the given partial body.
+     * Upsert a single document by id with the given partial body, after running @BeforeUpdate hooks on the partial.
+     * Conditioned on the version of a read entity like updateById.
      * @param {string} id - Document id to upsert
      * @param {Partial<T>} partial - Partial entity data to upsert
+     * @param {{ expected?: object }} [options] - Entity read earlier whose version the document must still have
      * @returns {Promise<void>} Promise that resolves when operation completes
+     * @throws {EsWriteVetoedError} If a hook vetoed the upsert
+     * @throws {EsVersionConflictError} If the document changed since it was read
      * @example
      * await repo.upsertById('user-123', { name: 'Name', email: 'email@example.com' });
      */
-    async upsertById(id: string, partial: Partial<T>): Promise<void> {
-        await this.es.update<T, Partial<T>>({ id, doc: partial, doc_as_upsert: true, index: this.index });
+    async upsertById(id: string, partial: Partial<T>, options?: { expected?: object }): Promise<void> {
+        await this.writeUpdate(id, partial, 'upsert', options);
     }
 
     /**
@@ -233,53 +1182,53 @@ export class EsRepository<T extends object> {
         id: string,
         script: { lang?: string; params?: Record<string, unknown>; source: string },
     ): Promise<void> {
-        await this.es.update<T, unknown>({ id, index: this.index, script });
+        const checked = await this.guardTenantWrite(id);
+
+        await this.guardConflict(id, () =>
+            this.es.update<T, unknown>({ id, index: this.writeIndex, script, ...this.routingParams, ...checked }),
+        );
     }
 
     /**
-     * Update a document by id then return the latest _source.
+     * Update a document by id (running @BeforeUpdate hooks, conditioned like updateById) then return the latest _source.
      * @param {string} id - Document id to update
      * @param {Partial<T>} partial - Partial entity data to update
-     * @param {{ refresh?: 'wait_for' | boolean }} [options] - Optional refresh settings
+     * @param {{ expected?: object; refresh?: 'wait_for' | boolean }} [options] - Expected entity version and refresh settings
      * @returns {Promise<T | undefined>} The updated document source or undefined if not found
+     * @throws {EsWriteVetoedError} If a hook vetoed the update
+     * @throws {EsVersionConflictError} If the document changed since it was read
      * @example
      * const updated = await repo.updateByIdAndGetSource('user-123', { name: 'New Name' });
      */
     async updateByIdAndGetSource(
         id: string,
         partial: Partial<T>,
-        options?: { refresh?: 'wait_for' | boolean },
+        options?: { expected?: object; refresh?: 'wait_for' | boolean },
     ): Promise<T | undefined> {
-        await this.es.update<T, Partial<T>>({ id, doc: partial, index: this.index, refresh: get(options, 'refresh') });
-        const res = await this.es.get<T>({ id, index: this.index });
+        await this.writeUpdate(id, partial, 'update', options);
 
-        return get(res, '_source');
+        return this.getVisibleSource(id);
     }
 
     /**
-     * Upsert a document by id then return the latest _source.
+     * Upsert a document by id (running @BeforeUpdate hooks, conditioned like updateById) then return the latest _source.
      * @param {string} id - Document id to upsert
      * @param {Partial<T>} partial - Partial entity data to upsert
-     * @param {{ refresh?: 'wait_for' | boolean }} [options] - Optional refresh settings
+     * @param {{ expected?: object; refresh?: 'wait_for' | boolean }} [options] - Expected entity version and refresh settings
      * @returns {Promise<T | undefined>} The upserted document source or undefined if not found
+     * @throws {EsWriteVetoedError} If a hook vetoed the upsert
+     * @throws {EsVersionConflictError} If the document changed since it was read
      * @example
      * const upserted = await repo.upsertByIdAndGetSource('user-123', { name: 'Name' });
      */
     async upsertByIdAndGetSource(
         id: string,
         partial: Partial<T>,
-        options?: { refresh?: 'wait_for' | boolean },
+        options?: { expected?: object; refresh?: 'wait_for' | boolean },
     ): Promise<T | undefined> {
-        await this.es.update<T, Partial<T>>({
-            id,
-            doc: partial,
-            doc_as_upsert: true,
-            index: this.index,
-            refresh: get(options, 'refresh'),
-        });
-        const res = await this.es.get<T>({ id, index: this.index });
+        await this.writeUpdate(id, partial, 'upsert', options);
 
-        return get(res, '_source');
+        return this.getVisibleSource(id);
     }
 
     /**
@@ -296,34 +1245,60 @@ export class EsRepository<T extends object> {
         script: { lang?: string; params?: Record<string, unknown>; source: string },
         options?: { refresh?: 'wait_for' | boolean },
     ): Promise<T | undefined> {
-        await this.es.update<T, unknown>({ id, index: this.index, refresh: get(options, 'refresh'), script });
-        const res = await this.es.get<T>({ id, index: this.index });
+        const checked = await this.guardTenantWrite(id);
+
+        await this.guardConflict(id, () =>
+            this.es.update<T, unknown>({
+                id,
+                index: this.writeIndex,
+                refresh: get(options, 'refresh'),
+                script,
+                ...this.routingParams,
+                ...checked,
+            }),
+        );
 
-        return get(res, '_source');
+        return this.getVisibleSource(id);
     }
 
     /**
-     * Check if a document exists by id.
+     * Check if a document exists by id (belonging to the current tenant with the shared tenancy strategy, and not
+     * soft-deleted unless withDeleted).
      * @param {string} id - Document id to check
      * @returns {Promise<boolean>} True if document exists, false otherwise
      * @example
      * const exists = await repo.exists('user-123');
      */
     async exists(id: string): Promise<boolean> {
+        const fields = compact([isNil(this.sharedTenantId) ? undefined : this.tenantField, this.excludedDeletedField]);
+
+        if (!isEmpty(fields)) {
+            const doc = await this.es.get(
+                { _source_includes: fields, id, index: this.index, ...this.routingParams },
+                { ignore: [404] },
+            );
+
+            return get(doc, 'found') === true && this.isVisibleSource(doc._source);
+        }
+
         const res = await this.es.exists({ id, index: this.index });
 
         return isBoolean(res) ? res : false;
     }
 
     /**
-     * Get a document by id (raw response).
+     * Get a document by id (raw response). A document of another tenant with the shared tenancy strategy, or a
+     * soft-deleted one unless withDeleted, is answered with the not-found body (`found: false`) Elasticsearch returns
+     * with a 404.
      * @param {string} id - Document id to get
      * @returns {Promise<unknown>} The raw Elasticsearch response
      * @example
      * const rawDoc = await repo.findById('user-123');
      */
     async findById(id: string): Promise<unknown> {
-        return this.es.get({ id, index: this.index });
+        const res = await this.es.get({ id, index: this.index, ...this.routingParams });
+
+        return this.isVisibleSource(res._source) ? res : { _id: res._id, _index: res._index, found: false };
     }
 
     /**
@@ -338,9 +1313,9 @@ export class EsRepository<T extends object> {
 
         if (!found) return undefined;
 
-        const res = await this.es.get<T>({ id, index: this.index });
+        const res = await this.es.get<T>({ id, index: this.index, ...this.routingParams });
 
-        return get(res, '_source');
+        return this.toSource(get(res, '_source'));
     }
 
     /**
@@ -351,39 +1326,48 @@ export class EsRepository<T extends object> {
      * const users = await repo.mgetSources(['user-1', 'user-2', 'user-3']);
      */
     async mgetSources(ids: ReadonlyArray<string>): Promise<Array<T | undefined>> {
-        if (isEmpty(ids)) return [];
+        const sources = await this.mgetRawSources(ids);
 
-        type InlineGet<TDoc> = { _source?: TDoc; found?: boolean };
-        const res = await this.es.mget<T>({
-            docs: map(ids, (id) => ({ _id: id, _index: this.index })),
-        } as Omit<Parameters<ElasticsearchClient['mget']>[0], 'index'>);
-        const docs = get(res, 'docs', []) as Array<InlineGet<T>>;
-
-        return map(docs, (d) => (get(d, 'found') ? (get(d, '_source') as T) : undefined));
+        return map(sources, (s) => this.toSource(s));
     }
 
     /**
      * Count documents matching a query.
-     * @param {QueryDslQueryContainer} [query] - Optional query to filter documents
+     * @param {EsQueryBuilder<T> | QueryDslQueryContainer} [query] - Optional query or query builder to filter documents
      * @returns {Promise<number>} The count of matching documents
      * @example
      * const count = await repo.count({ term: { status: 'active' } });
+     * const active = await repo.count(repo.createQueryBuilder().filter((q) => q.term('status', 'active')));
      */
-    async count(query?: QueryDslQueryContainer): Promise<number> {
-        const res = await this.es.count({ index: this.index, query });
+    async count(query?: EsQueryBuilder<T> | QueryDslQueryContainer): Promise<number> {
+        const res = await this.es.count({ index: this.index, query: this.toQuery(query), ...this.routingParams });
 
         return get(res, 'count', 0);
     }
 
     /**
-     * Delete documents matching a query.
-     * @param {QueryDslQueryContainer} query - Query to match documents for deletion
+     * Delete documents matching a query, or set their @DeletedAtField with update-by-query when the entity is
+     * soft-deleted.
+     * @param {EsQueryBuilder<T> | QueryDslQueryContainer} query - Query or query builder to match documents for deletion
      * @returns {Promise<void>} Promise that resolves when operation completes
      * @example
      * await repo.deleteByQuery({ term: { status: 'inactive' } });
      */
-    async deleteByQuery(query: QueryDslQueryContainer): Promise<void> {
-        await this.es.deleteByQuery({ index: this.index, query });
+    async deleteByQuery(query: EsQueryBuilder<T> | QueryDslQueryContainer): Promise<void> {
+        const field = this.deletedAtField;
+
+        if (isNil(field)) {
+            await this.es.deleteByQuery({ index: this.writeIndex, query: this.toQuery(query), ...this.routingParams });
+
+            return;
+        }
+
+        await this.es.updateByQuery({
+            index: this.writeIndex,
+            query: this.toQuery(query),
+            script: softDeleteScript(field, get(this.toDeletedAtDoc(new Date()), field)),
+            ...this.routingParams,
+        });
     }
 
     /**
@@ -396,7 +1380,7 @@ export class EsRepository<T extends object> {
     async updateByQueryRaw(
         params: Omit<Parameters<ElasticsearchClient['updateByQuery']>[0], 'index'>,
     ): Promise<unknown> {
-        return this.es.updateByQuery({ index: this.index, ...params });
+        return this.es.updateByQuery({ index: this.writeIndex, ...this.routingParams, ...this.toScopedParams(params) });
     }
 
     /**
@@ -419,7 +1403,13 @@ export class EsRepository<T extends object> {
     ): Promise<unknown> {
         const { query, script, ...rest } = args;
 
-        return this.es.updateByQuery({ index: this.index, query, script, ...rest });
+        return this.es.updateByQuery({
+            index: this.writeIndex,
+            query: this.toQuery(query),
+            script,
+            ...this.routingParams,
+            ...rest,
+        });
     }
 
     /**
@@ -433,104 +1423,63 @@ export class EsRepository<T extends object> {
     async searchRaw<TDoc = T>(
         params: Omit<Parameters<ElasticsearchClient['search']>[0], 'index'>,
     ): Promise<SearchResponse<TDoc>> {
-        return this.es.search<TDoc>({ index: this.index, ...params });
+        return this.es.search<TDoc>({ index: this.index, ...this.routingParams, ...this.toScopedParams(params) });
     }
 
     /**
      * Search and return the full typed response.
-     * @param {object} params - Search parameters
-     * @param {number} [params.from] - Starting offset
-     * @param {string} [params.q] - Query string
-     * @param {QueryDslQueryContainer} [params.query] - Elasticsearch query
-     * @param {number} [params.size] - Number of results to return
-     * @param {unknown} [params.sort] - Sort configuration
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
      * @returns {Promise<SearchResponse<T>>} The full Elasticsearch search response
      * @example
      * const response = await repo.search({ query: { match: { name: 'John' } }, size: 10 });
      */
-    async search(params: {
-        from?: number;
-        q?: string;
-        query?: QueryDslQueryContainer;
-        size?: number;
-        sort?: unknown;
-    }): Promise<SearchResponse<T>> {
-        const request = { index: this.index, ...params } as Parameters<ElasticsearchClient['search']>[0];
-
-        return this.es.search<T>(request);
+    async search(params: EsSearchInput<T>): Promise<SearchResponse<T>> {
+        return this.es.search<T>({
+            index: this.index,
+            ...this.routingParams,
+            ...this.toScopedParams(this.toSearchParams(params)),
+        });
     }
 
     /**
      * Search and return the _source array.
-     * @param {object} params - Search parameters
-     * @param {number} [params.from] - Starting offset
-     * @param {string} [params.q] - Query string
-     * @param {QueryDslQueryContainer} [params.query] - Elasticsearch query
-     * @param {number} [params.size] - Number of results to return
-     * @param {unknown} [params.sort] - Sort configuration
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
      * @returns {Promise<T[]>} Array of document sources
      * @example
      * const users = await repo.searchSources({ query: { match: { status: 'active' } } });
      */
-    async searchSources(params: {
-        from?: number;
-        q?: string;
-        query?: QueryDslQueryContainer;
-        size?: number;
-        sort?: unknown;
-    }): Promise<T[]> {
+    async searchSources(params: EsSearchInput<T>): Promise<T[]> {
         const res = await this.search(params);
         const hits = get(res, 'hits.hits', []);
 
         return filter(
-            map(hits, (h) => get(h, '_source')),
+            map(hits, (h) => this.toSource(get(h, '_source'))),
             (s): s is T => !isNil(s),
         );
     }
 
     /**
-     * Search and return hydrated entity instances.
-     * @param {object} params - Search parameters
-     * @param {number} [params.from] - Starting offset
-     * @param {string} [params.q] - Query string
-     * @param {QueryDslQueryContainer} [params.query] - Elasticsearch query
-     * @param {number} [params.size] - Number of results to return
-     * @param {unknown} [params.sort] - Sort configuration
+     * Search and return hydrated entity instances (running @AfterLoad hooks).
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
      * @returns {Promise<T[]>} Array of hydrated entity instances
      * @example
      * const userEntities = await repo.searchEntities({ query: { match: { name: 'John' } } });
      */
-    async searchEntities(params: {
-        from?: number;
-        q?: string;
-        query?: QueryDslQueryContainer;
-        size?: number;
-        sort?: unknown;
-    }): Promise<T[]> {
-        const sources = await this.searchSources(params);
+    async searchEntities(params: EsSearchInput<T>): Promise<T[]> {
+        const res = await this.search({ ...this.toSearchParams(params), seq_no_primary_term: true, version: true });
+        const hits = filter(get(res, 'hits.hits', []), (h) => !isNil(h._source));
 
-        return map(sources, (s) => this.createEntity(s));
+        return Promise.all(map(hits, (h) => this.hydrate(h._source as T, h)));
     }
 
     /**
      * Search and return only document ids.
-     * @param {object} params - Search parameters
-     * @param {number} [params.from] - Starting offset
-     * @param {string} [params.q] - Query string
-     * @param {QueryDslQueryContainer} [params.query] - Elasticsearch query
-     * @param {number} [params.size] - Number of results to return
-     * @param {unknown} [params.sort] - Sort configuration
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
      * @returns {Promise<string[]>} Array of document ids
      * @example
      * const userIds = await repo.searchIds({ query: { match: { status: 'active' } } });
      */
-    async searchIds(params: {
-        from?: number;
-        q?: string;
-        query?: QueryDslQueryContainer;
-        size?: number;
-        sort?: unknown;
-    }): Promise<string[]> {
+    async searchIds(params: EsSearchInput<T>): Promise<string[]> {
         const res = await this.search(params);
         const hits = get(res, 'hits.hits', []);
 
@@ -542,55 +1491,35 @@ export class EsRepository<T extends object> {
 
     /**
      * Search and return the first hit _source, if any.
-     * @param {object} params - Search parameters
-     * @param {number} [params.from] - Starting offset
-     * @param {string} [params.q] - Query string
-     * @param {QueryDslQueryContainer} [params.query] - Elasticsearch query
-     * @param {number} [params.size] - Number of results to return
-     * @param {unknown} [params.sort] - Sort configuration
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
      * @returns {Promise<T | undefined>} The first document source or undefined if no matches
      * @example
      * const firstUser = await repo.searchFirstSource({ query: { match: { name: 'John' } } });
      */
-    async searchFirstSource(params: {
-        from?: number;
-        q?: string;
-        query?: QueryDslQueryContainer;
-        size?: number;
-        sort?: unknown;
-    }): Promise<T | undefined> {
-        const res = await this.search({ ...params, size: 1 });
+    async searchFirstSource(params: EsSearchInput<T>): Promise<T | undefined> {
+        const res = await this.search({ ...this.toSearchParams(params), size: 1 });
         const hit = first(get(res, 'hits.hits', []));
 
-        return get(hit, '_source');
+        return this.toSource(get(hit, '_source'));
     }
 
     /**
      * Search and return sources along with ES metadata (index, id, score).
-     * @param {object} params - Search parameters
-     * @param {number} [params.from] - Starting offset
-     * @param {string} [params.q] - Query string
-     * @param {QueryDslQueryContainer} [params.query] - Elasticsearch query
-     * @param {number} [params.size] - Number of results to return
-     * @param {unknown} [params.sort] - Sort configuration
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
      * @returns {Promise<Array<{ id: string; index: string; score: null | number; source: T }>>} Array of documents with metadata
      * @example
      * const usersWithMeta = await repo.searchSourcesWithMeta({ query: { match: { name: 'John' } } });
      */
-    async searchSourcesWithMeta(params: {
-        from?: number;
-        q?: string;
-        query?: QueryDslQueryContainer;
-        size?: number;
-        sort?: unknown;
-    }): Promise<Array<{ id: string; index: string; score: null | number; source: T }>> {
+    async searchSourcesWithMeta(
+        params: EsSearchInput<T>,
+    ): Promise<Array<{ id: string; index: string; score: null | number; source: T }>> {
         const res = await this.search(params);
         const hits = get(res, 'hits.hits', []);
         const mapped = map(hits, (h) => ({
             id: toString(get(h, '_id')),
             index: toString(get(h, '_index')),
             score: (get(h, '_score') as null | number) ?? null,
-            source: get(h, '_source') as T,
+            source: this.toSource(get(h, '_source')) as T,
         }));
 
         return filter(mapped, (m) => !isNil(m.source));
@@ -598,29 +1527,20 @@ export class EsRepository<T extends object> {
 
     /**
      * Search and return first source with ES metadata (index, id, score), if any.
-     * @param {object} params - Search parameters
-     * @param {number} [params.from] - Starting offset
-     * @param {string} [params.q] - Query string
-     * @param {QueryDslQueryContainer} [params.query] - Elasticsearch query
-     * @param {number} [params.size] - Number of results to return
-     * @param {unknown} [params.sort] - Sort configuration
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
      * @returns {Promise<undefined | { id: string; index: string; score: null | number; source: T }>} First document with metadata or undefined
      * @example
      * const firstUserWithMeta = await repo.searchFirstSourceWithMeta({ query: { match: { name: 'John' } } });
      */
-    async searchFirstSourceWithMeta(params: {
-        from?: number;
-        q?: string;
-        query?: QueryDslQueryContainer;
-        size?: number;
-        sort?: unknown;
-    }): Promise<undefined | { id: string; index: string; score: null | number; source: T }> {
-        const res = await this.search({ ...params, size: 1 });
+    async searchFirstSourceWithMeta(
+        params: EsSearchInput<T>,
+    ): Promise<undefined | { id: string; index: string; score: null | number; source: T }> {
+        const res = await this.search({ ...this.toSearchParams(params), size: 1 });
         const hit = first(get(res, 'hits.hits', []));
 
         if (isNil(hit)) return undefined;
 
-        const source = get(hit, '_source');
+        const source = this.toSource(get(hit, '_source'));
 
         if (isNil(source)) return undefined;
 
@@ -633,40 +1553,264 @@ export class EsRepository<T extends object> {
     }
 
     /**
-     * Search and return the first hydrated entity, if any.
-     * @param {object} params - Search parameters
-     * @param {number} [params.from] - Starting offset
-     * @param {string} [params.q] - Query string
-     * @param {QueryDslQueryContainer} [params.query] - Elasticsearch query
-     * @param {number} [params.size] - Number of results to return
-     * @param {unknown} [params.sort] - Sort configuration
+     * Search and return the first hydrated entity (running @AfterLoad hooks), if any.
+     * @param {EsSearchInput<T>} params - Search parameters or a query builder
      * @returns {Promise<T | undefined>} The first hydrated entity or undefined if no matches
      * @example
      * const firstUserEntity = await repo.searchFirstEntity({ query: { match: { name: 'John' } } });
      */
-    async searchFirstEntity(params: {
-        from?: number;
-        q?: string;
-        query?: QueryDslQueryContainer;
+    async searchFirstEntity(params: EsSearchInput<T>): Promise<T | undefined> {
+        const res = await this.search({
+            ...this.toSearchParams(params),
+            seq_no_primary_term: true,
+            size: 1,
+            version: true,
+        });
+        const hit = first(get(res, 'hits.hits', []));
+
+        return isNil(hit) || isNil(hit._source) ? undefined : this.hydrate(hit._source, hit);
+    }
+
+    /**
+     * Iterate over every matching document in batches using a point-in-time and search_after, without the
+     * `index.max_result_window` limit. The point-in-time is closed when iteration completes, on `break` and on error.
+     * @param {EsQueryBuilder<T> | QueryDslQueryContainer} [query] - Optional query or query builder
+     * @param {EsIterateOptions} [options] - Batch size, keep alive and sort
+     * @returns {AsyncGenerator<T[]>} Async iterable of hydrated entity batches
+     * @example
+     * for await (const batch of repo.iterateBatches({ term: { status: 'active' } }, { batchSize: 500 })) {
+     *   await exporter.write(batch);
+     * }
+     */
+    async *iterateBatches(
+        query?: EsQueryBuilder<T> | QueryDslQueryContainer,
+        options?: EsIterateOptions,
+    ): AsyncGenerator<T[]> {
+        const keepAlive = get(options, 'keepAlive', ES_ITERATE_DEFAULT_KEEP_ALIVE);
+        const size = get(options, 'batchSize', ES_ITERATE_DEFAULT_BATCH_SIZE);
+        const baseSort = get(options, 'sort') ?? (query instanceof EsQueryBuilder ? query.build().sort : undefined);
+        const sort = isNil(baseSort) ? [] : [...castArray<SortCombinations>(baseSort)];
+
+        if (!some(sort, (s) => s === '_shard_doc' || has(s, '_shard_doc'))) sort.push({ _shard_doc: 'asc' });
+
+        const pit = await this.es.openPointInTime({ index: this.index, keep_alive: keepAlive, ...this.routingParams });
+        let pitId = pit.id;
+        let searchAfter: SortResults | undefined;
+
+        try {
+            while (true) {
+                const res = await this.es.search<T>({
+                    pit: { id: pitId, keep_alive: keepAlive },
+                    query: this.toQuery(query),
+                    search_after: searchAfter,
+                    seq_no_primary_term: true,
+                    size,
+                    sort,
+                    track_total_hits: false,
+                    version: true,
+                });
+                const hits = get(res, 'hits.hits', []);
+
+                pitId = get(res, 'pit_id') ?? pitId;
+
+                if (isEmpty(hits)) return;
+
+                yield await Promise.all(
+                    map(
+                        filter(hits, (h) => !isNil(h._source)),
+                        (h) => this.hydrate(h._source as T, h),
+                    ),
+                );
+
+                if (hits.length < size) return;
+
+                searchAfter = last(hits)?.sort;
+            }
+        } finally {
+            await this.es.closePointInTime({ id: pitId }, { ignore: [404] });
+        }
+    }
+
+    /**
+     * Iterate over every matching document one entity at a time (see iterateBatches).
+     * @param {EsQueryBuilder<T> | QueryDslQueryContainer} [query] - Optional query or query builder
+     * @param {EsIterateOptions} [options] - Batch size, keep alive and sort
+     * @returns {AsyncGenerator<T>} Async iterable of hydrated entities
+     * @example
+     * for await (const product of repo.iterate(repo.createQueryBuilder().filter((q) => q.term('brand', 'acme')))) {
+     *   feed.push(product);
+     * }
+     */
+    async *iterate(query?: EsQueryBuilder<T> | QueryDslQueryContainer, options?: EsIterateOptions): AsyncGenerator<T> {
+        for await (const batch of this.iterateBatches(query, options)) {
+            yield* batch;
+        }
+    }
+
+    /**
+     * Paginate with opaque cursors backed by search_after. The sort should end with a unique field (e.g. the id)
+     * so that cursors are stable; cursors are only accepted for the sort they were issued with.
+     * @param {EsPaginateOptions<T>} params - Query, sort, page size, cursor and codec
+     * @returns {Promise<EsPage<T>>} Hydrated entities with next/previous cursors and the total hit count
+     * @throws {EsCursorError} If the cursor is invalid or was issued for a different sort
+     * @example
+     * const page = await repo.paginate({
+     *   query: { term: { status: 'active' } },
+     *   sort: [{ createdAt: 'desc' }, { sku: 'asc' }],
+     *   limit: 20,
+     *   cursor: req.query.cursor,
+     * });
+     * res.json({ items: page.items, next: page.nextCursor, prev: page.prevCursor });
+     */
+    async paginate(params: EsPaginateOptions<T>): Promise<EsPage<T>> {
+        const codec = get(params, 'codec', defaultCursorCodec);
+        const limit = get(params, 'limit', ES_PAGINATE_DEFAULT_LIMIT);
+        const sortParam = get(params, 'sort');
+        const baseSort = sortParam ?? (params.query instanceof EsQueryBuilder ? params.query.build().sort : undefined);
+
+        if (isNil(baseSort) || isEmpty(castArray<SortCombinations>(baseSort))) {
+            throw new EsCursorError('Cursor pagination requires a sort');
+        }
+
+        // Query builder sorts are already translated, a sort given directly names entity properties
+        const sort = map(normalizeSort(baseSort), (clause) =>
+            isNil(sortParam) ? clause : mapKeys(clause, (_options, field) => toFieldPath(this.entityCtor, field)),
+        );
+        const cursor = isNil(params.cursor) ? undefined : codec.decode(params.cursor);
+
+        if (cursor && !isEqual(cursor.sort, sort)) {
+            throw new EsCursorError('Pagination cursor was issued for a different sort');
+        }
+
+        const backwards = get(cursor, 'direction') === 'prev';
+        const res = await this.es.search<T>({
+            index: this.index,
+            query: this.toQuery(params.query),
+            ...this.routingParams,
+            search_after: get(cursor, 'after'),
+            seq_no_primary_term: true,
+            size: limit + 1,
+            sort: backwards ? reverseSort(sort) : sort,
+            track_total_hits: true,
+            version: true,
+        });
+        const total = get(res, 'hits.total');
+        const more = get(res, 'hits.hits', []).length > limit;
+        const hits = get(res, 'hits.hits', []).slice(0, limit);
+
+        if (backwards) hits.reverse();
+
+        const firstSort = first(hits)?.sort;
+        const lastSort = last(hits)?.sort;
+        const hasNext = backwards ? !isEmpty(hits) : more;
+        const hasPrev = backwards ? more : !isNil(cursor);
+
+        return {
+            items: await Promise.all(
+                map(
+                    filter(hits, (h) => !isNil(h._source)),
+                    (h) => this.hydrate(h._source as T, h),
+                ),
+            ),
+            nextCursor: hasNext && lastSort ? codec.encode({ after: lastSort, direction: 'next', sort }) : undefined,
+            prevCursor: hasPrev && firstSort ? codec.encode({ after: firstSort, direction: 'prev', sort }) : undefined,
+            total: isNumber(total) ? total : get(total, 'value', 0),
+        };
+    }
+
+    /**
+     * Run aggregations, optionally restricted by a query, and return a typed result tree that mirrors the request.
+     * @template A - The aggregation definitions
+     * @param {object} params - Aggregation parameters
+     * @param {A} params.aggs - Aggregations (terms, date_histogram, histogram, range, stats, cardinality, percentiles, top_hits) with optional sub-aggregations
+     * @param {EsQueryBuilder<T> | QueryDslQueryContainer} [params.query] - Optional query or query builder restricting the aggregated documents
+     * @param {number} [params.size=0] - Number of hits to return alongside the aggregations
+     * @returns {Promise<EsAggregateResponse<T, A>>} Typed aggregations with hit sources, total and took
+     * @example
+     * const { aggregations } = await repo.aggregate({
+     *   query: { term: { status: 'active' } },
+     *   aggs: {
+     *     byBrand: { terms: { field: 'brand', size: 10 }, aggs: { price: { stats: { field: 'price' } } } },
+     *   },
+     * });
+     * aggregations.byBrand.buckets.map((b) => ({ brand: b.key, avg: b.price.avg }));
+     */
+    async aggregate<A extends EsAggregations<T>>(params: {
+        aggs: A;
+        query?: EsQueryBuilder<T> | QueryDslQueryContainer;
         size?: number;
-        sort?: unknown;
-    }): Promise<T | undefined> {
-        const src = await this.searchFirstSource(params);
+    }): Promise<EsAggregateResponse<T, A>> {
+        const res = await this.es.search<T>({
+            aggs: compileAggregations(this.entityCtor, params.aggs),
+            index: this.index,
+            query: this.toQuery(params.query),
+            ...this.routingParams,
+            size: get(params, 'size', 0),
+        });
+        const hits = get(res, 'hits.hits', []);
+        const total = get(res, 'hits.total');
 
-        return isNil(src) ? undefined : this.createEntity(src);
+        return {
+            aggregations: get(res, 'aggregations', {}) as unknown as EsAggregationResults<A, T>,
+            hits: filter(
+                map(hits, (h) => this.toSource(get(h, '_source'))),
+                (s): s is T => !isNil(s),
+            ),
+            took: get(res, 'took', 0),
+            total: isNumber(total) ? total : get(total, 'value', 0),
+        };
     }
 
     /**
-     * Get one document by id and hydrate into entity instance.
+     * Get one document by id and hydrate into entity instance (running @AfterLoad hooks).
      * @param {string} id - Document id to get
      * @returns {Promise<T | undefined>} The hydrated entity or undefined if not found
      * @example
      * const userEntity = await repo.findEntityById('user-123');
      */
     async findEntityById(id: string): Promise<T | undefined> {
-        const src = await this.findSourceById(id);
+        const res = await this.es.get<T>({ id, index: this.index, ...this.routingParams }, { ignore: [404] });
+
+        return !get(res, 'found') || isNil(res._source) || !this.isVisibleSource(res._source)
+            ? undefined
+            : this.hydrate(res._source, res);
+    }
+
+    /**
+     * Load an entity, apply a mutation and save it conditionally, reloading and retrying when the document changed
+     * concurrently.
+     * @param {string} id - Document id
+     * @param {(entity: T) => Promise<void> | void} mutate - Mutation applied to the freshly loaded entity
+     * @param {{ retries?: number }} [options] - Number of retries after a version conflict (default 3)
+     * @returns {Promise<T | undefined>} The saved entity or undefined if the document does not exist
+     * @throws {EsVersionConflictError} If the document still conflicts after all retries
+     * @example
+     * await repo.retryOnConflict('p-1', (p) => {
+     *   p.stock -= 1;
+     * });
+     */
+    async retryOnConflict(
+        id: string,
+        mutate: (entity: T) => Promise<void> | void,
+        options?: { retries?: number },
+    ): Promise<T | undefined> {
+        const retries = get(options, 'retries', ES_CONFLICT_DEFAULT_RETRIES);
+
+        for (let attempt = 0; ; attempt++) {
+            const entity = await this.findEntityById(id);
+
+            if (isNil(entity)) return undefined;
+
+            await mutate(entity);
+
+            try {
+                await this.writeEntity(entity, id);
 
-        return isNil(src) ? undefined : this.createEntity(src);
+                return entity;
+            } catch (error) {
+                if (!(error instanceof EsVersionConflictError) || attempt >= retries) throw error;
+            }
+        }
     }
 }
 
@@ -0,0 +1,55 @@
+import { Document, Field } from './es.decorators';
+import { syncDocumentSchema } from './es.schema-sync';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'articles' })
+class Article {
+    @Field({ type: 'keyword', doc_values: true, eager_global_ordinals: false, norms: false })
+    slug!: string;
+
+    @Field({ type: 'text', index_options: 'positions', norms: true, similarity: 'BM25' })
+    title!: string;
+}
+
+@Document({ index: 'articles' })
+class UnnormedArticle {
+    @Field({ type: 'text', norms: false })
+    title!: string;
+}
+
+/**
+ * Client answering with a live index whose mappings omit default parameters, like Elasticsearch does.
+ * @param {Record<string, unknown>} properties - Live mapping properties
+ * @returns {ElasticsearchClient} The client
+ */
+const liveIndex = (properties: Record<string, unknown>): ElasticsearchClient =>
+    ({
+        indices: {
+            exists: async () => true,
+            getMapping: async () => ({ articles: { mappings: { properties } } }),
+            getSettings: async () => ({ articles: { settings: {} } }),
+        },
+    }) as unknown as ElasticsearchClient;
+
+describe('syncDocumentSchema', () => {
+    it('treats parameters omitted by getMapping as their defaults', async () => {
+        const client = liveIndex({ slug: { type: 'keyword' }, title: { type: 'text' } });
+
+        await expect(syncDocumentSchema(client, Article)).resolves.toMatchObject({ differences: [], inSync: true });
+    });
+
+    it('reports parameters that differ from the type default', async () => {
+        const report = await syncDocumentSchema(liveIndex({ title: { type: 'text' } }), UnnormedArticle);
+
+        expect(report.differences).toEqual([
+            {
+                actual: true,
+                breaking: true,
+                expected: false,
+                kind: 'parameter_changed',
+                path: 'properties.title.norms',
+            },
+        ]);
+    });
+});
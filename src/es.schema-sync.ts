@@ -0,0 +1,353 @@
+import castArray from 'lodash/castArray';
+import first from 'lodash/first';
+import forEach from 'lodash/forEach';
+import get from 'lodash/get';
+import has from 'lodash/has';
+import includes from 'lodash/includes';
+import isEmpty from 'lodash/isEmpty';
+import isEqual from 'lodash/isEqual';
+import isNil from 'lodash/isNil';
+import isPlainObject from 'lodash/isPlainObject';
+import map from 'lodash/map';
+import omit from 'lodash/omit';
+import some from 'lodash/some';
+import startsWith from 'lodash/startsWith';
+import values from 'lodash/values';
+
+import { EsSchemaSyncError } from './es.errors';
+import { buildDocumentMetadata } from './es.utils';
+
+import type { ElasticsearchClient } from './es.interfaces';
+import type { MappingProperty } from '@elastic/elasticsearch/lib/api/types';
+
+export type SchemaSyncMode = 'additive' | 'fail' | 'off' | 'verify';
+
+export type SchemaDifferenceKind =
+    'analyzer_changed' | 'field_missing' | 'parameter_changed' | 'setting_changed' | 'type_changed';
+
+export interface SchemaDifference {
+    actual?: unknown;
+    /** Breaking differences cannot be applied in place and require a reindex */
+    breaking: boolean;
+    expected?: unknown;
+    kind: SchemaDifferenceKind;
+    /** Dotted mapping path (`properties.name.fields.raw`) or flat setting key (`index.number_of_shards`) */
+    path: string;
+}
+
+export interface SchemaSyncReport {
+    /** Additive differences applied with putMapping/putSettings (additive mode only) */
+    applied: SchemaDifference[];
+    differences: SchemaDifference[];
+    exists: boolean;
+    index: string;
+    inSync: boolean;
+}
+
+type MappingNode = Record<string, unknown> & {
+    fields?: Record<string, MappingNode>;
+    properties?: Record<string, MappingNode>;
+    type?: string;
+};
+
+interface SchemaDiff {
+    /** Missing mapping properties, to add with putMapping */
+    additions: Record<string, MappingNode>;
+    /** Differences that the additive mode applies */
+    applicable: SchemaDifference[];
+    report: SchemaSyncReport;
+    /** Dynamic settings to update with putSettings */
+    settings: Record<string, unknown>;
+}
+
+const ANALYZER_PARAMETERS = ['analyzer', 'normalizer', 'search_analyzer', 'search_quote_analyzer'];
+
+const NESTED_PARAMETERS = ['fields', 'properties', 'type'];
+
+// Defaults Elasticsearch omits from getMapping responses
+const PARAMETER_DEFAULTS: Record<string, unknown> = {
+    boost: 1,
+    coerce: true,
+    doc_values: true,
+    eager_global_ordinals: false,
+    enabled: true,
+    fielddata: false,
+    ignore_malformed: false,
+    ignore_z_value: true,
+    index: true,
+    index_phrases: false,
+    position_increment_gap: 100,
+    similarity: 'BM25',
+    split_queries_on_whitespace: false,
+    store: false,
+    term_vector: 'no',
+};
+
+// Omitted defaults that depend on the field type
+const TYPE_PARAMETER_DEFAULTS: Record<string, Record<string, unknown>> = {
+    keyword: { index_options: 'docs', norms: false },
+    text: { index_options: 'positions', norms: true },
+};
+
+// Settings that can only be set at index creation (or on a closed index)
+const STATIC_SETTINGS = [
+    'index.analysis',
+    'index.codec',
+    'index.mapping.source',
+    'index.number_of_routing_shards',
+    'index.number_of_shards',
+    'index.routing_partition_size',
+    'index.sort',
+];
+
+const normalizeValue = (value: unknown): unknown =>
+    Array.isArray(value) ? map(value, (v) => String(v)) : isNil(value) ? value : String(value);
+
+const typeOf = (property: MappingNode): string | undefined =>
+    property.type ?? (isNil(property.properties) ? undefined : 'object');
+
+const defaultOf = (type: string | undefined, parameter: string): unknown =>
+    get(TYPE_PARAMETER_DEFAULTS, [type ?? '', parameter], PARAMETER_DEFAULTS[parameter]);
+
+/**
+ * Flatten nested settings into `index.*` keys as returned by getSettings with flat_settings.
+ * @param {Record<string, unknown>} settings - Nested or flat settings
+ * @param {string} [prefix='index'] - Key prefix
+ * @returns {Record<string, unknown>} Flat settings
+ */
+const flattenSettings = (settings: Record<string, unknown>, prefix = 'index'): Record<string, unknown> => {
+    const flat: Record<string, unknown> = {};
+
+    forEach(settings, (value, key) => {
+        const path = prefix === 'index' && (key === 'index' || startsWith(key, 'index.')) ? key : `${prefix}.${key}`;
+
+        if (isPlainObject(value)) {
+            Object.assign(flat, flattenSettings(value as Record<string, unknown>, path));
+        } else {
+            flat[path] = value;
+        }
+    });
+
+    return flat;
+};
+
+/**
+ * Compare expected mapping properties with live ones, collecting differences and the additive mapping to apply.
+ * @param {Record<string, MappingNode>} expected - Properties built from decorators
+ * @param {Record<string, MappingNode> | undefined} actual - Live properties
+ * @param {string} path - Path of the parent object
+ * @param {SchemaDifference[]} differences - Collected differences
+ * @param {SchemaDifference[]} applicable - Collected differences covered by the returned additions
+ * @returns {Record<string, MappingNode>} Properties that can be added with putMapping
+ */
+const compareProperties = (
+    expected: Record<string, MappingNode>,
+    actual: Record<string, MappingNode> | undefined,
+    path: string,
+    differences: SchemaDifference[],
+    applicable: SchemaDifference[],
+): Record<string, MappingNode> => {
+    const additions: Record<string, MappingNode> = {};
+
+    forEach(expected, (exp, name) => {
+        const fieldPath = `${path}.${name}`;
+        const act = get(actual, name);
+
+        if (isNil(act)) {
+            const missing: SchemaDifference = {
+                breaking: false,
+                expected: exp,
+                kind: 'field_missing',
+                path: fieldPath,
+            };
+
+            differences.push(missing);
+            applicable.push(missing);
+            additions[name] = exp;
+
+            return;
+        }
+
+        const expType = typeOf(exp);
+        const actType = typeOf(act);
+
+        if (!isNil(expType) && expType !== actType) {
+            differences.push({
+                actual: actType,
+                breaking: true,
+                expected: expType,
+                kind: 'type_changed',
+                path: fieldPath,
+            });
+
+            return;
+        }
+
+        const before = differences.length;
+        const applicableBefore = applicable.length;
+
+        forEach(omit(exp, NESTED_PARAMETERS), (value, parameter) => {
+            const current = has(act, parameter) ? act[parameter] : defaultOf(actType, parameter);
+            const same = includes(ANALYZER_PARAMETERS, parameter)
+                ? value === current
+                : isEqual(normalizeValue(castArray(value)), normalizeValue(castArray(current)));
+
+            if (same) return;
+
+            differences.push({
+                actual: current,
+                breaking: true,
+                expected: value,
+                kind: includes(ANALYZER_PARAMETERS, parameter) ? 'analyzer_changed' : 'parameter_changed',
+                path: `${fieldPath}.${parameter}`,
+            });
+        });
+
+        const changed = differences.length > before;
+        const childProperties = isNil(exp.properties)
+            ? {}
+            : compareProperties(exp.properties, act.properties, `${fieldPath}.properties`, differences, applicable);
+        const childFields = isNil(exp.fields)
+            ? {}
+            : compareProperties(exp.fields, act.fields, `${fieldPath}.fields`, differences, applicable);
+
+        // A field with changed parameters needs a reindex, so its new children are reported but not applied
+        if (changed) applicable.splice(applicableBefore);
+
+        if (changed || (isEmpty(childProperties) && isEmpty(childFields))) return;
+
+        const addition: MappingNode = isEmpty(childFields)
+            ? { properties: childProperties }
+            : { ...omit(exp, ['properties']), fields: childFields };
+
+        if (!isEmpty(childProperties)) addition.properties = childProperties;
+
+        if (!isNil(exp.type)) addition.type = exp.type;
+
+        additions[name] = addition;
+    });
+
+    return additions;
+};
+
+/**
+ * Compare the mappings and settings built from a document's decorators with the live index.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {object} target - Class decorated with @Document
+ * @param {string} [index] - Resolved index name to use instead of the @Document index
+ * @returns {Promise<SchemaDiff>} The report with the additive mapping and settings to apply
+ * @throws {Error} If the class has no @Document metadata
+ */
+const diffDocumentSchema = async (client: ElasticsearchClient, target: object, index?: string): Promise<SchemaDiff> => {
+    const meta = buildDocumentMetadata(target, index);
+
+    if (!meta) throw new Error('Missing @Document metadata for schema sync target');
+
+    const report: SchemaSyncReport = { applied: [], differences: [], exists: false, index: meta.index, inSync: false };
+    const exists = await client.indices.exists({ index: meta.index });
+
+    if (!exists) return { additions: {}, applicable: [], report, settings: {} };
+
+    const [mappingRes, settingsRes] = await Promise.all([
+        client.indices.getMapping({ index: meta.index }),
+        client.indices.getSettings({ flat_settings: true, index: meta.index }),
+    ]);
+    const liveMappings = get(first(values(mappingRes)), 'mappings', {});
+    const liveSettings = get(first(values(settingsRes)), 'settings', {}) as Record<string, unknown>;
+    const differences: SchemaDifference[] = [];
+    const applicable: SchemaDifference[] = [];
+    const additions = compareProperties(
+        get(meta, 'mappings.properties', {}) as Record<string, MappingNode>,
+        get(liveMappings, 'properties') as Record<string, MappingNode> | undefined,
+        'properties',
+        differences,
+        applicable,
+    );
+    const settings: Record<string, unknown> = {};
+
+    forEach(flattenSettings(meta.settings ?? {}), (value, key) => {
+        const current = liveSettings[key];
+
+        if (isEqual(normalizeValue(value), normalizeValue(current))) return;
+
+        const breaking = some(STATIC_SETTINGS, (prefix) => key === prefix || startsWith(key, `${prefix}.`));
+
+        const changed: SchemaDifference = {
+            actual: current,
+            breaking,
+            expected: value,
+            kind: 'setting_changed',
+            path: key,
+        };
+
+        differences.push(changed);
+
+        if (breaking) return;
+
+        applicable.push(changed);
+        settings[key] = value;
+    });
+
+    report.exists = true;
+    report.differences = differences;
+    report.inSync = isEmpty(differences);
+
+    return { additions, applicable, report, settings };
+};
+
+/**
+ * Compare the mappings and settings built from a document's decorators with the live index, classifying each
+ * difference as additive (new fields, dynamic settings) or breaking (type, analyzer, parameter or static setting
+ * changes).
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {object} target - Class decorated with @Document
+ * @param {string} [index] - Resolved index name to use instead of the @Document index
+ * @returns {Promise<SchemaSyncReport>} The drift report
+ * @example
+ * const report = await compareDocumentSchema(client, Product);
+ * if (report.differences.some((d) => d.breaking)) process.exit(1);
+ */
+export const compareDocumentSchema = async (
+    client: ElasticsearchClient,
+    target: object,
+    index?: string,
+): Promise<SchemaSyncReport> => get(await diffDocumentSchema(client, target, index), 'report');
+
+/**
+ * Detect drift between a document's decorators and the live index and act on it according to the mode:
+ * `verify` only reports, `additive` applies additive differences with putMapping/putSettings, and `fail` throws
+ * when any difference exists.
+ * @param {ElasticsearchClient} client - Elasticsearch client instance
+ * @param {object} target - Class decorated with @Document
+ * @param {SchemaSyncMode} [mode='verify'] - Sync mode
+ * @param {string} [index] - Resolved index name to use instead of the @Document index
+ * @returns {Promise<SchemaSyncReport>} The drift report (with applied differences in additive mode)
+ * @throws {EsSchemaSyncError} In fail mode, if the live index differs from the decorators
+ * @example
+ * await syncDocumentSchema(client, Product, 'additive');
+ */
+export const syncDocumentSchema = async (
+    client: ElasticsearchClient,
+    target: object,
+    mode: Exclude<SchemaSyncMode, 'off'> = 'verify',
+    index?: string,
+): Promise<SchemaSyncReport> => {
+    const { additions, applicable, report, settings } = await diffDocumentSchema(client, target, index);
+
+    if (mode === 'fail' && !report.inSync && report.exists) throw new EsSchemaSyncError(report);
+
+    if (mode !== 'additive') return report;
+
+    if (!isEmpty(additions)) {
+        await client.indices.putMapping({
+            index: report.index,
+            properties: additions as Record<string, MappingProperty>,
+        });
+    }
+
+    if (!isEmpty(settings)) await client.indices.putSettings({ index: report.index, settings });
+
+    report.applied = applicable;
+
+    return report;
+};
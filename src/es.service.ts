@@ -1,23 +1,33 @@
 import { Injectable, Logger, type LoggerService, OnModuleDestroy } from '@nestjs/common';
 
+import { BulkIndexer, drainBulkIndexers } from './es.bulk-indexer';
 import { ES_DEFAULT_CLIENT_NAME } from './es.constants';
+import { instrumentElasticsearchClient } from './es.metrics';
 import { createElasticsearchClient } from './es.utils';
 
+import type { BulkIndexerOptions } from './es.bulk-indexer';
+import type { EsIndexNameResolver } from './es.index-names';
 import type { ElasticsearchClient, ElasticsearchModuleOptions } from './es.interfaces';
+import type { EsTenancyOptions } from './es.tenancy';
 
 /**
  * Service for managing Elasticsearch clients with logging and lifecycle management.
  */
 @Injectable()
 export class ElasticsearchService implements OnModuleDestroy {
+    private indexNameResolver?: EsIndexNameResolver;
     private logger: LoggerService = new Logger(ElasticsearchService.name);
     private readonly nameToClient = new Map<string, ElasticsearchClient>();
+    private tenancy?: EsTenancyOptions;
 
     /**
-     * Clean up all Elasticsearch clients when module is destroyed.
+     * Clean up all Elasticsearch clients when module is destroyed, after writing the pending operations of their
+     * bulk indexers.
      * @returns {Promise<void>} Promise that resolves when all clients are closed
      */
     async onModuleDestroy(): Promise<void> {
+        await Promise.allSettled(Array.from(this.nameToClient.values(), (client) => drainBulkIndexers(client)));
+
         const closers: Array<Promise<void>> = [];
 
         for (const client of this.nameToClient.values()) {
@@ -51,7 +61,37 @@ export class ElasticsearchService implements OnModuleDestroy {
     }
 
     /**
-     * Configure the service with client options and logger.
+     * Create a buffered write-behind bulk indexer for a client. It is drained when the module is destroyed.
+     * @param {BulkIndexerOptions} [options] - Flush thresholds, concurrency, retry options and callbacks
+     * @param {string} [name=ES_DEFAULT_CLIENT_NAME] - Client name
+     * @returns {BulkIndexer} The bulk indexer
+     * @throws {Error} If client with given name is not found
+     * @example
+     * const indexer = service.createBulkIndexer({ flushSize: 500, flushIntervalMs: 2000 }, 'analytics');
+     * await indexer.add({ action: 'index', index: 'clicks', body: click });
+     */
+    createBulkIndexer(options?: BulkIndexerOptions, name = ES_DEFAULT_CLIENT_NAME): BulkIndexer {
+        return new BulkIndexer(this.get(name), options);
+    }
+
+    /**
+     * Get the index name resolver configured for the module.
+     * @returns {EsIndexNameResolver | undefined} The resolver or undefined if indices are used verbatim
+     */
+    getIndexNameResolver(): EsIndexNameResolver | undefined {
+        return this.indexNameResolver;
+    }
+
+    /**
+     * Get the tenancy options configured for the module.
+     * @returns {EsTenancyOptions | undefined} The tenancy options or undefined if repositories are not tenant-scoped
+     */
+    getTenancyOptions(): EsTenancyOptions | undefined {
+        return this.tenancy;
+    }
+
+    /**
+     * Configure the service with client options, logger, metrics, index name resolver and tenancy.
      * @param {ElasticsearchModuleOptions} options - Module configuration options
      * @returns {void}
      * @example
@@ -60,15 +100,32 @@ export class ElasticsearchService implements OnModuleDestroy {
     configure(options: ElasticsearchModuleOptions): void {
         if (options.logger) this.logger = options.logger;
 
+        this.indexNameResolver = options.indexNameResolver;
+        this.tenancy = options.tenancy;
+
         for (const def of options.clients) {
             const name = (def.name || ES_DEFAULT_CLIENT_NAME).toLowerCase();
             const client = createElasticsearchClient(def);
 
             this.nameToClient.set(name, client);
             this.attachLogs(name, client);
+
+            if (options.metrics) instrumentElasticsearchClient(client, name, options.metrics);
         }
     }
 
+    /**
+     * Register an existing client under a name, e.g. an in-memory stand-in in tests. No logging is attached.
+     * @param {string} name - Client name
+     * @param {ElasticsearchClient} client - Elasticsearch client instance
+     * @returns {void}
+     * @example
+     * service.addClient('default', new InMemoryElasticsearchClient().asClient());
+     */
+    addClient(name: string, client: ElasticsearchClient): void {
+        this.nameToClient.set(name.toLowerCase(), client);
+    }
+
     /**
      * Attach logging to an Elasticsearch client.
      * @param {string} name - Client name for logging labels
@@ -0,0 +1,101 @@
+import { DeletedAtField, Document, Field } from './es.decorators';
+import { EsRepository } from './es.repository';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'products' })
+class Product {
+    @DeletedAtField()
+    @Field({ type: 'date' })
+    deletedAt?: Date | null;
+
+    @Field({ type: 'keyword' })
+    name!: string;
+}
+
+/**
+ * Client serving stored sources by id and answering writes, counts and searches without storing anything.
+ * @param {Record<string, Record<string, unknown>>} stored - Stored sources by id
+ * @returns {ElasticsearchClient} The client
+ */
+const storedClient = (stored: Record<string, Record<string, unknown>>): ElasticsearchClient => {
+    const doc = (id: string) =>
+        id in stored ? { _id: id, _index: 'products', _source: stored[id], found: true } : { _id: id, found: false };
+
+    return {
+        count: jest.fn(async () => ({ count: 1 })),
+        delete: jest.fn(async ({ id }: { id: string }) => ({ _id: id, result: 'deleted' })),
+        exists: jest.fn(async ({ id }: { id: string }) => id in stored),
+        get: jest.fn(async ({ id }: { id: string }) => doc(id)),
+        mget: jest.fn(async ({ docs }: { docs: Array<{ _id: string }> }) => ({
+            docs: docs.map(({ _id }) => doc(_id)),
+        })),
+        search: jest.fn(async () => ({ hits: { hits: [], total: { relation: 'eq', value: 0 } } })),
+        update: jest.fn(async ({ id }: { id: string }) => ({ _id: id, result: 'updated' })),
+        updateByQuery: jest.fn(async () => ({ updated: 1 })),
+    } as unknown as ElasticsearchClient;
+};
+
+const notDeleted = { bool: { must_not: [{ exists: { field: 'deletedAt' } }] } };
+
+describe('EsRepository soft delete', () => {
+    let client: ElasticsearchClient;
+    let repo: EsRepository<Product>;
+
+    beforeEach(() => {
+        client = storedClient({
+            '1': { deletedAt: null, name: 'a' },
+            '2': { deletedAt: '2026-10-19T08:00:00.000Z', name: 'b' },
+        });
+        repo = new EsRepository(client, Product);
+    });
+
+    it('marks deleted documents instead of removing them', async () => {
+        await repo.deleteById('1');
+
+        expect(client.delete).not.toHaveBeenCalled();
+        expect(client.update).toHaveBeenCalledWith(
+            expect.objectContaining({ doc: { deletedAt: expect.any(Date) }, id: '1' }),
+        );
+    });
+
+    it('filters deleted documents from searches and counts', async () => {
+        await repo.count();
+        await repo.withDeleted().count();
+        await repo.searchSources({ query: { term: { name: 'a' } } });
+
+        expect(client.count).toHaveBeenNthCalledWith(1, expect.objectContaining({ query: notDeleted }));
+        expect(client.count).toHaveBeenNthCalledWith(2, expect.not.objectContaining({ query: notDeleted }));
+        expect(client.search).toHaveBeenCalledWith(
+            expect.objectContaining({ query: { bool: { ...notDeleted.bool, must: [{ term: { name: 'a' } }] } } }),
+        );
+    });
+
+    it('hides deleted documents from id-based reads', async () => {
+        expect(await repo.exists('2')).toBe(false);
+        expect(await repo.findSourceById('2')).toBeUndefined();
+        expect(await repo.findEntityById('2')).toBeUndefined();
+        expect(await repo.findById('2')).toEqual({ _id: '2', _index: 'products', found: false });
+        expect(await repo.findById('1')).toMatchObject({ _source: { name: 'a' }, found: true });
+        expect(await repo.withDeleted().findById('2')).toMatchObject({ _source: { name: 'b' }, found: true });
+    });
+
+    it('restores and hard deletes', async () => {
+        await repo.restore('2');
+        await repo.hardDelete('2');
+
+        expect(client.update).toHaveBeenCalledWith(expect.objectContaining({ doc: { deletedAt: null }, id: '2' }));
+        expect(client.delete).toHaveBeenCalledWith(expect.objectContaining({ id: '2' }));
+    });
+
+    it('soft deletes by query', async () => {
+        await repo.deleteByQuery({ term: { name: 'a' } });
+
+        expect(client.updateByQuery).toHaveBeenCalledWith(
+            expect.objectContaining({
+                query: { bool: { ...notDeleted.bool, must: [{ term: { name: 'a' } }] } },
+                script: expect.objectContaining({ params: { deletedAt: expect.any(Date) } }),
+            }),
+        );
+    });
+});
@@ -0,0 +1,37 @@
+import isEmpty from 'lodash/isEmpty';
+import isNil from 'lodash/isNil';
+
+import type { QueryDslQueryContainer, Script } from '@elastic/elasticsearch/lib/api/types';
+
+/**
+ * Restrict a query to documents that are not soft-deleted. The original query keeps scoring as a `must` clause.
+ * @param {QueryDslQueryContainer | undefined} query - Query to restrict (all documents when undefined)
+ * @param {string} field - Elasticsearch field of the @DeletedAtField property
+ * @returns {QueryDslQueryContainer} The restricted query
+ * @example
+ * excludeDeletedQuery({ match: { name: 'shoe' } }, 'deleted_at');
+ * // { bool: { must: [{ match: { name: 'shoe' } }], must_not: [{ exists: { field: 'deleted_at' } }] } }
+ */
+export const excludeDeletedQuery = (
+    query: QueryDslQueryContainer | undefined,
+    field: string,
+): QueryDslQueryContainer => ({
+    bool: {
+        ...(isNil(query) || isEmpty(query) ? {} : { must: [query] }),
+        must_not: [{ exists: { field } }],
+    },
+});
+
+/**
+ * Update-by-query script setting the deletion date of every matched document.
+ * @param {string} field - Elasticsearch field of the @DeletedAtField property
+ * @param {unknown} deletedAt - Serialized deletion date
+ * @returns {Script} The painless script
+ * @example
+ * softDeleteScript('deleted_at', '2026-10-19T00:00:00.000Z');
+ */
+export const softDeleteScript = (field: string, deletedAt: unknown): Script => ({
+    lang: 'painless',
+    params: { deletedAt },
+    source: `ctx._source[${JSON.stringify(field)}] = params.deletedAt`,
+});
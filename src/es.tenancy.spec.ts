@@ -0,0 +1,181 @@
+import { Document, Field } from './es.decorators';
+import { EsInvalidTenantError, EsTenantError } from './es.errors';
+import { EsRepository } from './es.repository';
+import { assertTenantId, toAllTenantsReadIndex, toTenantIndexNames } from './es.tenancy';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'keyword' })
+    name!: string;
+
+    @Field({ type: 'keyword' })
+    tenantId?: string;
+}
+
+const product = (values: Partial<Product>): Product => Object.assign(new Product(), values);
+
+/**
+ * Client serving stored sources by id at seq_no 7 and primary term 1, and answering writes without storing them.
+ * @param {Record<string, Record<string, unknown>>} stored - Stored sources by id
+ * @returns {ElasticsearchClient} The client
+ */
+const tenantClient = (stored: Record<string, Record<string, unknown>> = {}): ElasticsearchClient => {
+    const doc = (id: string) =>
+        id in stored
+            ? { _id: id, _index: 'products', _primary_term: 1, _seq_no: 7, _source: stored[id], found: true }
+            : { _id: id, _index: 'products', found: false };
+    const write = (result: string) => jest.fn(async ({ id }: { id: string }) => ({ _id: id, result }));
+
+    return {
+        bulk: jest.fn(),
+        count: jest.fn(async () => ({ count: 2 })),
+        delete: write('deleted'),
+        exists: jest.fn(async ({ id }: { id: string }) => id in stored),
+        get: jest.fn(async ({ id }: { id: string }) => doc(id)),
+        index: write('created'),
+        mget: jest.fn(async ({ docs }: { docs: Array<{ _id: string }> }) => ({
+            docs: docs.map(({ _id }) => doc(_id)),
+        })),
+        search: jest.fn(async () => ({ hits: { hits: [], total: { relation: 'eq', value: 0 } } })),
+        update: write('updated'),
+    } as unknown as ElasticsearchClient;
+};
+
+describe('tenant index names', () => {
+    const names = { read: 'products', write: 'products' };
+
+    it('maps targets to the tenant indices', () => {
+        expect(toTenantIndexNames(names, 'acme-eu_1.a', { strategy: 'index' })).toEqual({
+            read: 'products-acme-eu_1.a',
+            write: 'products-acme-eu_1.a',
+        });
+        expect(toAllTenantsReadIndex(names, { strategy: 'index' })).toBe('products-*');
+    });
+
+    it.each(['*', 'acme*', 'a,b', 'ac me', ' acme', 'Acme', '', '-acme', '_acme', '.', 'a/b', 'a:b', 'a#b'])(
+        'rejects %p',
+        (tenantId) => {
+            expect(() => assertTenantId(tenantId)).toThrow(EsInvalidTenantError);
+            expect(() => toTenantIndexNames(names, tenantId, { strategy: 'index' })).toThrow(EsInvalidTenantError);
+        },
+    );
+
+    it('validates ids passed to a custom indexName', () => {
+        const indexName = jest.fn((index: string, tenantId: string) => `${tenantId}.${index}`);
+
+        expect(() => toTenantIndexNames(names, 'a,b', { indexName, strategy: 'index' })).toThrow(EsInvalidTenantError);
+        expect(indexName).not.toHaveBeenCalled();
+    });
+});
+
+describe('EsRepository with the index tenancy strategy', () => {
+    let client: ElasticsearchClient;
+    let repo: EsRepository<Product>;
+
+    beforeEach(() => {
+        client = tenantClient();
+        repo = new EsRepository(client, Product, { tenancy: { strategy: 'index' } });
+    });
+
+    it('writes to the tenant index and reads across tenants', async () => {
+        await repo.forTenant('acme').indexOne(product({ name: 'a' }), '1');
+
+        expect(client.index).toHaveBeenCalledWith(expect.objectContaining({ id: '1', index: 'products-acme' }));
+        expect(await repo.acrossTenants().count()).toBe(2);
+        expect(client.count).toHaveBeenCalledWith(expect.objectContaining({ index: 'products-*' }));
+    });
+
+    it('rejects tenant ids that would widen or break the index name', async () => {
+        await expect(repo.forTenant('*').count()).rejects.toThrow(EsInvalidTenantError);
+        await expect(repo.forTenant('acme,globex').searchSources({})).rejects.toThrow(EsInvalidTenantError);
+
+        const resolved = new EsRepository(client, Product, {
+            tenancy: { strategy: 'index', tenantResolver: () => 'Acme' },
+        });
+
+        await expect(resolved.indexOne(product({ name: 'a' }), '1')).rejects.toThrow(EsInvalidTenantError);
+        expect(client.index).not.toHaveBeenCalled();
+    });
+});
+
+describe('EsRepository with the shared tenancy strategy', () => {
+    let client: ElasticsearchClient;
+    let acme: EsRepository<Product>;
+    let globex: EsRepository<Product>;
+
+    beforeEach(() => {
+        client = tenantClient({ '1': { name: 'a', tenantId: 'acme' } });
+
+        const repo = new EsRepository(client, Product, { tenancy: { strategy: 'shared' } });
+
+        acme = repo.forTenant('acme');
+        globex = repo.forTenant('globex');
+    });
+
+    const checked = expect.objectContaining({ if_primary_term: 1, if_seq_no: 7 });
+    const foreign = [expect.objectContaining({ error: expect.objectContaining({ type: 'tenant_mismatch' }), id: '1' })];
+
+    it('hides documents of other tenants from id-based reads', async () => {
+        expect(await globex.exists('1')).toBe(false);
+        expect(await globex.findSourceById('1')).toBeUndefined();
+        expect(await globex.findEntityById('1')).toBeUndefined();
+        expect(await globex.mgetSources(['1'])).toEqual([undefined]);
+        expect(await acme.findSourceById('1')).toEqual({ name: 'a', tenantId: 'acme' });
+    });
+
+    it('rejects writes by id to documents of other tenants', async () => {
+        const script = { params: { name: 'x' }, source: 'ctx._source.name = params.name' };
+
+        await expect(globex.indexOne(product({ name: 'x' }), '1')).rejects.toThrow(EsTenantError);
+        await expect(globex.updateById('1', { name: 'x' })).rejects.toThrow(EsTenantError);
+        await expect(globex.upsertById('1', { name: 'x' })).rejects.toThrow(EsTenantError);
+        await expect(globex.updateByIdScript('1', script)).rejects.toThrow(EsTenantError);
+        await expect(globex.updateByIdAndGetSource('1', { name: 'x' })).rejects.toThrow(EsTenantError);
+        await expect(globex.upsertByIdAndGetSource('1', { name: 'x' })).rejects.toThrow(EsTenantError);
+        await expect(globex.updateByIdScriptAndGetSource('1', script)).rejects.toThrow(EsTenantError);
+        await expect(globex.deleteById('1')).rejects.toThrow(EsTenantError);
+        await expect(globex.hardDelete('1')).rejects.toThrow(EsTenantError);
+
+        expect(client.index).not.toHaveBeenCalled();
+        expect(client.update).not.toHaveBeenCalled();
+        expect(client.delete).not.toHaveBeenCalled();
+    });
+
+    it('reports bulk writes to documents of other tenants as failed items', async () => {
+        expect((await globex.bulkIndex([product({ name: 'x' })], { getId: () => '1' })).failed).toEqual(foreign);
+        expect((await globex.bulkUpdateByIds([{ doc: { name: 'x' }, id: '1' }])).failed).toEqual(foreign);
+        expect((await globex.bulkDeleteByIds(['1'])).failed).toEqual(foreign);
+        expect(client.bulk).not.toHaveBeenCalled();
+    });
+
+    it('rejects buffered writes to documents of other tenants', async () => {
+        const writer = globex.createBulkIndexer({ flushIntervalMs: 0 });
+
+        await expect(writer.index(product({ name: 'x' }), '1')).rejects.toThrow(EsTenantError);
+        await expect(writer.update('1', { name: 'x' })).rejects.toThrow(EsTenantError);
+        await expect(writer.delete('1')).rejects.toThrow(EsTenantError);
+        await writer.close();
+
+        expect(client.bulk).not.toHaveBeenCalled();
+    });
+
+    it('writes documents of the current tenant conditioned on the checked version', async () => {
+        await acme.indexOne(product({ name: 'b' }), '1');
+        await acme.updateById('1', { name: 'c' });
+        await acme.deleteById('1');
+
+        expect(client.index).toHaveBeenCalledWith(checked);
+        expect(client.update).toHaveBeenCalledWith(checked);
+        expect(client.delete).toHaveBeenCalledWith(checked);
+    });
+
+    it('stamps upserted documents with the tenant', async () => {
+        await globex.upsertById('2', { name: 'b' });
+
+        expect(client.update).toHaveBeenCalledWith(
+            expect.objectContaining({ id: '2', upsert: { name: 'b', tenantId: 'globex' } }),
+        );
+    });
+});
@@ -0,0 +1,167 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import isEmpty from 'lodash/isEmpty';
+import isNil from 'lodash/isNil';
+
+import { EsInvalidTenantError } from './es.errors';
+
+import type { BulkFailedItem, BulkOperation } from './es.bulk';
+import type { EsIndexNames } from './es.index-names';
+import type { QueryDslQueryContainer } from '@elastic/elasticsearch/lib/api/types';
+
+export const ES_TENANT_DEFAULT_FIELD = 'tenantId';
+
+/** Tenant ids allowed in index names: no wildcards, commas, whitespace, uppercase or other reserved characters */
+export const ES_TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/;
+
+/**
+ * How tenants are isolated: `index` gives every tenant its own index, `shared` stores all tenants in one index and
+ * scopes every request by a tenant field.
+ */
+export type EsTenancyStrategy = 'index' | 'shared';
+
+export interface EsTenancyOptions {
+    /** Entity property holding the tenant id with the shared strategy (default 'tenantId') */
+    field?: string;
+    /** Physical index of a tenant with the index strategy (default `<index>-<tenantId>`); receives '*' across tenants */
+    indexName?: (index: string, tenantId: string) => string;
+    /** Route documents by tenant id with the shared strategy (default true) */
+    routing?: boolean;
+    strategy: EsTenancyStrategy;
+    /** Resolves the current tenant, e.g. from a CLS store; the tenant context of runWithTenant is used when omitted */
+    tenantResolver?: () => string | undefined;
+}
+
+interface EsTenantStore {
+    acrossTenants: boolean;
+    tenantId?: string;
+}
+
+const tenantStorage = new AsyncLocalStorage<EsTenantStore>();
+
+/**
+ * Run a function with the given tenant as the current tenant of every repository call made within it, including
+ * asynchronous continuations.
+ * @template R - The function result type
+ * @param {string} tenantId - Tenant id
+ * @param {() => R} fn - Function to run
+ * @returns {R} The function result
+ * @example
+ * app.use((req, res, next) => runWithTenant(req.header('x-tenant-id'), next));
+ */
+export const runWithTenant = <R>(tenantId: string, fn: () => R): R =>
+    tenantStorage.run({ acrossTenants: false, tenantId }, fn);
+
+/**
+ * Run a function with tenancy scoping disabled: searches are not filtered by tenant, index-per-tenant reads span
+ * every tenant index and writes are not stamped. This is the explicit escape hatch for cross-tenant jobs.
+ * @template R - The function result type
+ * @param {() => R} fn - Function to run
+ * @returns {R} The function result
+ * @example
+ * const total = await runAcrossTenants(() => repo.count());
+ */
+export const runAcrossTenants = <R>(fn: () => R): R => tenantStorage.run({ acrossTenants: true }, fn);
+
+/**
+ * Tenant of the current runWithTenant context.
+ * @returns {string | undefined} The tenant id or undefined outside a tenant context
+ */
+export const getCurrentTenant = (): string | undefined => tenantStorage.getStore()?.tenantId;
+
+/**
+ * Whether the current context was started with runAcrossTenants.
+ * @returns {boolean} True when tenancy scoping is disabled
+ */
+export const isAcrossTenants = (): boolean => tenantStorage.getStore()?.acrossTenants === true;
+
+/**
+ * Default physical index of a tenant.
+ * @param {string} index - Resolved index name
+ * @param {string} tenantId - Tenant id, or '*' for every tenant
+ * @returns {string} The tenant index name
+ * @example
+ * defaultTenantIndexName('products', 'acme'); // 'products-acme'
+ */
+export const defaultTenantIndexName = (index: string, tenantId: string): string => `${index}-${tenantId}`;
+
+/**
+ * Check that a tenant id can be part of an index name.
+ * @param {string} tenantId - Tenant id
+ * @returns {string} The same tenant id
+ * @throws {EsInvalidTenantError} If the tenant id does not match ES_TENANT_ID_PATTERN
+ * @example
+ * assertTenantId('acme'); // 'acme'
+ * assertTenantId('*'); // throws EsInvalidTenantError
+ */
+export const assertTenantId = (tenantId: string): string => {
+    if (!ES_TENANT_ID_PATTERN.test(tenantId)) throw new EsInvalidTenantError(tenantId);
+
+    return tenantId;
+};
+
+/**
+ * Map resolved read and write targets to the indices of a tenant.
+ * @param {EsIndexNames} names - Resolved read and write targets
+ * @param {string} tenantId - Tenant id
+ * @param {EsTenancyOptions} options - Tenancy options
+ * @returns {EsIndexNames} The tenant read and write targets
+ * @throws {EsInvalidTenantError} If the tenant id cannot be part of an index name
+ * @example
+ * toTenantIndexNames({ read: 'products', write: 'products' }, 'acme', { strategy: 'index' }); // { read: 'products-acme', write: 'products-acme' }
+ */
+export const toTenantIndexNames = (names: EsIndexNames, tenantId: string, options: EsTenancyOptions): EsIndexNames => {
+    const toName = options.indexName ?? defaultTenantIndexName;
+
+    assertTenantId(tenantId);
+
+    return { read: toName(names.read, tenantId), write: toName(names.write, tenantId) };
+};
+
+/**
+ * Read target spanning the indices of every tenant.
+ * @param {EsIndexNames} names - Resolved read and write targets
+ * @param {EsTenancyOptions} options - Tenancy options
+ * @returns {string} The read pattern
+ * @example
+ * toAllTenantsReadIndex({ read: 'products', write: 'products' }, { strategy: 'index' }); // 'products-*'
+ */
+export const toAllTenantsReadIndex = (names: EsIndexNames, options: EsTenancyOptions): string =>
+    (options.indexName ?? defaultTenantIndexName)(names.read, '*');
+
+/**
+ * Restrict a query to the documents of a tenant. The original query keeps scoring as a `must` clause and the
+ * tenant term is added as a non-scoring filter.
+ * @param {QueryDslQueryContainer | undefined} query - Query to restrict (all documents when undefined)
+ * @param {string} field - Elasticsearch field holding the tenant id
+ * @param {string} tenantId - Tenant id
+ * @returns {QueryDslQueryContainer} The restricted query
+ * @example
+ * scopeTenantQuery({ match: { name: 'shoe' } }, 'tenantId', 'acme');
+ * // { bool: { filter: [{ term: { tenantId: 'acme' } }], must: [{ match: { name: 'shoe' } }] } }
+ */
+export const scopeTenantQuery = (
+    query: QueryDslQueryContainer | undefined,
+    field: string,
+    tenantId: string,
+): QueryDslQueryContainer => ({
+    bool: {
+        filter: [{ term: { [field]: tenantId } }],
+        ...(isNil(query) || isEmpty(query) ? {} : { must: [query] }),
+    },
+});
+
+/**
+ * Report a bulk operation on a document of another tenant as a failed item that was never sent.
+ * @param {BulkOperation} operation - The rejected operation
+ * @returns {BulkFailedItem} The failed item
+ */
+export const toForeignTenantBulkItem = (operation: BulkOperation): BulkFailedItem => ({
+    id: operation.id,
+    action: operation.action,
+    attempts: 0,
+    body: operation.body,
+    error: { reason: 'Document belongs to another tenant', type: 'tenant_mismatch' },
+    index: operation.index,
+    status: 0,
+});
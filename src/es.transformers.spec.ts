@@ -0,0 +1,100 @@
+import { Document, Field } from './es.decorators';
+import { EsRepository } from './es.repository';
+import { decimalStringTransformer, enumTransformer, isoDateTransformer } from './es.transformers';
+
+import type { ElasticsearchClient } from './es.interfaces';
+
+enum Priority {
+    Low,
+    High,
+}
+
+enum Status {
+    Active = 'active',
+    Archived = 'archived',
+}
+
+@Document({ index: 'tasks' })
+class Task {
+    @Field({ type: 'date', transformer: isoDateTransformer })
+    dueAt!: Date;
+
+    @Field({
+        type: 'keyword',
+        transformer: enumTransformer([
+            [Priority.Low, 'L'],
+            [Priority.High, 'H'],
+        ]),
+    })
+    priority!: Priority;
+
+    @Field({ type: 'keyword', transformer: enumTransformer({ [Status.Active]: 'A', [Status.Archived]: 'X' }) })
+    status!: Status;
+
+    @Field({ type: 'keyword', transformer: decimalStringTransformer(2) })
+    total!: number;
+}
+
+describe('enumTransformer', () => {
+    it('maps string enums through an object', () => {
+        const transformer = enumTransformer({ [Status.Active]: 'A', [Status.Archived]: 'X' });
+
+        expect(transformer.to(Status.Archived)).toBe('X');
+        expect(transformer.from('X')).toBe(Status.Archived);
+        expect(transformer.from('unknown')).toBe('unknown');
+    });
+
+    it('keeps numeric property values numeric', () => {
+        const transformer = enumTransformer([
+            [Priority.Low, 'L'],
+            [Priority.High, 'H'],
+        ]);
+
+        expect(transformer.to(Priority.High)).toBe('H');
+        expect(transformer.from('H')).toBe(Priority.High);
+        expect(transformer.from('L')).toBe(0);
+    });
+
+    it('rejects numeric keys given as an object', () => {
+        // @ts-expect-error numeric keys would be read back as strings
+        expect(enumTransformer({ [Priority.Low]: 'L' }).from('L')).toBe('0');
+    });
+});
+
+/**
+ * Client keeping indexed sources by id and returning them from get.
+ * @param {Map<string, unknown>} stored - Sources by document id
+ * @returns {ElasticsearchClient} The client
+ */
+const storingClient = (stored: Map<string, unknown>): ElasticsearchClient =>
+    ({
+        get: jest.fn(async ({ id }: { id: string }) => ({ _id: id, _source: stored.get(id), found: stored.has(id) })),
+        index: jest.fn(async ({ document, id }: { document: unknown; id: string }) => {
+            stored.set(id, document);
+
+            return { _id: id, result: 'created' };
+        }),
+    }) as unknown as ElasticsearchClient;
+
+describe('field transformers', () => {
+    it('round-trip entities through the repository', async () => {
+        const stored = new Map<string, unknown>();
+        const repo = new EsRepository(storingClient(stored), Task);
+        const dueAt = new Date('2026-01-02T03:04:05.000Z');
+
+        await repo.indexOne(
+            Object.assign(new Task(), { dueAt, priority: Priority.High, status: Status.Active, total: 9.9 }),
+            't-1',
+        );
+
+        expect(stored.get('t-1')).toEqual({
+            dueAt: '2026-01-02T03:04:05.000Z',
+            priority: 'H',
+            status: 'A',
+            total: '9.90',
+        });
+        expect(await repo.findEntityById('t-1')).toEqual(
+            Object.assign(new Task(), { dueAt, priority: Priority.High, status: Status.Active, total: 9.9 }),
+        );
+    });
+});
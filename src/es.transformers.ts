@@ -0,0 +1,115 @@
+import isArray from 'lodash/isArray';
+import isNil from 'lodash/isNil';
+import map from 'lodash/map';
+import toPairs from 'lodash/toPairs';
+import toString from 'lodash/toString';
+
+/**
+ * Converts a property value to its stored representation (`to`) and back (`from`).
+ * @template P - Property value type
+ * @template S - Stored value type
+ */
+export interface EsValueTransformer<P = unknown, S = unknown> {
+    /** Convert a stored value into the property value */
+    from(value: S): P;
+    /** Convert a property value into the stored value */
+    to(value: P): S;
+}
+
+/**
+ * Stores a Date as an ISO-8601 string (for `date` fields with the default format).
+ * @example
+ * @Field({ type: 'date', transformer: isoDateTransformer }) createdAt!: Date;
+ */
+export const isoDateTransformer: EsValueTransformer<Date, string> = {
+    from: (value) => new Date(value),
+    to: (value) => value.toISOString(),
+};
+
+/**
+ * Stores a Date as milliseconds since the epoch (for `date` fields with `format: 'epoch_millis'`).
+ * @example
+ * @Field({ type: 'date', format: 'epoch_millis', transformer: epochMillisTransformer }) createdAt!: Date;
+ */
+export const epochMillisTransformer: EsValueTransformer<Date, number> = {
+    from: (value) => new Date(Number(value)),
+    to: (value) => value.getTime(),
+};
+
+/**
+ * Stores a bigint as a string, since JSON numbers lose precision above 2^53.
+ * @example
+ * @Field({ type: 'keyword', transformer: bigintStringTransformer }) ledgerId!: bigint;
+ */
+export const bigintStringTransformer: EsValueTransformer<bigint, string> = {
+    from: (value) => BigInt(value),
+    to: (value) => value.toString(),
+};
+
+/**
+ * Create a transformer storing a decimal number as a string, optionally with a fixed number of fraction digits.
+ * @param {number} [scale] - Fraction digits to keep (e.g. 2 for money)
+ * @returns {EsValueTransformer<number, string>} The transformer
+ * @example
+ * @Field({ type: 'keyword', transformer: decimalStringTransformer(2) }) price!: number; // 9.9 -> '9.90'
+ */
+export const decimalStringTransformer = (scale?: number): EsValueTransformer<number, string> => ({
+    from: (value) => Number(value),
+    to: (value) => (isNil(scale) ? toString(value) : value.toFixed(scale)),
+});
+
+/** Numeric keys of a lookup table mapped to never, since they would be read back as strings */
+type EsStringKeyed<V> = { [K in keyof V]: K extends number ? never : V[K] };
+
+export type EnumTransformer = {
+    <V extends Record<string, string>>(
+        values: EsStringKeyed<V> & V,
+    ): EsValueTransformer<Extract<keyof V, string>, string>;
+    <P extends number | string>(values: ReadonlyArray<readonly [P, string]>): EsValueTransformer<P, string>;
+};
+
+/**
+ * Create a transformer mapping property values to stored values through a lookup table. Values missing from the
+ * table are kept as is. Object keys are always strings, so numeric property values (e.g. numeric enums) must be
+ * given as `[property, stored]` pairs to be read back as numbers; numeric keys in an object do not compile.
+ * @template P - Property value type
+ * @param {Record<P, string> | ReadonlyArray<readonly [P, string]>} values - Stored value for each property value
+ * @returns {EsValueTransformer<P, string>} The transformer
+ * @example
+ * @Field({ type: 'keyword', transformer: enumTransformer({ [Status.Active]: 'A', [Status.Archived]: 'X' }) })
+ * status!: Status;
+ * @Field({ type: 'keyword', transformer: enumTransformer([[Priority.Low, 'L'], [Priority.High, 'H']]) })
+ * priority!: Priority;
+ */
+export const enumTransformer: EnumTransformer = (<P extends number | string>(
+    values: ReadonlyArray<readonly [P, string]> | Record<P, string>,
+): EsValueTransformer<P, string> => {
+    const pairs = (isArray(values) ? values : toPairs(values)) as Array<[P, string]>;
+    const stored = new Map(pairs);
+    const properties = new Map(map(pairs, ([property, value]) => [value, property]));
+
+    return {
+        from: (value) => properties.get(value) ?? (value as P),
+        to: (value) => stored.get(value) ?? toString(value),
+    };
+}) as EnumTransformer;
+
+/**
+ * Apply one direction of a transformer to a field value. Null values are kept, and arrays are transformed
+ * element by element.
+ * @param {unknown} value - Field value
+ * @param {EsValueTransformer} transformer - Field transformer
+ * @param {'from' | 'to'} direction - `to` on write, `from` on read
+ * @returns {unknown} The transformed value
+ */
+export const applyTransformer = (
+    value: unknown,
+    transformer: EsValueTransformer,
+    direction: 'from' | 'to',
+): unknown => {
+    if (isNil(value)) return value;
+
+    if (isArray(value)) return value.map((item) => applyTransformer(item, transformer, direction));
+
+    return transformer[direction](value);
+};
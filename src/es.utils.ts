@@ -1,35 +1,108 @@
 import 'reflect-metadata';
 
 import { Client } from '@elastic/elasticsearch';
+import { Logger } from '@nestjs/common';
+import assign from 'lodash/assign';
 import clone from 'lodash/clone';
 import cloneDeep from 'lodash/cloneDeep';
+import forEach from 'lodash/forEach';
 import get from 'lodash/get';
+import has from 'lodash/has';
+import includes from 'lodash/includes';
+import isArray from 'lodash/isArray';
+import isEmpty from 'lodash/isEmpty';
+import isNil from 'lodash/isNil';
+import isObjectLike from 'lodash/isObjectLike';
+import isPlainObject from 'lodash/isPlainObject';
 import isUndefined from 'lodash/isUndefined';
+import map from 'lodash/map';
+import omit from 'lodash/omit';
 import set from 'lodash/set';
+import split from 'lodash/split';
 import toLower from 'lodash/toLower';
 import toString from 'lodash/toString';
 import trim from 'lodash/trim';
+import uniq from 'lodash/uniq';
+import unset from 'lodash/unset';
 
-import { ES_DOCUMENT_METADATA, ES_FIELD_METADATA, ES_INDEX_METADATA } from './es.constants';
+import {
+    collectAnalysisReferences,
+    findUndefinedAnalysisReferences,
+    getSettingsAnalysis,
+    mergeAnalysis,
+} from './es.analysis';
+import {
+    ES_ANALYSIS_METADATA,
+    ES_DELETED_AT_METADATA,
+    ES_DOCUMENT_METADATA,
+    ES_FIELD_METADATA,
+    ES_HOOKS_METADATA,
+    ES_ID_METADATA,
+    ES_INDEX_METADATA,
+    ES_REPLAY_NODE,
+    ES_REPOSITORY_METADATA,
+    ES_VERSION_METADATA,
+} from './es.constants';
+import { EsAnalysisError } from './es.errors';
+import { resolveFieldName } from './es.naming';
+import { applyTransformer } from './es.transformers';
 
+import type { EsAnalysisDefinition } from './es.analysis';
+import type { EsHookEvent } from './es.hooks';
 import type {
+    DeletedAtFieldMetadata,
     DocumentMetadata,
     DocumentOptions,
     ElasticsearchClient,
     ElasticsearchClientOptions,
+    EsRecordingTransportFactory,
     FieldOptions,
+    IdFieldMetadata,
     IndexOptions,
+    VersionFieldMetadata,
 } from './es.interfaces';
+import type { EsNamingStrategy } from './es.naming';
+
+// Registered by the testing entry point, so that the core does not depend on the test tooling
+let recordingTransportFactory: EsRecordingTransportFactory | undefined;
 
 /**
- * Create an Elasticsearch client instance with the given options.
+ * Register the transport used by clients configured with `recording`. Called by the testing entry point.
+ * @param {EsRecordingTransportFactory} factory - Builds the recording or replaying transport class
+ * @returns {void}
+ */
+export const registerRecordingTransport = (factory: EsRecordingTransportFactory): void => {
+    recordingTransportFactory = factory;
+};
+
+/**
+ * Create an Elasticsearch client instance with the given options. With `recording`, requests go through a
+ * recording or replaying transport; replaying clients need no node.
  * @param {ElasticsearchClientOptions} options - Client configuration options
  * @returns {ElasticsearchClient} The configured Elasticsearch client
+ * @throws {Error} If `recording` is set but no recording transport is registered
  * @example
  * const client = createElasticsearchClient({ node: 'http://localhost:9200', auth: { username: 'user', password: 'pass' } });
+ * const replaying = createElasticsearchClient({ recording: { mode: 'replay', path: 'test/fixtures/catalog.ndjson' } });
  */
-export const createElasticsearchClient = (options: ElasticsearchClientOptions): ElasticsearchClient =>
-    new Client(options);
+export const createElasticsearchClient = (options: ElasticsearchClientOptions): ElasticsearchClient => {
+    const { recording, ...clientOptions } = options;
+
+    if (isNil(recording)) return new Client(clientOptions);
+
+    if (!recordingTransportFactory) {
+        throw new Error('Elasticsearch client recording requires @ecom-co/elasticsearch/testing to be imported');
+    }
+
+    const replayNode =
+        recording.mode === 'replay' && !clientOptions.node && !clientOptions.nodes && !clientOptions.cloud;
+
+    return new Client({
+        ...clientOptions,
+        ...(replayNode ? { node: ES_REPLAY_NODE } : {}),
+        Transport: recordingTransportFactory(recording),
+    });
+};
 
 /**
  * Normalize a name to lowercase and trimmed format with default fallback.
@@ -53,15 +126,115 @@ export const getDocumentMetadata = (target: object): DocumentOptions | undefined
     Reflect.getMetadata(ES_DOCUMENT_METADATA, target) as DocumentOptions | undefined;
 
 /**
- * Extract field metadata from a class decorated with @Field.
+ * Collect the own metadata stored under a key along a class's inheritance chain, base classes first.
+ * @template M - Metadata type
+ * @param {symbol} key - Metadata key
+ * @param {object} target - The class constructor
+ * @returns {M[]} Own metadata, from the root base class to the target
+ */
+const getOwnMetadataChain = <M>(key: symbol, target: object): M[] => {
+    const chain: M[] = [];
+
+    for (let ctor: null | object = target; ctor && ctor !== Function.prototype; ctor = Object.getPrototypeOf(ctor)) {
+        const own = Reflect.getOwnMetadata(key, ctor) as M | undefined;
+
+        if (own) chain.unshift(own);
+    }
+
+    return chain;
+};
+
+/**
+ * Extract the analysis components declared with @Analyzer/@Normalizer/@Tokenizer/@TokenFilter/@CharFilter on a
+ * class and its base classes. Components redeclared by a subclass take precedence.
+ * @param {object} target - The class constructor to extract metadata from
+ * @returns {EsAnalysisDefinition | undefined} The analysis components or undefined if no metadata
+ * @example
+ * const analysis = getAnalysisMetadata(Product);
+ * analysis?.analyzer; // { vi_text: { type: 'custom', tokenizer: 'icu_tokenizer' } }
+ */
+export const getAnalysisMetadata = (target: object): EsAnalysisDefinition | undefined => {
+    const chain = getOwnMetadataChain<EsAnalysisDefinition>(ES_ANALYSIS_METADATA, target);
+
+    return isEmpty(chain) ? undefined : mergeAnalysis(...chain);
+};
+
+/**
+ * Extract field metadata from a class decorated with @Field, merged with the fields of its base classes. Fields
+ * redeclared by a subclass take precedence.
  * @param {object} target - The class constructor to extract metadata from
  * @returns {Map<string | symbol, FieldOptions> | undefined} Field metadata map or undefined if no metadata
  * @example
  * const fieldsMap = getFieldsMetadata(UserClass);
  * if (fieldsMap) fieldsMap.forEach((options, fieldName) => console.log(fieldName, options));
  */
-export const getFieldsMetadata = (target: object): Map<string | symbol, FieldOptions> | undefined =>
-    Reflect.getMetadata(ES_FIELD_METADATA, target) as Map<string | symbol, FieldOptions> | undefined;
+export const getFieldsMetadata = (target: object): Map<string | symbol, FieldOptions> | undefined => {
+    const maps = getOwnMetadataChain<Map<string | symbol, FieldOptions>>(ES_FIELD_METADATA, target);
+
+    if (isEmpty(maps)) return undefined;
+
+    const fields = new Map<string | symbol, FieldOptions>();
+
+    maps.forEach((own) => own.forEach((options, property) => fields.set(property, options)));
+
+    return fields;
+};
+
+/**
+ * Extract lifecycle hook metadata from a class with @BeforeIndex/@BeforeUpdate/@BeforeRemove/@AfterLoad/@AfterRemove methods.
+ * Hooks of base classes come first; a method registered again by a subclass is only listed once.
+ * @param {object} target - The class constructor to extract metadata from
+ * @returns {Map<EsHookEvent, Array<string | symbol>> | undefined} Hook method names per event or undefined if no metadata
+ * @example
+ * const hooks = getHooksMetadata(Product);
+ * hooks?.get('beforeIndex'); // ['computeSearchText']
+ */
+export const getHooksMetadata = (target: object): Map<EsHookEvent, Array<string | symbol>> | undefined => {
+    const maps = getOwnMetadataChain<Map<EsHookEvent, Array<string | symbol>>>(ES_HOOKS_METADATA, target);
+
+    if (isEmpty(maps)) return undefined;
+
+    const hooks = new Map<EsHookEvent, Array<string | symbol>>();
+
+    maps.forEach((own) =>
+        own.forEach((methods, event) => hooks.set(event, uniq([...(hooks.get(event) ?? []), ...methods]))),
+    );
+
+    return hooks;
+};
+
+/**
+ * Extract id field metadata from a class with an @IdField property.
+ * @param {object} target - The class constructor to extract metadata from
+ * @returns {IdFieldMetadata | undefined} Id property and optional derivation or undefined if no metadata
+ * @example
+ * const idMeta = getIdFieldMetadata(Product);
+ * if (idMeta) console.log(idMeta.property); // 'sku'
+ */
+export const getIdFieldMetadata = (target: object): IdFieldMetadata | undefined =>
+    Reflect.getMetadata(ES_ID_METADATA, target) as IdFieldMetadata | undefined;
+
+/**
+ * Extract soft delete field metadata from a class with a @DeletedAtField property.
+ * @param {object} target - The class constructor to extract metadata from
+ * @returns {DeletedAtFieldMetadata | undefined} Deletion date property or undefined if no metadata
+ * @example
+ * const deletedAtMeta = getDeletedAtFieldMetadata(Product);
+ * if (deletedAtMeta) console.log(deletedAtMeta.property); // 'deletedAt'
+ */
+export const getDeletedAtFieldMetadata = (target: object): DeletedAtFieldMetadata | undefined =>
+    Reflect.getMetadata(ES_DELETED_AT_METADATA, target) as DeletedAtFieldMetadata | undefined;
+
+/**
+ * Extract version field metadata from a class with a @VersionField property.
+ * @param {object} target - The class constructor to extract metadata from
+ * @returns {VersionFieldMetadata | undefined} Version property or undefined if no metadata
+ * @example
+ * const versionMeta = getVersionFieldMetadata(Product);
+ * if (versionMeta) console.log(versionMeta.property); // 'revision'
+ */
+export const getVersionFieldMetadata = (target: object): undefined | VersionFieldMetadata =>
+    Reflect.getMetadata(ES_VERSION_METADATA, target) as undefined | VersionFieldMetadata;
 
 /**
  * Extract index metadata from a class decorated with @Index.
@@ -74,10 +247,128 @@ export const getFieldsMetadata = (target: object): Map<string | symbol, FieldOpt
 export const getIndexMetadata = (target: object): IndexOptions | undefined =>
     Reflect.getMetadata(ES_INDEX_METADATA, target) as IndexOptions | undefined;
 
+/**
+ * Extract the entity constructor from a repository class decorated with @EsEntityRepository.
+ * @param {object} target - The repository class to extract metadata from
+ * @returns {(abstract new (...args: never[]) => object) | undefined} Entity constructor or undefined if no metadata
+ * @example
+ * const entity = getEntityRepositoryMetadata(ProductRepository); // Product
+ */
+export const getEntityRepositoryMetadata = (target: object): (abstract new (...args: never[]) => object) | undefined =>
+    Reflect.getMetadata(ES_REPOSITORY_METADATA, target) as (abstract new (...args: never[]) => object) | undefined;
+
+type DocumentMappings = Record<string, unknown> & { properties?: Record<string, FieldOptions> };
+
+// FieldOptions keys used by the library only, never sent in mappings
+const NON_MAPPING_FIELD_OPTIONS: Array<keyof FieldOptions> = ['name', 'target', 'transformer'];
+
+/**
+ * Write mapping properties built from a class's @Field metadata under their Elasticsearch field names, generating
+ * the `properties` of @ObjectField/@NestedField sub-documents recursively from their classes.
+ * @param {object} target - The class constructor to build properties for
+ * @param {Record<string, FieldOptions>} properties - Properties to write into
+ * @param {object[]} path - Classes being expanded, to detect circular references
+ * @param {EsNamingStrategy} [naming] - Document naming strategy
+ * @returns {Record<string, FieldOptions>} The properties
+ * @throws {Error} If sub-document classes reference each other circularly
+ */
+const buildFieldMappings = (
+    target: object,
+    properties: Record<string, FieldOptions>,
+    path: object[],
+    naming?: EsNamingStrategy,
+): Record<string, FieldOptions> => {
+    getFieldsMetadata(target)?.forEach((fieldOptions, fieldName) => {
+        const mapping: FieldOptions = omit(fieldOptions, NON_MAPPING_FIELD_OPTIONS);
+
+        if (fieldOptions.target) {
+            const sub = fieldOptions.target();
+
+            if (includes(path, sub)) {
+                throw new Error(
+                    `Circular sub-document reference: ${map([...path, sub], (c) => get(c, 'name')).join(' -> ')}`,
+                );
+            }
+
+            mapping.properties = buildFieldMappings(sub, { ...mapping.properties }, [...path, sub], naming);
+        }
+
+        set(properties, resolveFieldName(fieldOptions, toString(fieldName), naming), mapping);
+    });
+
+    return properties;
+};
+
+/**
+ * Merge the `@Document({ analysis })` option and the analysis decorators of a class into `settings.analysis`.
+ * @param {object} target - The document class
+ * @param {Record<string, unknown>} [settings] - Index settings from @Index or @Document
+ * @returns {Record<string, unknown> | undefined} The settings including the declared analysis
+ */
+const buildAnalysisSettings = (
+    target: object,
+    settings?: Record<string, unknown>,
+): Record<string, unknown> | undefined => {
+    const declared = mergeAnalysis(getDocumentMetadata(target)?.analysis, getAnalysisMetadata(target));
+
+    if (isEmpty(declared)) return settings;
+
+    return {
+        ...settings,
+        analysis: mergeAnalysis(get(settings, 'analysis') as EsAnalysisDefinition | undefined, declared),
+    };
+};
+
+const analysisLogger = new Logger('ElasticsearchAnalysis');
+
+// Documents whose undefined analysis references were already logged
+const reportedAnalysisTargets = new WeakSet<object>();
+
+/**
+ * Check the analyzers and normalizers referenced by the mappings of a document. Undefined references throw with
+ * `strictAnalysis`, and are otherwise logged once per document: they may be provided by plugins or index templates.
+ * @param {object} target - The document class
+ * @param {DocumentOptions} documentOptions - Its @Document options
+ * @param {DocumentMappings} mappings - The built mappings
+ * @param {Record<string, unknown>} [settings] - The built index settings
+ * @returns {void}
+ * @throws {EsAnalysisError} If `strictAnalysis` is set and a reference is undefined
+ */
+const checkAnalysisReferences = (
+    target: object,
+    documentOptions: DocumentOptions,
+    mappings: DocumentMappings,
+    settings?: Record<string, unknown>,
+): void => {
+    const undefinedReferences = findUndefinedAnalysisReferences(
+        collectAnalysisReferences(mappings.properties),
+        getSettingsAnalysis(settings) ?? {},
+        documentOptions.knownAnalyzers,
+    );
+    const entity = get(target, 'name', 'unknown') as string;
+
+    if (isEmpty(undefinedReferences)) return;
+
+    if (documentOptions.strictAnalysis) throw new EsAnalysisError(entity, undefinedReferences[0]);
+
+    if (reportedAnalysisTargets.has(target)) return;
+
+    reportedAnalysisTargets.add(target);
+    forEach(undefinedReferences, ({ kind, name, path }) => {
+        analysisLogger.warn(
+            `Field "${path}" of Elasticsearch document ${entity} references ${kind} "${name}", which is not defined by the document nor built in; list it in knownAnalyzers if a plugin or index template provides it`,
+        );
+    });
+};
+
 /**
  * Build complete document metadata including mappings from field decorators.
  * @param {object} target - The class constructor to build metadata for
+ * @param {string} [index] - Resolved index name to use instead of the @Document index
  * @returns {DocumentMetadata | undefined} Complete document metadata or undefined if no @Document decorator
+ * @throws {Error} If sub-document classes reference each other circularly
+ * @throws {EsAnalysisError} If `strictAnalysis` is set and a field references an analyzer or normalizer that is not
+ * defined
  * @example
  * const metadata = buildDocumentMetadata(UserClass);
  * if (metadata) {
@@ -85,9 +376,7 @@ export const getIndexMetadata = (target: object): IndexOptions | undefined =>
  *   console.log(metadata.mappings); // { properties: { name: { type: 'text' } } }
  * }
  */
-type DocumentMappings = Record<string, unknown> & { properties?: Record<string, FieldOptions> };
-
-export const buildDocumentMetadata = (target: object): DocumentMetadata | undefined => {
+export const buildDocumentMetadata = (target: object, index?: string): DocumentMetadata | undefined => {
     const documentOptions = getDocumentMetadata(target);
 
     if (!documentOptions) {
@@ -102,41 +391,137 @@ export const buildDocumentMetadata = (target: object): DocumentMetadata | undefi
     const mappings: DocumentMappings = baseMappings as DocumentMappings;
 
     if (fieldsMetadata) {
-        const properties: Record<string, FieldOptions> = cloneDeep(mappings.properties) || {};
+        mappings.properties = buildFieldMappings(
+            target,
+            cloneDeep(mappings.properties) || {},
+            [target],
+            documentOptions.naming,
+        );
+    }
 
-        fieldsMetadata.forEach((fieldOptions, fieldName) => {
-            const key = toString(fieldName);
+    const settings = buildAnalysisSettings(target, get(indexMetadata, 'settings', documentOptions.settings));
 
-            set(properties, key, fieldOptions);
-        });
-        mappings.properties = properties;
-    }
+    checkAnalysisReferences(target, documentOptions, mappings, settings);
 
     return {
         type: documentOptions.type,
+        dataStream: documentOptions.dataStream,
         fields: fieldsMetadata,
-        index: documentOptions.index,
+        ilm: documentOptions.ilm,
+        index: index ?? documentOptions.index,
         mappings,
-        settings: get(indexMetadata, 'settings', documentOptions.settings),
+        naming: documentOptions.naming,
+        settings,
+        versioned: documentOptions.versioned,
     };
 };
 
 /**
- * Convert a class instance to Elasticsearch document format.
- * @param {object} instance - The class instance to convert
- * @returns {Record<string, unknown>} The Elasticsearch document representation
+ * Translate a dotted property path (`variants.sku`) into the Elasticsearch field path (`variants.sku_code`),
+ * following @ObjectField/@NestedField sub-documents. Segments without @Field metadata (multi-fields such as
+ * `name.raw`, undecorated objects) are kept verbatim.
+ * @param {object} target - The document class
+ * @param {string} path - Property path
+ * @returns {string} The Elasticsearch field path
  * @example
- * const user = new User();
- * user.name = 'John';
- * user.email = 'john@example.com';
- * const doc = toElasticsearchDocument(user); // { name: 'John', email: 'john@example.com' }
+ * toFieldPath(Product, 'productName.raw'); // 'product_name.raw' with @Document({ naming: 'snake_case' })
  */
-export const toElasticsearchDocument = (instance: object): Record<string, unknown> => {
-    const fieldsMetadata = getFieldsMetadata(instance.constructor);
+export const toFieldPath = (target: object, path: string): string => {
+    const naming = getDocumentMetadata(target)?.naming;
+    const segments = split(path, '.');
+    const translated: string[] = [];
+    let current: object | undefined = target;
+
+    for (const [i, segment] of segments.entries()) {
+        const fieldOptions: FieldOptions | undefined = isNil(current)
+            ? undefined
+            : getFieldsMetadata(current)?.get(segment);
+
+        if (isNil(fieldOptions)) {
+            translated.push(...segments.slice(i));
+            break;
+        }
+
+        translated.push(resolveFieldName(fieldOptions, segment, naming));
+        current = fieldOptions.target?.();
+    }
+
+    return translated.join('.');
+};
+
+/**
+ * Resolve the document id of an entity from its @IdField (derivation function or property value).
+ * @param {object} instance - The entity instance
+ * @returns {string | undefined} The document id or undefined if the entity has no @IdField or no value
+ * @example
+ * getDocumentId(product); // 'SKU-1'
+ */
+export const getDocumentId = (instance: object): string | undefined => {
+    const idMeta = getIdFieldMetadata(instance.constructor);
+
+    if (!idMeta) return undefined;
+
+    const value = idMeta.derive
+        ? idMeta.derive(instance)
+        : (instance as Record<string | symbol, unknown>)[idMeta.property];
+
+    return isNil(value) || value === '' ? undefined : toString(value);
+};
+
+/**
+ * Write a document id back onto the entity's @IdField property.
+ * @param {object} instance - The entity instance
+ * @param {string | null} [id] - The document id
+ * @returns {void}
+ * @example
+ * setDocumentId(product, res._id);
+ */
+export const setDocumentId = (instance: object, id?: null | string): void => {
+    const idMeta = getIdFieldMetadata(instance.constructor);
+
+    if (!idMeta || isNil(id)) return;
+
+    (instance as Record<string | symbol, unknown>)[idMeta.property] = id;
+};
+
+/**
+ * Serialize a field value through its transformer, converting @ObjectField/@NestedField sub-documents (and arrays
+ * of them).
+ * @param {unknown} value - Field value
+ * @param {FieldOptions} fieldOptions - Field options of the property
+ * @param {EsNamingStrategy} [naming] - Document naming strategy
+ * @returns {unknown} The serialized value
+ */
+const serializeFieldValue = (value: unknown, fieldOptions: FieldOptions, naming?: EsNamingStrategy): unknown => {
+    const { target, transformer } = fieldOptions;
+
+    if (transformer) return applyTransformer(value, transformer, 'to');
+
+    if (!target || isNil(value)) return value;
+
+    if (isArray(value)) return map(value, (item) => serializeFieldValue(item, fieldOptions, naming));
+
+    return isObjectLike(value) ? serializeDocument(value as object, target(), naming) : value;
+};
+
+/**
+ * Serialize an object using the @Field metadata of the given class, under Elasticsearch field names.
+ * @param {object} instance - The object to serialize
+ * @param {object} ctor - Class whose metadata describes the object
+ * @param {EsNamingStrategy} [naming] - Document naming strategy
+ * @returns {Record<string, unknown>} The Elasticsearch document representation
+ */
+const serializeDocument = (instance: object, ctor: object, naming?: EsNamingStrategy): Record<string, unknown> => {
+    const fieldsMetadata = getFieldsMetadata(ctor);
 
     if (!fieldsMetadata) {
-        // If no field metadata, return all enumerable properties
-        return clone(instance as Record<string, unknown>);
+        // If no field metadata, return all enumerable properties except the @IdField (stored as _id)
+        const idMeta = getIdFieldMetadata(ctor);
+        const document = clone(instance as Record<string | symbol, unknown>);
+
+        if (idMeta) delete document[idMeta.property];
+
+        return document as Record<string, unknown>;
     }
 
     // Only include fields that are decorated with @Field
@@ -148,9 +533,136 @@ export const toElasticsearchDocument = (instance: object): Record<string, unknow
         const value = get(record, key);
 
         if (!isUndefined(value)) {
-            set(document, key, value);
+            set(
+                document,
+                resolveFieldName(fieldOptions, key, naming),
+                serializeFieldValue(value, fieldOptions, naming),
+            );
         }
     });
 
     return document;
 };
+
+/**
+ * Convert a class instance to Elasticsearch document format, applying field transformers, serializing
+ * @ObjectField/@NestedField sub-documents and translating property names to field names.
+ * @param {object} instance - The class instance to convert
+ * @returns {Record<string, unknown>} The Elasticsearch document representation
+ * @example
+ * const user = new User();
+ * user.name = 'John';
+ * user.email = 'john@example.com';
+ * const doc = toElasticsearchDocument(user); // { name: 'John', email: 'john@example.com' }
+ */
+export const toElasticsearchDocument = (instance: object): Record<string, unknown> =>
+    serializeDocument(instance, instance.constructor, getDocumentMetadata(instance.constructor)?.naming);
+
+/**
+ * Convert a partial entity (for partial updates) to Elasticsearch field names, applying field transformers. Keys
+ * without @Field metadata are kept verbatim.
+ * @param {object} target - The document class
+ * @param {object} partial - Partial entity data
+ * @returns {Record<string, unknown>} The partial document
+ * @example
+ * toElasticsearchPartial(Product, { productName: 'Shoe' }); // { product_name: 'Shoe' }
+ */
+export const toElasticsearchPartial = (target: object, partial: object): Record<string, unknown> => {
+    const fieldsMetadata = getFieldsMetadata(target);
+
+    if (!fieldsMetadata) return { ...partial } as Record<string, unknown>;
+
+    const naming = getDocumentMetadata(target)?.naming;
+    const document: Record<string, unknown> = {};
+
+    forEach(partial as Record<string, unknown>, (value, key) => {
+        const fieldOptions = fieldsMetadata.get(key);
+
+        if (isNil(fieldOptions)) {
+            document[key] = value;
+
+            return;
+        }
+
+        set(document, resolveFieldName(fieldOptions, key, naming), serializeFieldValue(value, fieldOptions, naming));
+    });
+
+    return document;
+};
+
+/**
+ * Rebuild an object from an Elasticsearch source, translating field names back to property names and applying
+ * field transformers.
+ * @param {{ prototype: unknown }} ctor - Class of the document or sub-document
+ * @param {object} source - Source object
+ * @param {boolean} instantiate - Whether to create class instances (otherwise plain objects)
+ * @param {EsNamingStrategy} [naming] - Document naming strategy
+ * @returns {object} The rebuilt object
+ */
+const deserializeDocument = (
+    ctor: { prototype: unknown },
+    source: object,
+    instantiate: boolean,
+    naming?: EsNamingStrategy,
+): object => {
+    const instance = instantiate ? (Object.create(ctor.prototype as object) as object) : {};
+
+    assign(instance, source);
+
+    getFieldsMetadata(ctor)?.forEach((fieldOptions, fieldName) => {
+        const key = toString(fieldName);
+        const name = resolveFieldName(fieldOptions, key, naming);
+
+        if (name !== key && has(source, name)) {
+            unset(instance, name);
+            set(instance, key, get(source, name));
+        }
+
+        const value = get(instance, key) as unknown;
+
+        if (isNil(value)) return;
+
+        if (fieldOptions.transformer) {
+            set(instance, key, applyTransformer(value, fieldOptions.transformer, 'from'));
+
+            return;
+        }
+
+        if (!fieldOptions.target) return;
+
+        const sub = fieldOptions.target();
+        const rebuild = (item: unknown): unknown =>
+            isPlainObject(item) ? deserializeDocument(sub, item as object, instantiate, naming) : item;
+
+        set(instance, key, isArray(value) ? map(value, rebuild) : rebuild(value));
+    });
+
+    return instance;
+};
+
+/**
+ * Create a class instance from an Elasticsearch source, translating field names back to property names, applying
+ * field transformers and rebuilding @ObjectField/@NestedField sub-documents (and arrays of them) as instances of
+ * their classes.
+ * @template T - The entity type
+ * @param {{ prototype: unknown }} ctor - The document class
+ * @param {object} source - Elasticsearch source object
+ * @returns {T} The hydrated instance
+ * @example
+ * const product = hydrateDocument<Product>(Product, hit._source);
+ * product.variants[0] instanceof Variant; // true
+ */
+export const hydrateDocument = <T extends object>(ctor: { prototype: unknown }, source: object): T =>
+    deserializeDocument(ctor, source, true, getDocumentMetadata(ctor)?.naming) as T;
+
+/**
+ * Translate an Elasticsearch source into a plain object keyed by property names, applying field transformers.
+ * @template T - The entity type
+ * @param {{ prototype: unknown }} ctor - The document class
+ * @param {object} source - Elasticsearch source object
+ * @returns {T} The plain source with property names
+ * @example
+ * fromElasticsearchDocument<Product>(Product, { product_name: 'Shoe' }); // { productName: 'Shoe' }
+ */
+export const fromElasticsearchDocument = <T extends object>(ctor: { prototype: unknown }, source: object): T =>
+    deserializeDocument(ctor, source, false, getDocumentMetadata(ctor)?.naming) as T;
@@ -1,17 +1,53 @@
+export * from './es.aggregations';
+
+export * from './es.analysis';
+
+export * from './es.bulk';
+
+export * from './es.bulk-indexer';
+
+export * from './es.concurrency';
+
 export * from './es.constants';
 
+export * from './es.cursor';
+
+export * from './es.data-streams';
+
 export * from './es.decorators';
 
+export * from './es.errors';
+
+export * from './es.hooks';
+
+export * from './es.index-names';
+
+export * from './es.indices';
+
 export type * from './es.interfaces';
 
+export * from './es.metrics';
+
 export * from './es.module';
 
+export * from './es.naming';
+
 export * from './es.providers';
 
+export * from './es.query-builder';
+
 export * from './es.repository';
 
+export * from './es.schema-sync';
+
 export * from './es.service';
 
+export * from './es.soft-delete';
+
+export * from './es.tenancy';
+
+export * from './es.transformers';
+
 export * from './es.utils';
 
 export * from './terminus/es.health';
@@ -0,0 +1,109 @@
+import { HealthCheckError } from '@nestjs/terminus';
+
+import { Document, Field } from '../es.decorators';
+import { checkElasticsearchHealthy, ElasticsearchHealthIndicator } from './es.health';
+
+import type { ElasticsearchService } from '../es.service';
+import type { Client } from '@elastic/elasticsearch';
+
+@Document({ index: 'products' })
+class Product {
+    @Field({ type: 'keyword' })
+    name!: string;
+}
+
+/**
+ * Client answering cluster health and index existence requests with the given implementations.
+ * @param {() => Promise<unknown>} health - Cluster health implementation
+ * @param {() => Promise<boolean>} [exists] - Index existence implementation
+ * @returns {Client} The client
+ */
+const healthClient = (health: () => Promise<unknown>, exists: () => Promise<boolean> = async () => true): Client =>
+    ({ cluster: { health: jest.fn(health) }, indices: { exists: jest.fn(exists) } }) as unknown as Client;
+
+const clusterHealth = (status: string) => async () => ({ cluster_name: 'docker-cluster', status });
+
+describe('checkElasticsearchHealthy', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('reports clusters at the minimum status with their indices as up', async () => {
+        const client = healthClient(clusterHealth('yellow'));
+
+        await expect(checkElasticsearchHealthy(client, 'es', { documents: [Product] })).resolves.toMatchObject({
+            es: { status: 'up', cluster: 'docker-cluster', clusterStatus: 'yellow', indices: { products: true } },
+        });
+    });
+
+    it.each([
+        ['red cluster', healthClient(clusterHealth('red'))],
+        ['yellow cluster below green', healthClient(clusterHealth('yellow'))],
+        ['missing index', healthClient(clusterHealth('green'), async () => false)],
+    ])('reports a %s as down', async (_, client) => {
+        const result = await checkElasticsearchHealthy(client, 'es', { documents: [Product], minStatus: 'green' });
+
+        expect(result.es.status).toBe('down');
+    });
+
+    it('reports an unreachable cluster as down with the error message', async () => {
+        const client = healthClient(async () => {
+            throw new Error('connect ECONNREFUSED 127.0.0.1:9200');
+        });
+
+        await expect(checkElasticsearchHealthy(client, 'es')).resolves.toMatchObject({
+            es: { status: 'down', message: 'connect ECONNREFUSED 127.0.0.1:9200' },
+        });
+    });
+
+    it('shares one deadline between the cluster health and index requests', async () => {
+        jest.useFakeTimers();
+
+        const client = healthClient(
+            async () => {
+                jest.setSystemTime(Date.now() + 2500);
+
+                return { cluster_name: 'docker-cluster', status: 'green' };
+            },
+            () => new Promise<boolean>(() => undefined),
+        );
+        const pending = checkElasticsearchHealthy(client, 'es', { documents: [Product] });
+
+        await jest.advanceTimersByTimeAsync(3000);
+
+        await expect(pending).resolves.toMatchObject({
+            es: { status: 'down', message: 'Elasticsearch health check timed out after 3000ms' },
+        });
+        expect(client.cluster.health).toHaveBeenCalledWith({}, { requestTimeout: 3000 });
+        expect(client.indices.exists).toHaveBeenCalledWith({ index: 'products' }, { requestTimeout: 500 });
+    });
+});
+
+describe('ElasticsearchHealthIndicator', () => {
+    const indicator = (client: Client): ElasticsearchHealthIndicator =>
+        new ElasticsearchHealthIndicator({
+            get: () => client,
+            getIndexNameResolver: () => undefined,
+        } as unknown as ElasticsearchService);
+
+    it('returns the result of a healthy cluster', async () => {
+        await expect(indicator(healthClient(clusterHealth('green'))).isHealthy()).resolves.toMatchObject({
+            elasticsearch: { status: 'up' },
+        });
+    });
+
+    it('throws a HealthCheckError carrying the result of a red or unreachable cluster', async () => {
+        const red = indicator(healthClient(clusterHealth('red'))).isHealthy('es');
+        const unreachable = indicator(
+            healthClient(async () => {
+                throw new Error('connect ECONNREFUSED 127.0.0.1:9200');
+            }),
+        ).isHealthy('es');
+
+        await expect(red).rejects.toThrow(HealthCheckError);
+        await expect(red).rejects.toMatchObject({ causes: { es: { status: 'down', clusterStatus: 'red' } } });
+        await expect(unreachable).rejects.toMatchObject({
+            causes: { es: { status: 'down', message: 'connect ECONNREFUSED 127.0.0.1:9200' } },
+        });
+    });
+});
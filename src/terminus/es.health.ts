@@ -1,32 +1,175 @@
 // Optional health indicator for @nestjs/terminus users.
 // This file imports from @nestjs/terminus only when used in the app.
 
+import { Inject, Injectable, Optional } from '@nestjs/common';
+
+import every from 'lodash/every';
+import get from 'lodash/get';
+import indexOf from 'lodash/indexOf';
+import isEmpty from 'lodash/isEmpty';
+import map from 'lodash/map';
+import zipObject from 'lodash/zipObject';
+
+import { ES_MODULE_OPTIONS } from '../es.constants';
+import { resolveIndexNames } from '../es.index-names';
+import { ElasticsearchService } from '../es.service';
+
+import type { EsIndexNameResolverOptions } from '../es.index-names';
+import type { ElasticsearchModuleOptions } from '../es.interfaces';
 import type { Client } from '@elastic/elasticsearch';
+import type { HealthStatus } from '@elastic/elasticsearch/lib/api/types';
 import type { HealthIndicatorResult } from '@nestjs/terminus';
 
+export const ES_HEALTH_DEFAULT_TIMEOUT_MS = 3000;
+
+/** Cluster statuses from best to worst */
+const CLUSTER_STATUSES = ['green', 'yellow', 'red'];
+
+export interface ElasticsearchHealthOptions extends EsIndexNameResolverOptions {
+    /** Document classes whose resolved read indices must exist for the check to be up */
+    documents?: object[];
+    /** Worst cluster status still reported as up (default 'yellow') */
+    minStatus?: 'green' | 'yellow';
+    /** Time allowed for the whole check (cluster health and index requests) in milliseconds (default 3000) */
+    timeoutMs?: number;
+}
+
+export interface ElasticsearchHealthIndicatorOptions extends ElasticsearchHealthOptions {
+    /** Name of the client to check (default client when omitted) */
+    client?: string;
+    /**
+     * Check the indices of the module `documents` when no documents are given (default false). Index names go
+     * through the module indexNameResolver unless one is given.
+     */
+    registeredDocuments?: boolean;
+}
+
+/**
+ * Reject a promise that does not settle in time.
+ * @template R - The promise result type
+ * @param {Promise<R>} promise - Promise to wait for
+ * @param {number} ms - Timeout in milliseconds
+ * @returns {Promise<R>} The promise result
+ * @throws {Error} If the timeout elapses first
+ */
+const withTimeout = async <R>(promise: Promise<R>, ms: number): Promise<R> => {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Elasticsearch health check timed out after ${ms}ms`)), ms);
+    });
+
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
 /**
- * Check Elasticsearch cluster health and return health indicator result.
+ * Check Elasticsearch cluster health and return health indicator result. The check is up when the cluster status
+ * is at least `minStatus` and, when documents are given, their resolved read indices exist. Unreachable clusters
+ * and timeouts are reported as down with a message instead of throwing.
  * @param {Client} client - Elasticsearch client instance
  * @param {string} [key='elasticsearch'] - Health indicator key name
+ * @param {ElasticsearchHealthOptions} [options] - Documents to check, the index name resolver they are stored under,
+ * status threshold and timeout
  * @returns {Promise<HealthIndicatorResult>} Health indicator result with cluster status
  * @example
  * const health = await checkElasticsearchHealthy(client, 'es-cluster');
- * console.log(health.elasticsearch.status); // 'up'
+ * console.log(health['es-cluster'].status); // 'up'
+ * await checkElasticsearchHealthy(client, 'es', { documents: [Product], indexNameResolver: prefixIndexName('prod-') });
+ * await checkElasticsearchHealthy(client, 'es', { minStatus: 'green', timeoutMs: 1000 });
  */
 export const checkElasticsearchHealthy = async (
     client: Client,
     key = 'elasticsearch',
+    options?: ElasticsearchHealthOptions,
 ): Promise<HealthIndicatorResult> => {
+    const timeoutMs = get(options, 'timeoutMs', ES_HEALTH_DEFAULT_TIMEOUT_MS);
+    const minStatus = get(options, 'minStatus', 'yellow');
     const start = Date.now();
-    const info = await client.info();
-    const ms = Date.now() - start;
-    const clusterName = (info as unknown as { name?: string })?.name ?? 'unknown';
-
-    return {
-        [key]: {
-            status: 'up',
-            cluster: clusterName,
-            latencyMs: ms,
-        },
-    } satisfies HealthIndicatorResult;
+    const check = async () => {
+        const health = await client.cluster.health({}, { requestTimeout: timeoutMs });
+        const names = map(options?.documents, (doc) => resolveIndexNames(doc, options).read);
+        const remainingMs = Math.max(start + timeoutMs - Date.now(), 1);
+        const found = await Promise.all(
+            map(names, (index) => client.indices.exists({ index }, { requestTimeout: remainingMs })),
+        );
+
+        return { found, health, names };
+    };
+
+    try {
+        const { found, health, names } = await withTimeout(check(), timeoutMs);
+        const clusterStatus: HealthStatus = health.status;
+        const statusUp = indexOf(CLUSTER_STATUSES, clusterStatus.toLowerCase()) <= indexOf(CLUSTER_STATUSES, minStatus);
+
+        return {
+            [key]: {
+                status: statusUp && every(found) ? 'up' : 'down',
+                cluster: health.cluster_name,
+                clusterStatus,
+                latencyMs: Date.now() - start,
+                ...(isEmpty(names) ? {} : { indices: zipObject(names, found) }),
+            },
+        } satisfies HealthIndicatorResult;
+    } catch (error) {
+        return {
+            [key]: { status: 'down', latencyMs: Date.now() - start, message: (error as Error)?.message },
+        } satisfies HealthIndicatorResult;
+    }
 };
+
+/**
+ * Terminus health indicator for the clients of ElasticsearchService. Add it to the providers of the module that
+ * declares the health controller; @nestjs/terminus is only loaded when a check fails.
+ * @example
+ * @Get('health')
+ * @HealthCheck()
+ * check() {
+ *   return this.health.check([
+ *     () => this.es.isHealthy('elasticsearch', { registeredDocuments: true }),
+ *     () => this.es.isHealthy('analytics', { client: 'analytics', minStatus: 'green' }),
+ *   ]);
+ * }
+ */
+@Injectable()
+export class ElasticsearchHealthIndicator {
+    /**
+     * Create a health indicator.
+     * @param {ElasticsearchService} service - Elasticsearch service instance
+     * @param {ElasticsearchModuleOptions} [moduleOptions] - Module configuration options, for registered documents
+     */
+    constructor(
+        private readonly service: ElasticsearchService,
+        @Optional() @Inject(ES_MODULE_OPTIONS) private readonly moduleOptions?: ElasticsearchModuleOptions,
+    ) {}
+
+    /**
+     * Check a client, throwing a terminus HealthCheckError carrying the details when it is down.
+     * @param {string} [key='elasticsearch'] - Health indicator key name
+     * @param {ElasticsearchHealthIndicatorOptions} [options] - Client, documents, status threshold and timeout
+     * @returns {Promise<HealthIndicatorResult>} The up health indicator result
+     * @throws {HealthCheckError} If the cluster is unreachable, too slow, below the status threshold or misses an index
+     */
+    async isHealthy(
+        key = 'elasticsearch',
+        options: ElasticsearchHealthIndicatorOptions = {},
+    ): Promise<HealthIndicatorResult> {
+        const { client, registeredDocuments, ...checkOptions } = options;
+        const documents =
+            checkOptions.documents ?? (registeredDocuments ? get(this.moduleOptions, 'documents') : undefined);
+        const result = await checkElasticsearchHealthy(this.service.get(client), key, {
+            ...checkOptions,
+            clientName: checkOptions.clientName ?? client,
+            documents,
+            indexNameResolver: checkOptions.indexNameResolver ?? this.service.getIndexNameResolver(),
+        });
+
+        if (result[key].status === 'up') return result;
+
+        const { HealthCheckError } = await import('@nestjs/terminus');
+
+        throw new HealthCheckError(`Elasticsearch health check "${key}" failed`, result);
+    }
+}
@@ -0,0 +1,157 @@
+import { errors } from '@elastic/elasticsearch';
+
+import { InMemoryElasticsearchClient } from './es.in-memory-client';
+
+describe('InMemoryElasticsearchClient', () => {
+    let client: InMemoryElasticsearchClient;
+
+    beforeEach(async () => {
+        client = new InMemoryElasticsearchClient();
+
+        for (const [id, brand, price] of [
+            ['p-1', 'acme', 30],
+            ['p-2', 'acme', 10],
+            ['p-3', 'globex', 20],
+            ['p-4', 'initech', 40],
+        ] as const) {
+            await client.index({ document: { brand, name: `Product ${id}`, price }, id, index: 'products' });
+        }
+    });
+
+    it('searches with queries, sorting, pagination and terms aggregations', async () => {
+        const res = await client.search({
+            aggs: { brands: { terms: { field: 'brand' } } },
+            from: 1,
+            index: 'products',
+            query: {
+                bool: { filter: [{ range: { price: { lte: 30 } } }], must_not: [{ term: { brand: 'initech' } }] },
+            },
+            size: 1,
+            sort: [{ price: 'asc' }],
+        });
+
+        expect(res.hits.total).toEqual({ relation: 'eq', value: 3 });
+        expect(res.hits.hits).toEqual([expect.objectContaining({ _id: 'p-3', sort: [20] })]);
+        expect(res.aggregations).toEqual({
+            brands: {
+                buckets: [
+                    { doc_count: 2, key: 'acme' },
+                    { doc_count: 1, key: 'globex' },
+                ],
+                doc_count_error_upper_bound: 0,
+                sum_other_doc_count: 0,
+            },
+        });
+    });
+
+    it('reports failed bulk items without failing the request', async () => {
+        const res = await client.bulk({
+            operations: [
+                { index: { _id: 'p-5', _index: 'products' } },
+                { brand: 'acme', price: 5 },
+                { create: { _id: 'p-1', _index: 'products' } },
+                { brand: 'acme', price: 5 },
+                { update: { _id: 'p-9', _index: 'products' } },
+                { doc: { price: 5 } },
+                { delete: { _id: 'p-2', _index: 'products' } },
+            ],
+        });
+
+        expect(res.errors).toBe(true);
+        expect(res.items).toEqual([
+            { index: expect.objectContaining({ _id: 'p-5', result: 'created', status: 201 }) },
+            {
+                create: expect.objectContaining({
+                    error: expect.objectContaining({ type: 'version_conflict_engine_exception' }),
+                    status: 409,
+                }),
+            },
+            {
+                update: expect.objectContaining({
+                    error: expect.objectContaining({ type: 'document_missing_exception' }),
+                    status: 404,
+                }),
+            },
+            { delete: expect.objectContaining({ _id: 'p-2', result: 'deleted', status: 200 }) },
+        ]);
+        expect(client.getDocuments('products')).toHaveLength(4);
+    });
+
+    it('runs assignment scripts on the documents matched by update_by_query', async () => {
+        const res = await client.updateByQuery({
+            index: 'products',
+            query: { term: { brand: 'acme' } },
+            script: { params: { value: true }, source: 'ctx._source.featured = params.value' },
+        });
+
+        expect(res).toMatchObject({ total: 2, updated: 2 });
+        await expect(client.get({ id: 'p-1', index: 'products' })).resolves.toMatchObject({
+            _source: { brand: 'acme', featured: true },
+        });
+        await expect(client.get({ id: 'p-3', index: 'products' })).resolves.toMatchObject({
+            _source: { brand: 'globex' },
+        });
+    });
+
+    it('pages through a point in time with search_after until it is closed', async () => {
+        const { id } = await client.openPointInTime({ index: 'products' });
+        const first = await client.search({ pit: { id }, size: 2, sort: [{ price: 'desc' }] });
+        const second = await client.search({
+            pit: { id },
+            search_after: first.hits.hits[1].sort,
+            size: 2,
+            sort: [{ price: 'desc' }],
+        });
+
+        expect(first.pit_id).toBe(id);
+        expect(first.hits.hits.map((hit) => hit._id)).toEqual(['p-4', 'p-1']);
+        expect(second.hits.hits.map((hit) => hit._id)).toEqual(['p-3', 'p-2']);
+
+        await expect(client.closePointInTime({ id })).resolves.toEqual({ num_freed: 1, succeeded: true });
+        await expect(client.closePointInTime({ id })).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('answers 404 for a missing id unless the status is ignored', async () => {
+        await expect(client.get({ id: 'missing', index: 'products' })).rejects.toThrow(errors.ResponseError);
+        await expect(client.get({ id: 'missing', index: 'products' })).rejects.toMatchObject({ statusCode: 404 });
+        await expect(client.delete({ id: 'missing', index: 'products' })).rejects.toMatchObject({
+            body: { result: 'not_found' },
+            statusCode: 404,
+        });
+        await expect(client.get({ id: 'missing', index: 'products' }, { ignore: [404] })).resolves.toMatchObject({
+            found: false,
+        });
+        await expect(client.mget({ ids: ['p-1', 'missing'], index: 'products' })).resolves.toMatchObject({
+            docs: [
+                { _id: 'p-1', found: true },
+                { _id: 'missing', found: false },
+            ],
+        });
+    });
+
+    it('answers 409 for version conflicts', async () => {
+        const read = await client.get({ id: 'p-1', index: 'products' });
+        const conditional = {
+            id: 'p-1',
+            if_primary_term: read._primary_term,
+            if_seq_no: read._seq_no,
+            index: 'products',
+        };
+
+        await client.index({ ...conditional, document: { price: 35 } });
+
+        await expect(client.index({ ...conditional, document: { price: 36 } })).rejects.toMatchObject({
+            body: { error: { type: 'version_conflict_engine_exception' } },
+            statusCode: 409,
+        });
+        await expect(client.create({ document: {}, id: 'p-1', index: 'products' })).rejects.toMatchObject({
+            statusCode: 409,
+        });
+        await expect(
+            client.index({ document: {}, id: 'p-2', index: 'products', version: 1, version_type: 'external' }),
+        ).rejects.toMatchObject({ statusCode: 409 });
+        await expect(
+            client.index({ document: {}, id: 'p-2', index: 'products', version: 5, version_type: 'external' }),
+        ).resolves.toMatchObject({ _version: 5, result: 'updated' });
+    });
+});
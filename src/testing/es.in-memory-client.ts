@@ -0,0 +1,1429 @@
+import { randomUUID } from 'crypto';
+
+import { errors } from '@elastic/elasticsearch';
+import castArray from 'lodash/castArray';
+import cloneDeep from 'lodash/cloneDeep';
+import compact from 'lodash/compact';
+import filter from 'lodash/filter';
+import flatMap from 'lodash/flatMap';
+import forEach from 'lodash/forEach';
+import get from 'lodash/get';
+import includes from 'lodash/includes';
+import isArray from 'lodash/isArray';
+import isEmpty from 'lodash/isEmpty';
+import isNil from 'lodash/isNil';
+import isPlainObject from 'lodash/isPlainObject';
+import keys from 'lodash/keys';
+import map from 'lodash/map';
+import mapValues from 'lodash/mapValues';
+import merge from 'lodash/merge';
+import some from 'lodash/some';
+import toPairs from 'lodash/toPairs';
+import uniq from 'lodash/uniq';
+
+import type { ElasticsearchClient } from '../es.interfaces';
+import type { QueryDslQueryContainer, Script, SortCombinations } from '@elastic/elasticsearch/lib/api/types';
+
+/**
+ * JavaScript implementation of a painless script: mutates the document source in place.
+ */
+export type InMemoryScriptHandler = (source: Record<string, unknown>, params: Record<string, unknown>) => void;
+
+export interface InMemoryElasticsearchClientOptions {
+    /**
+     * Implementations of the painless scripts used by the code under test, keyed by script source. Scripts that
+     * only assign a parameter (`ctx._source.field = params.value`) work without a handler.
+     */
+    scripts?: Record<string, InMemoryScriptHandler>;
+}
+
+type InMemorySource = Record<string, unknown>;
+
+interface InMemoryDocument {
+    id: string;
+    primaryTerm: number;
+    routing?: string;
+    seqNo: number;
+    source: InMemorySource;
+    version: number;
+}
+
+interface InMemoryIndex {
+    aliases: Record<string, { is_write_index?: boolean }>;
+    documents: Map<string, InMemoryDocument>;
+    mappings: InMemorySource;
+    seqNo: number;
+    settings: InMemorySource;
+}
+
+interface InMemoryAggregation {
+    aggregations?: Record<string, InMemoryAggregation>;
+    aggs?: Record<string, InMemoryAggregation>;
+    terms?: { field: string; min_doc_count?: number; size?: number };
+}
+
+interface InMemoryAliasAction {
+    alias?: string | string[];
+    aliases?: string | string[];
+    index?: string | string[];
+    indices?: string | string[];
+    is_write_index?: boolean;
+}
+
+/**
+ * Request parameters read by the stand-in, a loose union of the Elasticsearch requests it answers.
+ */
+interface InMemoryParams {
+    _id?: string;
+    _index?: string;
+    _source?: unknown;
+    actions?: Array<Record<string, InMemoryAliasAction>>;
+    aggregations?: Record<string, InMemoryAggregation>;
+    aggs?: Record<string, InMemoryAggregation>;
+    aliases?: Record<string, { is_write_index?: boolean } | null>;
+    body?: unknown;
+    conflicts?: string;
+    dest?: { index: string; op_type?: string };
+    doc?: InMemorySource;
+    doc_as_upsert?: boolean;
+    docs?: InMemoryParams[];
+    document?: InMemorySource;
+    from?: number;
+    id?: string;
+    ids?: string[];
+    if_primary_term?: number;
+    if_seq_no?: number;
+    index?: string | string[];
+    mappings?: InMemorySource;
+    name?: string | string[];
+    op_type?: string;
+    operations?: InMemorySource[];
+    pit?: { id: string };
+    properties?: InMemorySource;
+    query?: QueryDslQueryContainer;
+    routing?: string;
+    script?: Script | string;
+    search_after?: unknown[];
+    seq_no_primary_term?: boolean;
+    settings?: InMemorySource;
+    size?: number;
+    sort?: SortCombinations | SortCombinations[];
+    source?: { index: string | string[]; query?: QueryDslQueryContainer };
+    track_total_hits?: boolean | number;
+    upsert?: InMemorySource;
+    version?: boolean | number;
+    version_type?: string;
+}
+
+interface InMemoryWriteResult {
+    [key: string]: unknown;
+    _id: string;
+    _index: string;
+    result: string;
+}
+
+interface InMemoryHit {
+    doc: InMemoryDocument;
+    index: string;
+    order: number;
+}
+
+interface InMemorySort {
+    field: string;
+    missing: 'first' | 'last';
+    order: 'asc' | 'desc';
+}
+
+interface InMemoryRequestOptions {
+    ignore?: number[];
+}
+
+const ASSIGNMENT_SCRIPT = /^\s*ctx\._source(?:\.([\w.]+)|\[("(?:[^"\\]|\\.)*")\])\s*=\s*params\.(\w+)\s*;?\s*$/;
+
+const SHARDS = { failed: 0, skipped: 0, successful: 1, total: 1 };
+
+const TOKEN_SEPARATOR = /[^\p{L}\p{N}]+/u;
+
+/**
+ * Build the client error Elasticsearch would answer with.
+ * @param {number} statusCode - HTTP status code
+ * @param {Record<string, unknown>} body - Response body
+ * @returns {errors.ResponseError} The response error
+ */
+const toResponseError = (statusCode: number, body: Record<string, unknown>): errors.ResponseError =>
+    new errors.ResponseError({
+        body,
+        headers: {},
+        meta: {
+            aborted: false,
+            attempts: 0,
+            connection: null,
+            context: null,
+            name: 'in-memory',
+            request: { id: 0, options: {}, params: { method: 'POST', path: '/' } },
+        },
+        statusCode,
+        warnings: null,
+    });
+
+/**
+ * Build an Elasticsearch error body.
+ * @param {number} status - HTTP status code
+ * @param {string} type - Error type, e.g. 'version_conflict_engine_exception'
+ * @param {string} reason - Human readable reason
+ * @returns {Record<string, unknown>} The error body
+ */
+const toErrorBody = (status: number, type: string, reason: string): Record<string, unknown> => ({
+    error: { reason, root_cause: [{ reason, type }], type },
+    status,
+});
+
+/**
+ * Throw an Elasticsearch error response.
+ * @param {number} status - HTTP status code
+ * @param {string} type - Error type
+ * @param {string} reason - Human readable reason
+ * @returns {never}
+ * @throws {errors.ResponseError} Always
+ */
+const fail = (status: number, type: string, reason: string): never => {
+    throw toResponseError(status, toErrorBody(status, type, reason));
+};
+
+/**
+ * Convert a wildcard index pattern to a regular expression.
+ * @param {string} pattern - Index pattern with `*` wildcards
+ * @returns {RegExp} The pattern regular expression
+ */
+const toPatternRegExp = (pattern: string): RegExp =>
+    new RegExp(`^${map(pattern.split('*'), (part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+/**
+ * Split comma separated targets.
+ * @param {string | string[] | undefined} target - Index, alias or pattern list
+ * @returns {string[]} The individual targets
+ */
+const toTargets = (target: string | string[] | undefined): string[] =>
+    compact(flatMap(castArray(target ?? '_all'), (t) => map(String(t).split(','), (s) => s.trim())));
+
+/**
+ * Values of a field path in a source, flattening arrays along the way like Elasticsearch does. A missing
+ * multi-field (`name.keyword`) falls back to its parent field.
+ * @param {Record<string, unknown>} source - Document source
+ * @param {string} field - Dotted field path
+ * @returns {unknown[]} The field values
+ */
+const getFieldValues = (source: Record<string, unknown>, field: string): unknown[] => {
+    let values: unknown[] = [source];
+
+    for (const segment of field.split('.')) {
+        values = flatMap(values, (value) =>
+            isPlainObject(value) ? castArray((value as Record<string, unknown>)[segment]) : [],
+        ).filter((value) => !isNil(value));
+        values = flatMap(values, (value) => (isArray(value) ? value : [value]));
+    }
+
+    if (isEmpty(values) && includes(field, '.')) return getFieldValues(source, field.slice(0, field.lastIndexOf('.')));
+
+    return values;
+};
+
+/**
+ * Values of a field of a document, including the `_id` metadata field.
+ * @param {InMemoryDocument} doc - Stored document
+ * @param {string} field - Field path
+ * @returns {unknown[]} The field values
+ */
+const getDocumentValues = (doc: InMemoryDocument, field: string): unknown[] =>
+    field === '_id' ? [doc.id] : getFieldValues(doc.source, field);
+
+/**
+ * Compare two field values, numerically when both are numbers or dates, lexically otherwise.
+ * @param {unknown} a - First value
+ * @param {unknown} b - Second value
+ * @returns {number} Negative, zero or positive like a sort comparator
+ */
+const compareValues = (a: unknown, b: unknown): number => {
+    const toComparable = (value: unknown): number | string => {
+        if (typeof value === 'number') return value;
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        if (value instanceof Date) return value.getTime();
+
+        const text = String(value);
+        const date = /^\d{4}-\d{2}-\d{2}/.test(text) ? Date.parse(text) : NaN;
+
+        return Number.isNaN(date) ? text : date;
+    };
+    const left = toComparable(a);
+    const right = toComparable(b);
+
+    if (typeof left === 'number' && typeof right === 'number') return left - right;
+    if (typeof left === 'number' && !Number.isNaN(Number(right))) return left - Number(right);
+    if (typeof right === 'number' && !Number.isNaN(Number(left))) return Number(left) - right;
+
+    return String(left) < String(right) ? -1 : String(left) > String(right) ? 1 : 0;
+};
+
+/**
+ * Whether a field value equals a term, coercing numbers and booleans given as strings.
+ * @param {unknown} value - Field value
+ * @param {unknown} term - Term
+ * @returns {boolean} True when they are equal
+ */
+const equalsTerm = (value: unknown, term: unknown): boolean =>
+    value === term ||
+    String(value) === String(term) ||
+    (typeof value === typeof term && compareValues(value, term) === 0);
+
+/**
+ * Lowercased word tokens of a value, the way the standard analyzer splits text.
+ * @param {unknown} value - Value to tokenize
+ * @returns {string[]} The tokens
+ */
+const tokenize = (value: unknown): string[] => compact(String(value).toLowerCase().split(TOKEN_SEPARATOR));
+
+/**
+ * Split a single-key query clause into its field and parameters, unwrapping the `{ field: { value } }` form.
+ * @param {Record<string, unknown>} clause - Query clause body, e.g. `{ status: 'active' }`
+ * @param {string} valueKey - Key of the value in the long form
+ * @returns {{ field: string; params: Record<string, unknown>; value: unknown }} The field, parameters and value
+ */
+const toFieldClause = (
+    clause: Record<string, unknown>,
+    valueKey: string,
+): { field: string; params: Record<string, unknown>; value: unknown } => {
+    const [field, raw] = toPairs(clause).find(([key]) => key !== 'boost' && key !== '_name') ?? ['', undefined];
+    const params = isPlainObject(raw) ? (raw as Record<string, unknown>) : { [valueKey]: raw };
+
+    return { field, params, value: params[valueKey] };
+};
+
+/**
+ * Deep merge a partial document into a source, replacing arrays instead of merging them.
+ * @param {Record<string, unknown>} source - Current source
+ * @param {Record<string, unknown>} partial - Partial document
+ * @returns {Record<string, unknown>} The merged source
+ */
+const mergeSource = (source: Record<string, unknown>, partial: Record<string, unknown>): Record<string, unknown> => {
+    const result = { ...source };
+
+    forEach(partial, (value, key) => {
+        result[key] =
+            isPlainObject(value) && isPlainObject(result[key])
+                ? mergeSource(result[key] as Record<string, unknown>, value as Record<string, unknown>)
+                : cloneDeep(value);
+    });
+
+    return result;
+};
+
+/**
+ * In-memory stand-in for the Elasticsearch client, meant for unit tests of code built on EsRepository. It keeps
+ * documents per index with sequence numbers and versions, enforces optimistic concurrency, resolves aliases and
+ * answers with the same response shapes and errors as Elasticsearch (404 for missing documents, 409 for version
+ * conflicts), honouring the `ignore` request option.
+ *
+ * Supported: index/create/get/mget/exists/update/delete/bulk/count/search/deleteByQuery/updateByQuery/reindex,
+ * point in time, index creation, deletion, mappings, aliases and the `index.blocks.write` setting. Search understands match_all, match_none, term, terms,
+ * match, range, bool, exists and ids queries, field/_score/_doc sorting, from/size, search_after and terms
+ * aggregations. Text is matched with a lowercase word tokenizer rather than the mapped analyzers, and every hit
+ * scores 1. Unsupported queries, aggregations and scripts throw so tests never pass by accident.
+ * @example
+ * const memory = new InMemoryElasticsearchClient();
+ * const repo = new EsRepository(memory.asClient(), Product);
+ * await repo.index({ name: 'Shoe', price: 50 }, 'p-1');
+ */
+export class InMemoryElasticsearchClient {
+    private readonly indexStore = new Map<string, InMemoryIndex>();
+    private readonly pointsInTime = new Map<string, string[]>();
+
+    /**
+     * Index administration APIs.
+     */
+    readonly indices = {
+        create: async (params: InMemoryParams, options?: InMemoryRequestOptions) =>
+            this.respond(options, () => {
+                const name = String(params.index);
+
+                if (this.indexStore.has(name) || this.hasAlias(name)) {
+                    fail(400, 'resource_already_exists_exception', `index [${name}] already exists`);
+                }
+
+                this.createIndex(name, params);
+
+                return { acknowledged: true, index: name, shards_acknowledged: true };
+            }),
+        delete: async (params: InMemoryParams, options?: InMemoryRequestOptions) =>
+            this.respond(options, () => {
+                forEach(this.resolveIndices(params.index, false), (name) => this.indexStore.delete(name));
+
+                return { acknowledged: true };
+            }),
+        exists: async (params: InMemoryParams) =>
+            some(toTargets(params.index), (name) => this.indexStore.has(name) || this.hasAlias(name)),
+        getAlias: async (params: InMemoryParams, options?: InMemoryRequestOptions) =>
+            this.respond(options, () => {
+                const names = isNil(params.name) ? undefined : toTargets(params.name);
+                const result: Record<string, { aliases: InMemorySource }> = {};
+
+                for (const name of this.resolveIndices(params.index, true)) {
+                    const aliases = filter(keys(this.indexStore.get(name)?.aliases), (alias) =>
+                        isNil(names) ? true : some(names, (n) => toPatternRegExp(n).test(alias)),
+                    );
+
+                    if (!isEmpty(aliases) || isNil(names)) {
+                        result[name] = {
+                            aliases: Object.fromEntries(
+                                map(aliases, (a) => [a, this.indexStore.get(name)!.aliases[a]]),
+                            ),
+                        };
+                    }
+                }
+
+                if (isEmpty(result)) fail(404, 'aliases_not_found_exception', `alias [${params.name}] missing`);
+
+                return result;
+            }),
+        getMapping: async (params: InMemoryParams, options?: InMemoryRequestOptions) =>
+            this.respond(options, () =>
+                Object.fromEntries(
+                    map(this.resolveIndices(params.index, false), (name) => [
+                        name,
+                        { mappings: cloneDeep(this.indexStore.get(name)!.mappings) },
+                    ]),
+                ),
+            ),
+        putMapping: async (params: InMemoryParams, options?: InMemoryRequestOptions) =>
+            this.respond(options, () => {
+                forEach(this.resolveIndices(params.index, false), (name) => {
+                    const index = this.indexStore.get(name)!;
+
+                    index.mappings = merge(index.mappings, { properties: cloneDeep(params.properties ?? {}) });
+                });
+
+                return { acknowledged: true };
+            }),
+        putSettings: async (params: InMemoryParams, options?: InMemoryRequestOptions) =>
+            this.respond(options, () => {
+                forEach(this.resolveIndices(params.index, false), (name) => {
+                    const index = this.indexStore.get(name)!;
+
+                    index.settings = merge(index.settings, cloneDeep(params.settings ?? {}));
+                });
+
+                return { acknowledged: true };
+            }),
+        refresh: async (params: InMemoryParams = {}, options?: InMemoryRequestOptions) =>
+            this.respond(options, () => {
+                this.resolveIndices(params.index, true);
+
+                return { _shards: SHARDS };
+            }),
+        updateAliases: async (params: InMemoryParams, options?: InMemoryRequestOptions) =>
+            this.respond(options, () => {
+                forEach(params.actions, (action) => {
+                    const [type, body] = toPairs(action)[0];
+
+                    forEach(this.resolveIndices(body.index ?? body.indices, false), (name) => {
+                        const index = this.indexStore.get(name)!;
+
+                        if (type === 'remove_index') this.indexStore.delete(name);
+                        forEach(compact(castArray(body.alias ?? body.aliases)), (alias: string) => {
+                            if (type === 'add') index.aliases[alias] = { is_write_index: body.is_write_index };
+                            if (type === 'remove') delete index.aliases[alias];
+                        });
+                    });
+                });
+
+                return { acknowledged: true };
+            }),
+    };
+
+    /**
+     * Cluster APIs.
+     */
+    readonly cluster = {
+        health: async () => ({
+            active_shards: this.indexStore.size,
+            cluster_name: 'in-memory',
+            number_of_nodes: 1,
+            status: 'green',
+            timed_out: false,
+        }),
+    };
+
+    /**
+     * Create an empty in-memory client.
+     * @param {InMemoryElasticsearchClientOptions} [options] - Script implementations
+     */
+    constructor(private readonly options: InMemoryElasticsearchClientOptions = {}) {}
+
+    /**
+     * The client typed as the Elasticsearch client it stands in for.
+     * @returns {ElasticsearchClient} This client
+     * @example
+     * const repo = new EsRepository(memory.asClient(), Product);
+     */
+    asClient(): ElasticsearchClient {
+        return this as unknown as ElasticsearchClient;
+    }
+
+    /**
+     * Drop every index, document and point in time.
+     * @returns {void}
+     */
+    reset(): void {
+        this.indexStore.clear();
+        this.pointsInTime.clear();
+    }
+
+    /**
+     * Sources of the documents stored in an index, in insertion order; handy for assertions.
+     * @param {string} index - Index or alias name
+     * @returns {Array<Record<string, unknown>>} Copies of the stored sources
+     */
+    getDocuments(index: string): Array<Record<string, unknown>> {
+        return flatMap(this.resolveIndices(index, true), (name) =>
+            map([...this.indexStore.get(name)!.documents.values()], (doc) => cloneDeep(doc.source)),
+        );
+    }
+
+    /**
+     * Cluster information of the stand-in.
+     * @returns {Promise<Record<string, unknown>>} The info response
+     */
+    async info() {
+        return {
+            cluster_name: 'in-memory',
+            cluster_uuid: 'in-memory',
+            name: 'in-memory',
+            tagline: 'You Know, for Search',
+            version: { number: '8.19.0' },
+        };
+    }
+
+    /**
+     * Always reachable.
+     * @returns {Promise<boolean>} True
+     */
+    async ping(): Promise<boolean> {
+        return true;
+    }
+
+    /**
+     * Nothing to release; kept for ElasticsearchService shutdown.
+     * @returns {Promise<void>} Promise that resolves immediately
+     */
+    async close(): Promise<void> {
+        // nothing to release
+    }
+
+    /**
+     * Index a document, creating the index on first write. Honours `op_type`, `if_seq_no`/`if_primary_term` and external versions.
+     * @param {InMemoryParams} params - Index request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The index response
+     */
+    async index(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () =>
+            this.writeDocument(params, params.document ?? (params.body as InMemorySource | undefined), params.op_type),
+        );
+    }
+
+    /**
+     * Index a document that must not exist yet.
+     * @param {InMemoryParams} params - Create request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The create response
+     */
+    async create(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () =>
+            this.writeDocument(params, params.document ?? (params.body as InMemorySource | undefined), 'create'),
+        );
+    }
+
+    /**
+     * Get a document by id.
+     * @param {InMemoryParams} params - Get request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The document, or `{ found: false }` when 404 is ignored
+     */
+    async get(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            const name = this.resolveReadIndex(params.index);
+            const doc = this.indexStore.get(name)?.documents.get(String(params.id));
+
+            if (!doc) throw toResponseError(404, { _id: String(params.id), _index: name, found: false });
+
+            return { ...this.toDocumentMeta(name, doc), _source: cloneDeep(doc.source), found: true };
+        });
+    }
+
+    /**
+     * Get several documents by id.
+     * @param {InMemoryParams} params - Mget request (`docs` or `ids`)
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The documents, missing ones with `found: false` and ones of a missing
+     * index with an `error`
+     */
+    async mget(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            const requests = params.docs ?? map(params.ids, (id: string) => ({ _id: id }));
+
+            return {
+                docs: map(requests, (request: InMemoryParams) => {
+                    const target = request._index ?? params.index;
+                    const name = this.findReadIndex(target);
+
+                    if (isNil(name)) {
+                        return {
+                            _id: String(request._id),
+                            _index: target,
+                            error: { reason: `no such index [${target}]`, type: 'index_not_found_exception' },
+                        };
+                    }
+
+                    const doc = this.indexStore.get(name)?.documents.get(String(request._id));
+
+                    return doc
+                        ? { ...this.toDocumentMeta(name, doc), _source: cloneDeep(doc.source), found: true }
+                        : { _id: String(request._id), _index: name, found: false };
+                }),
+            };
+        });
+    }
+
+    /**
+     * Whether a document exists.
+     * @param {InMemoryParams} params - Exists request
+     * @returns {Promise<boolean>} True when the document exists
+     */
+    async exists(params: InMemoryParams): Promise<boolean> {
+        const name = this.findReadIndex(params.index);
+
+        return !isNil(name) && this.indexStore.get(name)!.documents.has(String(params.id));
+    }
+
+    /**
+     * Partially update, upsert or script a document.
+     * @param {InMemoryParams} params - Update request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The update response
+     */
+    async update(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => this.updateDocument(params));
+    }
+
+    /**
+     * Delete a document by id.
+     * @param {InMemoryParams} params - Delete request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The delete response
+     */
+    async delete(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => this.deleteDocument(params));
+    }
+
+    /**
+     * Run index, create, update and delete operations, reporting failures per item.
+     * @param {InMemoryParams} params - Bulk request (`operations`)
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The bulk response
+     */
+    async bulk(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            const lines = params.operations ?? (params.body as InMemorySource[] | undefined) ?? [];
+            const items: Array<Record<string, InMemorySource>> = [];
+
+            for (let i = 0; i < lines.length; i++) {
+                const [action, meta] = toPairs(lines[i])[0] as [string, InMemoryParams];
+                const body = action === 'delete' ? undefined : lines[++i];
+                const request = {
+                    ...meta,
+                    id: meta._id,
+                    index: meta._index ?? params.index,
+                    routing: meta.routing ?? params.routing,
+                };
+
+                try {
+                    const result =
+                        action === 'delete'
+                            ? this.deleteDocument(request)
+                            : action === 'update'
+                              ? this.updateDocument({ ...request, ...body })
+                              : this.writeDocument(request, body, action === 'create' ? 'create' : meta.op_type);
+
+                    items.push({ [action]: { ...result, status: result.result === 'created' ? 201 : 200 } });
+                } catch (error) {
+                    if (!(error instanceof errors.ResponseError)) throw error;
+
+                    const status = error.statusCode ?? 500;
+
+                    items.push({
+                        [action]: {
+                            _id: request.id,
+                            _index: request.index,
+                            error: get(error.body, 'error', { reason: error.message, type: 'exception' }),
+                            status,
+                        },
+                    });
+                }
+            }
+
+            return { errors: some(items, (item) => !isNil(toPairs(item)[0][1].error)), items, took: 0 };
+        });
+    }
+
+    /**
+     * Count the documents matching a query.
+     * @param {InMemoryParams} params - Count request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The count response
+     */
+    async count(params: InMemoryParams = {}, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => ({
+            _shards: SHARDS,
+            count: this.findHits(params.index, params.query).length,
+        }));
+    }
+
+    /**
+     * Search documents with sorting, pagination, point in time and terms aggregations.
+     * @param {InMemoryParams} params - Search request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The search response
+     */
+    async search(params: InMemoryParams = {}, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            const target = isNil(params.pit) ? params.index : this.getPointInTime(params.pit.id);
+            const hits = this.findHits(target, params.query);
+            const sorts = this.toSorts(params.sort);
+            const sorted = [...hits].sort((a, b) => this.compareHits(a, b, sorts));
+            const after = params.search_after;
+            const visible = isNil(after)
+                ? sorted
+                : filter(sorted, (hit) => this.compareSortValues(this.toSortValues(hit, sorts), after, sorts) > 0);
+            const from = params.from ?? 0;
+            const page = visible.slice(from, from + (params.size ?? 10));
+            const trackTotalHits = params.track_total_hits;
+            const aggs = params.aggs ?? params.aggregations;
+
+            return {
+                _shards: SHARDS,
+                ...(isNil(params.pit) ? {} : { pit_id: params.pit.id }),
+                ...(isNil(aggs) ? {} : { aggregations: this.aggregate(aggs, hits) }),
+                hits: {
+                    hits: map(page, (hit) => ({
+                        ...this.toDocumentMeta(
+                            hit.index,
+                            hit.doc,
+                            params.seq_no_primary_term === true,
+                            params.version === true,
+                        ),
+                        _score: isEmpty(sorts) ? 1 : null,
+                        ...(params._source === false ? {} : { _source: cloneDeep(hit.doc.source) }),
+                        ...(isEmpty(sorts) ? {} : { sort: this.toSortValues(hit, sorts) }),
+                    })),
+                    max_score: isEmpty(sorts) && !isEmpty(page) ? 1 : null,
+                    ...(trackTotalHits === false
+                        ? {}
+                        : {
+                              total:
+                                  typeof trackTotalHits === 'number' && hits.length > trackTotalHits
+                                      ? { relation: 'gte', value: trackTotalHits }
+                                      : { relation: 'eq', value: hits.length },
+                          }),
+                },
+                timed_out: false,
+                took: 0,
+            };
+        });
+    }
+
+    /**
+     * Delete the documents matching a query.
+     * @param {InMemoryParams} params - Delete-by-query request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The delete-by-query response
+     */
+    async deleteByQuery(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            const hits = this.findHits(params.index, params.query);
+
+            forEach(hits, (hit) => this.deleteDocument({ id: hit.doc.id, index: hit.index }));
+
+            return { deleted: hits.length, failures: [], timed_out: false, took: 0, total: hits.length };
+        });
+    }
+
+    /**
+     * Run a script on the documents matching a query.
+     * @param {InMemoryParams} params - Update-by-query request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The update-by-query response
+     */
+    async updateByQuery(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            const hits = this.findHits(params.index, params.query);
+
+            forEach(hits, (hit) => this.updateDocument({ id: hit.doc.id, index: hit.index, script: params.script }));
+
+            return { failures: [], noops: 0, timed_out: false, took: 0, total: hits.length, updated: hits.length };
+        });
+    }
+
+    /**
+     * Copy the documents of source indices matching a query into a destination index.
+     * @param {InMemoryParams} params - Reindex request (`source.index`, `source.query`, `dest.index`, `dest.op_type`)
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The reindex summary, version conflicts of `create` reported as failures
+     */
+    async reindex(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            const { dest, source } = params as Required<Pick<InMemoryParams, 'dest' | 'source'>>;
+            const hits = this.findHits(source.index, source.query);
+            const failures: Array<{ id: string; status: number }> = [];
+            let created = 0;
+
+            forEach(hits, (hit) => {
+                try {
+                    const res = this.writeDocument(
+                        { id: hit.doc.id, index: dest.index, routing: hit.doc.routing },
+                        hit.doc.source,
+                        dest.op_type,
+                    );
+
+                    if (res.result === 'created') created++;
+                } catch (error) {
+                    if (!(error instanceof errors.ResponseError) || error.statusCode !== 409) throw error;
+                    if (params.conflicts !== 'proceed') failures.push({ id: hit.doc.id, status: 409 });
+                }
+            });
+
+            return { created, failures, timed_out: false, took: 0, total: hits.length, updated: hits.length - created };
+        });
+    }
+
+    /**
+     * Open a point in time over the current indices of a target. Documents are not snapshotted.
+     * @param {InMemoryParams} params - Open point in time request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The point in time id
+     */
+    async openPointInTime(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            const id = randomUUID();
+
+            this.pointsInTime.set(id, this.resolveIndices(params.index, true));
+
+            return { _shards: SHARDS, id };
+        });
+    }
+
+    /**
+     * Close a point in time.
+     * @param {InMemoryParams} params - Close point in time request
+     * @param {InMemoryRequestOptions} [options] - Request options (`ignore`)
+     * @returns {Promise<Record<string, unknown>>} The close response
+     */
+    async closePointInTime(params: InMemoryParams, options?: InMemoryRequestOptions) {
+        return this.respond(options, () => {
+            if (!this.pointsInTime.delete(String(params.id)))
+                fail(404, 'search_context_missing_exception', 'No search context');
+
+            return { num_freed: 1, succeeded: true };
+        });
+    }
+
+    /**
+     * Run a request, answering with the error body instead of throwing when its status is ignored.
+     * @template R - The response type
+     * @param {InMemoryRequestOptions | undefined} options - Request options
+     * @param {() => R} handler - Request handler
+     * @returns {R} The response
+     */
+    private respond<R>(options: InMemoryRequestOptions | undefined, handler: () => R): R {
+        try {
+            return handler();
+        } catch (error) {
+            if (error instanceof errors.ResponseError && includes(options?.ignore, error.statusCode)) {
+                return error.body as R;
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Create an index from an indices.create request.
+     * @param {string} name - Index name
+     * @param {InMemoryParams} [params] - Mappings, settings and aliases
+     * @returns {InMemoryIndex} The index
+     */
+    private createIndex(name: string, params: InMemoryParams = {}): InMemoryIndex {
+        const index: InMemoryIndex = {
+            aliases: mapValues(params.aliases ?? {}, (alias) => ({ is_write_index: alias?.is_write_index })),
+            documents: new Map(),
+            mappings: cloneDeep(params.mappings ?? {}),
+            seqNo: 0,
+            settings: cloneDeep(params.settings ?? {}),
+        };
+
+        this.indexStore.set(name, index);
+
+        return index;
+    }
+
+    /**
+     * Whether an alias points to at least one index.
+     * @param {string} alias - Alias name
+     * @returns {boolean} True when the alias exists
+     */
+    private hasAlias(alias: string): boolean {
+        return some([...this.indexStore.values()], (index) => !isNil(index.aliases[alias]));
+    }
+
+    /**
+     * Resolve indices, aliases and wildcard patterns to concrete index names.
+     * @param {string | string[] | undefined} target - Targets (every index when undefined)
+     * @param {boolean} lenient - Skip missing concrete targets instead of failing with a 404
+     * @returns {string[]} The concrete index names
+     * @throws {errors.ResponseError} 404 if a concrete target does not exist and lenient is false
+     */
+    private resolveIndices(target: string | string[] | undefined, lenient: boolean): string[] {
+        const names = flatMap(toTargets(target), (t) => {
+            if (t === '_all' || includes(t, '*')) {
+                const pattern = toPatternRegExp(t === '_all' ? '*' : t);
+
+                return filter([...this.indexStore.keys()], (name) => pattern.test(name));
+            }
+            if (this.indexStore.has(t)) return [t];
+
+            const aliased = filter(
+                [...this.indexStore.keys()],
+                (name) => !isNil(this.indexStore.get(name)!.aliases[t]),
+            );
+
+            if (isEmpty(aliased) && !lenient) fail(404, 'index_not_found_exception', `no such index [${t}]`);
+
+            return aliased;
+        });
+
+        return uniq(names);
+    }
+
+    /**
+     * Resolve the single index a document read targets.
+     * @param {InMemoryParams['index']} index - Index or alias name
+     * @returns {string | undefined} The concrete index name, or undefined if it does not exist
+     */
+    private findReadIndex(index: InMemoryParams['index']): string | undefined {
+        const target = String(index);
+
+        if (this.indexStore.has(target)) return target;
+
+        const aliased = this.resolveIndices(target, true);
+
+        return aliased.length === 1 ? aliased[0] : undefined;
+    }
+
+    /**
+     * Resolve the single index a document read targets, failing like Elasticsearch when there is none.
+     * @param {InMemoryParams['index']} target - Index or alias name
+     * @returns {string} The concrete index name
+     * @throws {errors.ResponseError} 404 if the index does not exist
+     */
+    private resolveReadIndex(target: InMemoryParams['index']): string {
+        return this.findReadIndex(target) ?? fail(404, 'index_not_found_exception', `no such index [${target}]`);
+    }
+
+    /**
+     * Resolve the index a write targets, following write aliases and creating missing indices.
+     * @param {InMemoryParams['index']} index - Index or alias name
+     * @returns {string} The concrete index name
+     * @throws {errors.ResponseError} 400 if an alias points to several indices and none is the write index
+     */
+    private resolveWriteIndex(index: InMemoryParams['index']): string {
+        const target = String(index);
+
+        if (this.indexStore.has(target)) return target;
+
+        const aliased = this.resolveIndices(target, true);
+
+        if (isEmpty(aliased)) {
+            this.createIndex(target);
+
+            return target;
+        }
+        if (aliased.length === 1) return aliased[0];
+
+        return (
+            aliased.find((name) => this.indexStore.get(name)!.aliases[target]?.is_write_index === true) ??
+            fail(400, 'illegal_argument_exception', `no write index is defined for alias [${target}]`)
+        );
+    }
+
+    /**
+     * Reject writes to an index with the `index.blocks.write` setting.
+     * @param {string} name - Index name
+     * @returns {void}
+     * @throws {errors.ResponseError} 403 if writes are blocked
+     */
+    private checkWriteBlock(name: string): void {
+        const settings = this.indexStore.get(name)!.settings;
+
+        if (get(settings, ['index.blocks.write']) === true || get(settings, 'index.blocks.write') === true) {
+            fail(403, 'cluster_block_exception', `index [${name}] blocked by: [FORBIDDEN/8/index write (api)]`);
+        }
+    }
+
+    /**
+     * Reject a conditional write whose condition does not hold for the stored document.
+     * @param {string} index - Index name
+     * @param {string} id - Document id
+     * @param {InMemoryDocument | undefined} existing - Stored document
+     * @param {InMemoryParams} params - Write parameters
+     * @returns {void}
+     * @throws {errors.ResponseError} 409 on a version conflict
+     */
+    private checkConcurrency(
+        index: string,
+        id: string,
+        existing: InMemoryDocument | undefined,
+        params: InMemoryParams,
+    ): void {
+        const conflict = (reason: string) =>
+            fail(409, 'version_conflict_engine_exception', `[${id}]: version conflict, ${reason}`);
+
+        if (!isNil(params.if_seq_no) || !isNil(params.if_primary_term)) {
+            if (!existing) conflict(`required seqNo [${params.if_seq_no}], but no document was found`);
+            if (
+                existing!.seqNo !== Number(params.if_seq_no) ||
+                existing!.primaryTerm !== Number(params.if_primary_term)
+            ) {
+                conflict(`required seqNo [${params.if_seq_no}], current document has seqNo [${existing!.seqNo}]`);
+            }
+        }
+        if (includes(['external', 'external_gt'], params.version_type) && existing) {
+            if (Number(params.version) <= existing.version) {
+                conflict(
+                    `current version [${existing.version}] is higher or equal to the one provided [${params.version}] in index [${index}]`,
+                );
+            }
+        }
+        if (params.version_type === 'external_gte' && existing && Number(params.version) < existing.version) {
+            conflict(`current version [${existing.version}] is higher than the one provided [${params.version}]`);
+        }
+    }
+
+    /**
+     * Store a document source, bumping its sequence number and version.
+     * @param {string} name - Index name
+     * @param {string} id - Document id
+     * @param {InMemorySource} source - Document source
+     * @param {InMemoryParams} params - Write parameters (routing, external version)
+     * @returns {InMemoryWriteResult} The write response
+     */
+    private store(name: string, id: string, source: InMemorySource, params: InMemoryParams): InMemoryWriteResult {
+        const index = this.indexStore.get(name)!;
+        const existing = index.documents.get(id);
+        const external = includes(['external', 'external_gt', 'external_gte'], params.version_type);
+        const doc: InMemoryDocument = {
+            id,
+            primaryTerm: 1,
+            routing: params.routing ?? existing?.routing,
+            seqNo: index.seqNo++,
+            source: cloneDeep(source),
+            version: external ? Number(params.version) : (existing?.version ?? 0) + 1,
+        };
+
+        index.documents.set(id, doc);
+
+        return {
+            ...this.toDocumentMeta(name, doc, true, true),
+            _shards: SHARDS,
+            result: existing ? 'updated' : 'created',
+        };
+    }
+
+    /**
+     * Index a document.
+     * @param {InMemoryParams} params - Index parameters
+     * @param {InMemorySource | undefined} source - Document source (empty when undefined)
+     * @param {string} [opType] - 'create' to fail when the document exists
+     * @returns {InMemoryWriteResult} The write response
+     */
+    private writeDocument(
+        params: InMemoryParams,
+        source: InMemorySource | undefined,
+        opType?: string,
+    ): InMemoryWriteResult {
+        const name = this.resolveWriteIndex(params.index);
+        const id = isNil(params.id) ? randomUUID() : String(params.id);
+        const existing = this.indexStore.get(name)!.documents.get(id);
+
+        this.checkWriteBlock(name);
+
+        if (opType === 'create' && existing) {
+            fail(409, 'version_conflict_engine_exception', `[${id}]: version conflict, document already exists`);
+        }
+
+        this.checkConcurrency(name, id, existing, params);
+
+        return this.store(name, id, source ?? {}, params);
+    }
+
+    /**
+     * Apply a partial update, upsert or script to a document.
+     * @param {InMemoryParams} params - Update parameters
+     * @returns {InMemoryWriteResult} The write response
+     * @throws {errors.ResponseError} 404 when the document is missing and there is no upsert
+     */
+    private updateDocument(params: InMemoryParams): InMemoryWriteResult {
+        const name = this.resolveWriteIndex(params.index);
+        const id = String(params.id);
+        const existing = this.indexStore.get(name)!.documents.get(id);
+
+        this.checkWriteBlock(name);
+        this.checkConcurrency(name, id, existing, params);
+
+        if (!existing) {
+            const upsert = params.doc_as_upsert ? params.doc : params.upsert;
+
+            if (isNil(upsert)) return fail(404, 'document_missing_exception', `[${id}]: document missing`);
+
+            return this.store(name, id, upsert, params);
+        }
+
+        const source = isNil(params.script)
+            ? mergeSource(existing.source, params.doc ?? {})
+            : this.runScript(params.script, cloneDeep(existing.source));
+
+        return this.store(name, id, source, params);
+    }
+
+    /**
+     * Delete a document.
+     * @param {InMemoryParams} params - Delete parameters
+     * @returns {InMemoryWriteResult} The delete response
+     * @throws {errors.ResponseError} 404 when the document is missing
+     */
+    private deleteDocument(params: InMemoryParams): InMemoryWriteResult {
+        const name = this.resolveReadIndex(params.index);
+        const index = this.indexStore.get(name)!;
+        const id = String(params.id);
+        const existing = index.documents.get(id);
+
+        this.checkWriteBlock(name);
+
+        if (!existing) {
+            throw toResponseError(404, { _id: id, _index: name, _shards: SHARDS, result: 'not_found' });
+        }
+
+        this.checkConcurrency(name, id, existing, params);
+        index.documents.delete(id);
+
+        return {
+            _id: id,
+            _index: name,
+            _primary_term: 1,
+            _seq_no: index.seqNo++,
+            _shards: SHARDS,
+            _version: existing.version + 1,
+            result: 'deleted',
+        };
+    }
+
+    /**
+     * Run a script on a document source through its registered handler, or as a parameter assignment.
+     * @param {Script | string} script - Script to run
+     * @param {Record<string, unknown>} source - Document source, mutated in place
+     * @returns {Record<string, unknown>} The updated source
+     * @throws {Error} If the script has no handler and is not a plain assignment
+     */
+    private runScript(script: Script | string, source: Record<string, unknown>): Record<string, unknown> {
+        const body = typeof script === 'string' ? script : (script.source ?? '');
+        const params = typeof script === 'string' ? {} : (script.params ?? {});
+        const handler = this.options.scripts?.[body];
+
+        if (handler) {
+            handler(source, params);
+
+            return source;
+        }
+
+        const assignment = ASSIGNMENT_SCRIPT.exec(body);
+
+        if (!assignment) {
+            throw new Error(`InMemoryElasticsearchClient cannot run script "${body}": register it in options.scripts`);
+        }
+
+        const [, path, quoted, param] = assignment;
+        const field = isNil(path) ? (JSON.parse(quoted) as string) : path;
+
+        source[field] = cloneDeep(params[param]);
+
+        return source;
+    }
+
+    /**
+     * Index names captured by a point in time.
+     * @param {string} id - Point in time id
+     * @returns {string[]} The index names
+     * @throws {errors.ResponseError} 404 if the point in time was closed
+     */
+    private getPointInTime(id: string): string[] {
+        return this.pointsInTime.get(id) ?? fail(404, 'search_context_missing_exception', `No search context [${id}]`);
+    }
+
+    /**
+     * Documents of the targets matching a query, in index then insertion order.
+     * @param {string | string[] | undefined} target - Targets
+     * @param {QueryDslQueryContainer | undefined} query - Query (all documents when undefined)
+     * @returns {InMemoryHit[]} The matching hits
+     */
+    private findHits(target: string | string[] | undefined, query: QueryDslQueryContainer | undefined): InMemoryHit[] {
+        let order = 0;
+
+        return flatMap(this.resolveIndices(target, false), (name) =>
+            filter(
+                map([...this.indexStore.get(name)!.documents.values()], (doc) => ({
+                    doc,
+                    index: name,
+                    order: order++,
+                })),
+                (hit) => this.matches(query, hit.doc),
+            ),
+        );
+    }
+
+    /**
+     * Whether a document matches a query.
+     * @param {QueryDslQueryContainer | undefined} query - Query (matches everything when undefined)
+     * @param {InMemoryDocument} doc - Stored document
+     * @returns {boolean} True when the document matches
+     * @throws {Error} If the query uses an unsupported clause
+     */
+    private matches(query: QueryDslQueryContainer | undefined, doc: InMemoryDocument): boolean {
+        if (isNil(query) || isEmpty(query)) return true;
+
+        const [type, clause] = toPairs(query)[0] as [string, InMemorySource];
+
+        switch (type) {
+            case 'match_all':
+                return true;
+            case 'match_none':
+                return false;
+            case 'ids':
+                return includes(map(castArray(clause.values), String), doc.id);
+            case 'exists':
+                return !isEmpty(getDocumentValues(doc, String(clause.field)));
+            case 'term': {
+                const { field, value } = toFieldClause(clause, 'value');
+
+                return some(getDocumentValues(doc, field), (v) => equalsTerm(v, value));
+            }
+            case 'terms': {
+                const [field, terms] = toPairs(clause).find(([key]) => key !== 'boost' && key !== '_name')!;
+
+                return some(getDocumentValues(doc, field), (v) => some(castArray(terms), (t) => equalsTerm(v, t)));
+            }
+            case 'match': {
+                const { field, params, value } = toFieldClause(clause, 'query');
+                const values = getDocumentValues(doc, field);
+
+                if (typeof value !== 'string') return some(values, (v) => equalsTerm(v, value));
+
+                const tokens = new Set(flatMap(values, tokenize));
+                const wanted = tokenize(value);
+                const found = (token: string) => tokens.has(token);
+
+                return String(params.operator).toLowerCase() === 'and' ? wanted.every(found) : some(wanted, found);
+            }
+            case 'range': {
+                const { field, params } = toFieldClause(clause, 'gte');
+                const bounds: Array<[string, (c: number) => boolean]> = [
+                    ['gt', (c) => c > 0],
+                    ['gte', (c) => c >= 0],
+                    ['lt', (c) => c < 0],
+                    ['lte', (c) => c <= 0],
+                ];
+
+                return some(getDocumentValues(doc, field), (v) =>
+                    bounds.every(([key, test]) => isNil(params[key]) || test(compareValues(v, params[key]))),
+                );
+            }
+            case 'bool': {
+                const all = (clauses: unknown) =>
+                    castArray(clauses ?? []).every((q: QueryDslQueryContainer) => this.matches(q, doc));
+                const should = castArray(clause.should ?? []) as QueryDslQueryContainer[];
+                const matchedShould = filter(should, (q) => this.matches(q, doc)).length;
+                const scoring = !isEmpty(castArray(clause.must ?? [])) || !isEmpty(castArray(clause.filter ?? []));
+                const minimumShould = Number(clause.minimum_should_match ?? (scoring || isEmpty(should) ? 0 : 1));
+
+                return (
+                    all(clause.must) &&
+                    all(clause.filter) &&
+                    !some(castArray(clause.must_not ?? []), (q: QueryDslQueryContainer) => this.matches(q, doc)) &&
+                    matchedShould >= minimumShould
+                );
+            }
+            case 'constant_score':
+                return this.matches(clause.filter as QueryDslQueryContainer, doc);
+            default:
+                throw new Error(`InMemoryElasticsearchClient does not support the ${type} query`);
+        }
+    }
+
+    /**
+     * Normalize a search sort.
+     * @param {SortCombinations | SortCombinations[] | undefined} sort - Sort of the request
+     * @returns {InMemorySort[]} The sort clauses
+     */
+    private toSorts(sort: SortCombinations | SortCombinations[] | undefined): InMemorySort[] {
+        return map(isArray(sort) ? sort : compact([sort]), (entry): InMemorySort => {
+            if (typeof entry === 'string') {
+                const [field, order] = entry.split(':');
+
+                return {
+                    field,
+                    missing: 'last',
+                    order: (order as 'asc' | 'desc') ?? (field === '_score' ? 'desc' : 'asc'),
+                };
+            }
+
+            const [field, spec] = toPairs(entry)[0] as [string, unknown];
+            const options = (typeof spec === 'string' ? { order: spec } : (spec ?? {})) as {
+                missing?: string;
+                order?: 'asc' | 'desc';
+            };
+
+            return {
+                field,
+                missing: options.missing === '_first' ? 'first' : 'last',
+                order: options.order ?? (field === '_score' ? 'desc' : 'asc'),
+            };
+        });
+    }
+
+    /**
+     * Sort values of a hit: the minimum field value for ascending sorts and the maximum for descending ones.
+     * @param {InMemoryHit} hit - Search hit
+     * @param {InMemorySort[]} sorts - Sort clauses
+     * @returns {unknown[]} The sort values (null when missing)
+     */
+    private toSortValues(hit: InMemoryHit, sorts: InMemorySort[]): unknown[] {
+        return map(sorts, ({ field, order }) => {
+            if (field === '_score') return 1;
+            if (field === '_doc' || field === '_shard_doc') return hit.order;
+
+            const values = [...getDocumentValues(hit.doc, field)].sort(compareValues);
+
+            return (order === 'asc' ? values[0] : values[values.length - 1]) ?? null;
+        });
+    }
+
+    /**
+     * Compare sort value tuples.
+     * @param {unknown[]} a - First tuple
+     * @param {unknown[]} b - Second tuple
+     * @param {InMemorySort[]} sorts - Sort clauses
+     * @returns {number} Negative, zero or positive like a sort comparator
+     */
+    private compareSortValues(a: unknown[], b: unknown[], sorts: InMemorySort[]): number {
+        for (let i = 0; i < sorts.length; i++) {
+            const { missing, order } = sorts[i];
+            const left = a[i];
+            const right = b[i];
+
+            if (isNil(left) || isNil(right)) {
+                if (isNil(left) && isNil(right)) continue;
+
+                return (isNil(left) ? 1 : -1) * (missing === 'first' ? -1 : 1);
+            }
+
+            const result = compareValues(left, right);
+
+            if (result !== 0) return order === 'desc' ? -result : result;
+        }
+
+        return 0;
+    }
+
+    /**
+     * Compare hits by their sort values, falling back to index and insertion order.
+     * @param {InMemoryHit} a - First hit
+     * @param {InMemoryHit} b - Second hit
+     * @param {InMemorySort[]} sorts - Sort clauses
+     * @returns {number} Negative, zero or positive like a sort comparator
+     */
+    private compareHits(a: InMemoryHit, b: InMemoryHit, sorts: InMemorySort[]): number {
+        return (
+            this.compareSortValues(this.toSortValues(a, sorts), this.toSortValues(b, sorts), sorts) || a.order - b.order
+        );
+    }
+
+    /**
+     * Compute aggregations over the matching hits.
+     * @param {Record<string, InMemoryAggregation>} aggs - Aggregations of the request
+     * @param {InMemoryHit[]} hits - Matching hits
+     * @returns {Record<string, unknown>} The aggregation results
+     * @throws {Error} If an aggregation other than terms is requested
+     */
+    private aggregate(aggs: Record<string, InMemoryAggregation>, hits: InMemoryHit[]): Record<string, unknown> {
+        return mapValues(aggs, (agg, name) => {
+            const terms = agg.terms;
+
+            if (isNil(terms)) {
+                throw new Error(`InMemoryElasticsearchClient only supports terms aggregations (${name})`);
+            }
+
+            const buckets = new Map<string, { hits: InMemoryHit[]; key: unknown }>();
+
+            forEach(hits, (hit) => {
+                forEach(uniq(map(getDocumentValues(hit.doc, terms.field), String)), (key) => {
+                    const value = getDocumentValues(hit.doc, terms.field).find((v) => String(v) === key);
+                    const bucket = buckets.get(key) ?? { hits: [], key: value };
+
+                    bucket.hits.push(hit);
+                    buckets.set(key, bucket);
+                });
+            });
+
+            const sorted = [...buckets.values()]
+                .filter((bucket) => bucket.hits.length >= (terms.min_doc_count ?? 1))
+                .sort((a, b) => b.hits.length - a.hits.length || compareValues(a.key, b.key));
+            const size = terms.size ?? 10;
+            const sub = agg.aggs ?? agg.aggregations;
+
+            return {
+                buckets: map(sorted.slice(0, size), (bucket) => ({
+                    doc_count: bucket.hits.length,
+                    key: bucket.key,
+                    ...(typeof bucket.key === 'boolean' ? { key_as_string: String(bucket.key) } : {}),
+                    ...(isNil(sub) ? {} : this.aggregate(sub, bucket.hits)),
+                })),
+                doc_count_error_upper_bound: 0,
+                sum_other_doc_count: sorted.slice(size).reduce((sum, bucket) => sum + bucket.hits.length, 0),
+            };
+        });
+    }
+
+    /**
+     * Metadata fields of a stored document.
+     * @param {string} index - Index name
+     * @param {InMemoryDocument} doc - Stored document
+     * @param {boolean} [withSeqNo=true] - Include `_seq_no` and `_primary_term`
+     * @param {boolean} [withVersion=true] - Include `_version`
+     * @returns {Record<string, unknown>} The metadata fields
+     */
+    private toDocumentMeta(index: string, doc: InMemoryDocument, withSeqNo = true, withVersion = true) {
+        return {
+            _id: doc.id,
+            _index: index,
+            ...(isNil(doc.routing) ? {} : { _routing: doc.routing }),
+            ...(withSeqNo ? { _primary_term: doc.primaryTerm, _seq_no: doc.seqNo } : {}),
+            ...(withVersion ? { _version: doc.version } : {}),
+        };
+    }
+}
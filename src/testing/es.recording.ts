@@ -0,0 +1,303 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+import { errors, Transport } from '@elastic/elasticsearch';
+import compact from 'lodash/compact';
+import includes from 'lodash/includes';
+import isArray from 'lodash/isArray';
+import isNil from 'lodash/isNil';
+import isPlainObject from 'lodash/isPlainObject';
+import isString from 'lodash/isString';
+import map from 'lodash/map';
+import mapValues from 'lodash/mapValues';
+import sortBy from 'lodash/sortBy';
+import toPairs from 'lodash/toPairs';
+import toString from 'lodash/toString';
+
+import { EsReplayError } from '../es.errors';
+
+import type { EsRecordedRequest, EsRecordingOptions } from '../es.interfaces';
+import type {
+    DiagnosticResult,
+    TransportRequestOptions,
+    TransportRequestOptionsWithMeta,
+    TransportRequestOptionsWithOutMeta,
+    TransportRequestParams,
+    TransportResult,
+} from '@elastic/elasticsearch';
+
+export interface EsRecordedResponse {
+    body: unknown;
+    statusCode: number;
+}
+
+export interface EsRecording {
+    /** `<METHOD> <path>[?<querystring>] <body hash>` */
+    key: string;
+    request: EsRecordedRequest;
+    response: EsRecordedResponse;
+}
+
+interface EsFixtureFile {
+    /** Replayed occurrences per key */
+    cursors: Map<string, number>;
+    recordings: EsRecording[];
+    /** Whether the file was truncated by this process in record mode */
+    started: boolean;
+}
+
+const fixtureFiles = new Map<string, EsFixtureFile>();
+
+/**
+ * Recursively sort object keys so equal requests serialize identically.
+ * @param {unknown} value - Value to normalize
+ * @returns {unknown} The value with sorted keys
+ */
+const sortKeys = (value: unknown): unknown => {
+    if (isArray(value)) return map(value, sortKeys);
+    if (!isPlainObject(value)) return value;
+
+    return Object.fromEntries(
+        map(
+            sortBy(toPairs(value as Record<string, unknown>), ([key]) => key),
+            ([key, v]) => [key, sortKeys(v)],
+        ),
+    );
+};
+
+/**
+ * Parse a JSON string body, keeping it verbatim when it is not JSON.
+ * @param {string} body - Serialized body
+ * @returns {unknown} The parsed body
+ */
+const parseBody = (body: string): unknown => {
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+};
+
+/**
+ * Normalized, serializable form of a transport request.
+ * @param {TransportRequestParams} params - Transport request parameters
+ * @param {EsRecordingOptions} options - Recording options
+ * @returns {EsRecordedRequest} The recorded request
+ */
+const toRecordedRequest = (params: TransportRequestParams, options: EsRecordingOptions): EsRecordedRequest => {
+    const querystring = isString(params.querystring)
+        ? Object.fromEntries(new URLSearchParams(params.querystring))
+        : mapValues(params.querystring, toString);
+    let body: unknown = params.body;
+
+    if (!isNil(params.bulkBody)) {
+        const lines = isString(params.bulkBody) ? compact(params.bulkBody.split('\n')) : params.bulkBody;
+
+        body = map(lines as unknown[], (line) => (isString(line) ? parseBody(line) : line));
+    } else if (isString(body)) {
+        body = parseBody(body);
+    } else if (Buffer.isBuffer(body)) {
+        body = parseBody(body.toString());
+    }
+
+    const request: EsRecordedRequest = sortKeys({
+        method: params.method,
+        path: params.path,
+        ...(isNil(body) ? {} : { body }),
+        ...(isNil(querystring) || Object.keys(querystring).length === 0 ? {} : { querystring }),
+    }) as EsRecordedRequest;
+
+    return options.normalize ? options.normalize(request) : request;
+};
+
+/**
+ * Fixture key of a recorded request.
+ * @param {EsRecordedRequest} request - Recorded request
+ * @returns {string} The key
+ * @example
+ * toRecordingKey({ method: 'POST', path: '/products/_search', body: { query: { match_all: {} } } });
+ * // 'POST /products/_search 5f0c1e5d2b6a4c1f'
+ */
+export const toRecordingKey = (request: EsRecordedRequest): string => {
+    const query = isNil(request.querystring) ? '' : `?${new URLSearchParams(request.querystring).toString()}`;
+    const hash = createHash('sha256')
+        .update(JSON.stringify(sortKeys(request.body ?? null)))
+        .digest('hex')
+        .slice(0, 16);
+
+    return `${request.method} ${request.path}${query} ${hash}`;
+};
+
+/**
+ * Shared state of a fixture file, loaded once per process.
+ * @param {EsRecordingOptions} options - Recording options
+ * @returns {EsFixtureFile} The fixture file state
+ * @throws {EsReplayError} In replay mode, if the fixture file does not exist
+ */
+const getFixtureFile = (options: EsRecordingOptions): EsFixtureFile => {
+    const path = resolve(options.path);
+    let file = fixtureFiles.get(path);
+
+    if (file) return file;
+    if (options.mode === 'replay' && !existsSync(path)) {
+        throw new EsReplayError(`Elasticsearch fixture file ${path} does not exist: record it first`);
+    }
+
+    const lines = options.mode === 'replay' ? compact(readFileSync(path, 'utf8').split('\n')) : [];
+
+    file = { cursors: new Map(), recordings: map(lines, (line) => JSON.parse(line) as EsRecording), started: false };
+    fixtureFiles.set(path, file);
+
+    return file;
+};
+
+/**
+ * Append a recording to its fixture file, truncating the file on the first recording of the process.
+ * @param {EsRecordingOptions} options - Recording options
+ * @param {EsRecording} recording - Recording to store
+ * @returns {void}
+ */
+const writeRecording = (options: EsRecordingOptions, recording: EsRecording): void => {
+    const path = resolve(options.path);
+    const file = getFixtureFile(options);
+
+    if (!file.started) {
+        file.started = true;
+        file.recordings = [];
+        mkdirSync(dirname(path), { recursive: true });
+    }
+
+    file.recordings.push(recording);
+    writeFileSync(path, map(file.recordings, (r) => `${JSON.stringify(r)}\n`).join(''));
+};
+
+/**
+ * Next recorded response of a request. Identical requests are answered with their recordings in order, the last
+ * one being repeated once they are exhausted.
+ * @param {EsRecordingOptions} options - Recording options
+ * @param {string} key - Recording key
+ * @returns {EsRecording} The recording
+ * @throws {EsReplayError} If the request was never recorded
+ */
+const readRecording = (options: EsRecordingOptions, key: string): EsRecording => {
+    const file = getFixtureFile(options);
+    const matches = file.recordings.filter((r) => r.key === key);
+
+    if (matches.length === 0) {
+        throw new EsReplayError(`No recorded Elasticsearch response for ${key} in ${resolve(options.path)}`, key);
+    }
+
+    const occurrence = file.cursors.get(key) ?? 0;
+
+    file.cursors.set(key, occurrence + 1);
+
+    return matches[Math.min(occurrence, matches.length - 1)];
+};
+
+/**
+ * Serializable part of a transport result.
+ * @param {DiagnosticResult} result - Transport result, or the result carried by a response error
+ * @returns {EsRecordedResponse} The recorded response
+ */
+const pickResponse = (result: DiagnosticResult): EsRecordedResponse => ({
+    body: result.body,
+    statusCode: result.statusCode ?? 0,
+});
+
+/**
+ * Transport result served for a recorded response.
+ * @param {TransportRequestParams} params - Transport request parameters
+ * @param {TransportRequestOptions} requestOptions - Request options
+ * @param {EsRecordedResponse} response - Recorded response
+ * @returns {TransportResult} The transport result
+ */
+const toTransportResult = (
+    params: TransportRequestParams,
+    requestOptions: TransportRequestOptions,
+    response: EsRecordedResponse,
+): TransportResult => ({
+    body: response.body,
+    headers: {},
+    meta: {
+        aborted: false,
+        attempts: 0,
+        connection: null,
+        context: null,
+        name: 'replay',
+        request: { id: 0, options: requestOptions, params: { method: params.method, path: params.path } },
+    },
+    statusCode: response.statusCode,
+    warnings: null,
+});
+
+/**
+ * Create a transport class that records request/response pairs to a fixture file or replays them. It is registered
+ * with createElasticsearchClient for clients whose ElasticsearchClientOptions have `recording`, and may be passed as
+ * the `Transport` client option directly.
+ * @param {EsRecordingOptions} options - Recording mode, fixture path and request normalization
+ * @returns {typeof Transport} The transport class
+ * @example
+ * const client = new Client({ node, Transport: createRecordingTransport({ mode: 'replay', path: 'test/fixtures/search.ndjson' }) });
+ */
+export const createRecordingTransport = (options: EsRecordingOptions): typeof Transport =>
+    class RecordingTransport extends Transport {
+        /**
+         * Record or replay a request.
+         * @param {TransportRequestParams} params - Transport request parameters
+         * @param {TransportRequestOptions} [requestOptions] - Request options
+         * @returns {Promise<unknown>} The response body, or the full result with `meta: true`
+         * @throws {errors.ResponseError} For error responses that are not ignored, like the default transport
+         * @throws {EsReplayError} In replay mode, if the request was never recorded
+         */
+        async request<TResponse = unknown>(
+            params: TransportRequestParams,
+            requestOptions?: TransportRequestOptionsWithOutMeta,
+        ): Promise<TResponse>;
+        async request<TResponse = unknown, TContext = unknown>(
+            params: TransportRequestParams,
+            requestOptions?: TransportRequestOptionsWithMeta,
+        ): Promise<TransportResult<TResponse, TContext>>;
+        async request<TResponse = unknown>(
+            params: TransportRequestParams,
+            requestOptions?: TransportRequestOptions,
+        ): Promise<TResponse>;
+        async request(params: TransportRequestParams, requestOptions: TransportRequestOptions = {}): Promise<unknown> {
+            const request = toRecordedRequest(params, options);
+            const key = toRecordingKey(request);
+
+            if (options.mode === 'record') {
+                try {
+                    const result = await super.request(params, { ...requestOptions, meta: true });
+
+                    writeRecording(options, {
+                        key,
+                        request,
+                        response: sortKeys(pickResponse(result)) as EsRecordedResponse,
+                    });
+
+                    return requestOptions.meta ? result : result.body;
+                } catch (error) {
+                    if (error instanceof errors.ResponseError) {
+                        writeRecording(options, {
+                            key,
+                            request,
+                            response: sortKeys(pickResponse(error.meta)) as EsRecordedResponse,
+                        });
+                    }
+
+                    throw error;
+                }
+            }
+
+            const { response } = readRecording(options, key);
+            const result = toTransportResult(params, requestOptions, response);
+            const isHead = params.method === 'HEAD';
+            const ignored =
+                includes(requestOptions.ignore, response.statusCode) || (isHead && response.statusCode === 404);
+
+            if (response.statusCode >= 400 && !ignored) throw new errors.ResponseError(result);
+
+            return requestOptions.meta ? result : result.body;
+        }
+    };
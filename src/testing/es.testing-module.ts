@@ -0,0 +1,97 @@
+import { DynamicModule, Global, Module, Provider } from '@nestjs/common';
+
+import defaultTo from 'lodash/defaultTo';
+import get from 'lodash/get';
+import map from 'lodash/map';
+import uniq from 'lodash/uniq';
+
+import { ES_DEFAULT_CLIENT_NAME, ES_MODULE_OPTIONS, getElasticsearchClientToken } from '../es.constants';
+import { resolveIndexNames } from '../es.index-names';
+import { ensureDocumentIndex } from '../es.indices';
+import { ElasticsearchService } from '../es.service';
+import { normalizeName } from '../es.utils';
+import { InMemoryElasticsearchClient } from './es.in-memory-client';
+
+import type { ElasticsearchClient, ElasticsearchModuleOptions } from '../es.interfaces';
+import type { InMemoryElasticsearchClientOptions } from './es.in-memory-client';
+
+export interface ElasticsearchTestingModuleOptions
+    extends
+        Pick<ElasticsearchModuleOptions, 'documents' | 'indexNameResolver' | 'logger' | 'tenancy'>,
+        InMemoryElasticsearchClientOptions {
+    /** Names of the in-memory clients to register besides the default one */
+    clients?: string[];
+}
+
+/**
+ * Drop-in replacement of ElasticsearchModule.forRoot for tests: registers the same ElasticsearchService and client
+ * tokens, backed by InMemoryElasticsearchClient instances, so ElasticsearchModule.forFeature repositories and
+ * @InjectElasticsearch work unchanged without a cluster. The indices of the given documents are created
+ * before the service is provided.
+ */
+@Global()
+@Module({})
+export class ElasticsearchTestingModule {
+    /**
+     * Register in-memory Elasticsearch clients.
+     * @param {ElasticsearchTestingModuleOptions} [options] - Documents, extra client names, resolver, tenancy and scripts
+     * @returns {DynamicModule} Dynamic module configuration
+     * @example
+     * const moduleRef = await Test.createTestingModule({
+     *   imports: [ElasticsearchTestingModule.forRoot({ documents: [Product] }), ElasticsearchModule.forFeature([Product])],
+     * }).compile();
+     */
+    static forRoot(options: ElasticsearchTestingModuleOptions = {}): DynamicModule {
+        const names = uniq([ES_DEFAULT_CLIENT_NAME, ...map(get(options, 'clients', []), (n) => normalizeName(n))]);
+        const moduleOptions: ElasticsearchModuleOptions = {
+            ...options,
+            clients: map(names, (name) => ({ name })),
+        };
+        const optionProvider: Provider = { provide: ES_MODULE_OPTIONS, useValue: moduleOptions };
+        const serviceProvider: Provider = {
+            inject: [ES_MODULE_OPTIONS],
+            provide: ElasticsearchService,
+            useFactory: async (opts: ElasticsearchModuleOptions): Promise<ElasticsearchService> => {
+                const service = new ElasticsearchService();
+
+                service.configure({ ...opts, clients: [] });
+
+                for (const name of names) {
+                    service.addClient(name, new InMemoryElasticsearchClient(options).asClient());
+                }
+
+                if (get(opts, 'tenancy.strategy') !== 'index') {
+                    const creations = map(defaultTo(get(opts, 'documents'), []), (doc) =>
+                        ensureDocumentIndex(
+                            service.get(),
+                            doc,
+                            resolveIndexNames(doc, {
+                                clientName: ES_DEFAULT_CLIENT_NAME,
+                                indexNameResolver: opts.indexNameResolver,
+                            }).write,
+                        ),
+                    );
+
+                    await Promise.allSettled(creations);
+                }
+
+                return service;
+            },
+        };
+        const clientProviders: Provider[] = map(names, (name) => ({
+            inject: [ElasticsearchService],
+            provide: getElasticsearchClientToken(name),
+            useFactory: (service: ElasticsearchService): ElasticsearchClient => service.get(name),
+        }));
+
+        return {
+            providers: [optionProvider, serviceProvider, ...clientProviders],
+            exports: [
+                ES_MODULE_OPTIONS,
+                ElasticsearchService,
+                ...map(names, (name) => getElasticsearchClientToken(name)),
+            ],
+            module: ElasticsearchTestingModule,
+        };
+    }
+}
@@ -0,0 +1,11 @@
+import { registerRecordingTransport } from '../es.utils';
+import { createRecordingTransport } from './es.recording';
+
+export * from './es.in-memory-client';
+
+export * from './es.recording';
+
+export * from './es.testing-module';
+
+// Clients configured with `recording` only work once the test tooling is loaded
+registerRecordingTransport(createRecordingTransport);